@@ -0,0 +1,123 @@
+// Rewrite stored customer and do-not-call numbers in E.164.
+//
+//   npm run normalize-phones [-- --dry-run]
+//
+// National numbers are read against DEFAULT_PHONE_REGION. Numbers that don't parse are reported and left
+// as they are. A customer whose number normalizes to one another customer already has is also left, and
+// shows up in GET /api/customers/duplicates for merging. Calls keep the number as it was dialed.
+import { repository } from '../repositories';
+import { Customer } from '../services/supabaseService';
+import { DEFAULT_PHONE_REGION, toE164 } from '../utils/phoneNumber';
+
+const PAGE_SIZE = 500;
+
+interface Summary {
+  checked: number;
+  updated: number;
+  invalid: string[];
+  conflicts: string[];
+}
+
+function emptySummary(): Summary {
+  return { checked: 0, updated: 0, invalid: [], conflicts: [] };
+}
+
+async function normalizeCustomers(dryRun: boolean): Promise<Summary> {
+  const summary = emptySummary();
+  const taken = new Set<string>();
+
+  const customers: Customer[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await repository.listCustomers({}, { limit: PAGE_SIZE, offset, sort: 'id', ascending: true });
+    customers.push(...page.rows);
+    if (offset + PAGE_SIZE >= page.total) break;
+  }
+  customers.forEach(customer => taken.add(customer.phone_number));
+
+  for (const customer of customers) {
+    summary.checked++;
+    const e164 = toE164(customer.phone_number);
+    if (!e164) {
+      summary.invalid.push(`customer ${customer.id}: ${customer.phone_number}`);
+      continue;
+    }
+    if (e164 === customer.phone_number) continue;
+
+    if (taken.has(e164)) {
+      summary.conflicts.push(`customer ${customer.id}: ${customer.phone_number} is ${e164}, which another customer has`);
+      continue;
+    }
+
+    if (!dryRun) {
+      await repository.updateCustomer(customer.id, { phone_number: e164 });
+    }
+    taken.delete(customer.phone_number);
+    taken.add(e164);
+    summary.updated++;
+  }
+
+  return summary;
+}
+
+// An entry that normalizes to a number already listed is the same entry twice and is removed
+async function normalizeDoNotCall(dryRun: boolean): Promise<Summary & { removed: number }> {
+  const summary = { ...emptySummary(), removed: 0 };
+  const entries = (await repository.getDoNotCallEntries()).reverse(); // Oldest first
+  const listed = new Set(entries.map(entry => entry.phone_number));
+
+  for (const entry of entries) {
+    summary.checked++;
+    const e164 = toE164(entry.phone_number);
+    if (!e164) {
+      summary.invalid.push(`do-not-call ${entry.id}: ${entry.phone_number}`);
+      continue;
+    }
+    if (e164 === entry.phone_number) continue;
+
+    if (listed.has(e164)) {
+      if (!dryRun) {
+        await repository.deleteDoNotCallEntry(entry.id);
+      }
+      summary.removed++;
+      continue;
+    }
+
+    if (!dryRun) {
+      await repository.updateDoNotCallNumber(entry.id, e164);
+    }
+    listed.delete(entry.phone_number);
+    listed.add(e164);
+    summary.updated++;
+  }
+
+  return summary;
+}
+
+function printProblems(title: string, lines: string[]) {
+  if (lines.length === 0) return;
+  console.log(`\n${title} (${lines.length}):`);
+  lines.forEach(line => console.log(`  ${line}`));
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`📞 Normalizing phone numbers to E.164 (default region ${DEFAULT_PHONE_REGION})${dryRun ? ' — dry run, nothing is written' : ''}`);
+
+  const customers = await normalizeCustomers(dryRun);
+  console.log(`Customers: ${customers.checked} checked, ${customers.updated} ${dryRun ? 'to update' : 'updated'}`);
+
+  const doNotCall = await normalizeDoNotCall(dryRun);
+  console.log(`Do-not-call: ${doNotCall.checked} checked, ${doNotCall.updated} ${dryRun ? 'to update' : 'updated'}, ${doNotCall.removed} duplicate entries ${dryRun ? 'to remove' : 'removed'}`);
+
+  printProblems('Not valid numbers, left unchanged', [...customers.invalid, ...doNotCall.invalid]);
+  printProblems('Duplicates of another customer, left unchanged', customers.conflicts);
+
+  if (customers.conflicts.length > 0) {
+    console.log(`\nMerge these with GET /api/customers/duplicates and POST /api/customers/:customerId/merge, then run this again.`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Phone number normalization failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,218 @@
+// Replay transcripts through the response parser without writing anything.
+//
+//   npm run replay-transcript -- <transcript.json> [--survey <id> | --survey-file <definition.json>] [--json]
+//   npm run test:transcripts [-- <fixtures dir>]
+//
+// A transcript file holds the array stored in call_transcripts.transcript, or an object with
+// `transcript` (and optionally `metadata`), such as a conversation fetched from the provider or a fixture.
+import fs from 'fs';
+import path from 'path';
+import { SurveyDefinition } from '../services/supabaseService';
+import { surveyService } from '../services/surveyService';
+import { analyzeTranscript, TranscriptAnalysis } from '../services/transcriptParser';
+import { DEFAULT_SURVEY, DEFAULT_SURVEY_ID } from '../services/defaultSurvey';
+import { callbackService, CallbackRequest } from '../services/callbackService';
+import { ElevenLabsTranscriptEntry, ElevenLabsConversationMetadata } from '../webhooks/elevenlabsEvents';
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/transcripts';
+// Zone callback times in fixtures are read in, unless the fixture gives one
+const DEFAULT_FIXTURE_TIMEZONE = 'Australia/Sydney';
+
+interface ExpectedResponse {
+  question_number: number;
+  response_text: string;
+  is_followup?: boolean;
+  response_sentiment?: 'positive' | 'neutral' | 'negative';
+  answer_value?: number | string | null;
+}
+
+// Recorded transcript with the parser output it must keep producing
+interface TranscriptFixture {
+  description?: string;
+  survey?: string | SurveyDefinition; // Survey id or inline definition; the built-in survey by default
+  transcript: ElevenLabsTranscriptEntry[];
+  metadata?: ElevenLabsConversationMetadata;
+  timezone?: string; // Customer's zone, for callback times
+  expected: {
+    responses: ExpectedResponse[];
+    optOut?: string | null;
+    callback?: string | null; // Time phrase of the callback request, or null for none
+  };
+}
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Built-in survey without a database round trip; other ids are loaded from Supabase
+async function resolveSurvey(survey?: string | SurveyDefinition): Promise<SurveyDefinition> {
+  if (survey && typeof survey === 'object') return survey;
+  if (!survey || survey === DEFAULT_SURVEY_ID) return DEFAULT_SURVEY;
+
+  const stored = await surveyService.getSurvey(survey);
+  if (!stored) throw new Error(`Survey ${survey} not found`);
+  return stored;
+}
+
+function quote(text: string, length = 70): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return `"${oneLine.length > length ? `${oneLine.slice(0, length - 1)}…` : oneLine}"`;
+}
+
+function printAnalysis(analysis: TranscriptAnalysis) {
+  console.log('Turns:');
+  for (const turn of analysis.turns) {
+    const isAgent = turn.role === 'agent' || turn.role === 'assistant';
+    let label = '';
+    if (turn.question !== null) {
+      label = isAgent
+        ? `${turn.followUp ? 'follow-up' : 'asks'} Q${turn.question}`
+        : `→ Q${turn.question}${turn.followUp ? ' (follow-up)' : ''}`;
+    } else if (isAgent && turn.followUp) {
+      label = 'follow-up (no question)';
+    }
+    console.log(`  ${String(turn.index).padStart(3)}  ${turn.role.padEnd(9)} ${label.padEnd(24)} ${quote(turn.message)}`);
+  }
+
+  console.log(`\nResponses (${analysis.responses.length}):`);
+  for (const response of analysis.responses) {
+    const kind = response.is_followup ? 'follow-up' : 'answer';
+    const score = typeof response.sentiment_score === 'number' ? `${response.sentiment_score >= 0 ? '+' : ''}${response.sentiment_score.toFixed(2)}` : '';
+    // Extracted value, with a ? when it is flagged for review
+    const answer = response.answer_type ? `${response.answer_value ?? '—'}${response.needs_review ? '?' : ''}` : '';
+    console.log(`  Q${response.question_number}  ${kind.padEnd(9)} ${(response.response_sentiment || '').padEnd(8)} ${score.padEnd(5)} ${answer.padEnd(12)} ${quote(response.response_text)}`);
+  }
+
+  console.log(`\nOpt-out: ${analysis.optOutPhrase ? quote(analysis.optOutPhrase) : 'none'}`);
+}
+
+async function replayFile(file: string, args: string[]) {
+  const content = readJson(file);
+  const transcript: ElevenLabsTranscriptEntry[] = Array.isArray(content) ? content : content.transcript;
+  if (!Array.isArray(transcript)) {
+    throw new Error(`${file} does not contain a transcript array`);
+  }
+
+  const surveyFile = option(args, '--survey-file');
+  const survey = await resolveSurvey(
+    surveyFile ? readJson(surveyFile) : option(args, '--survey') || (Array.isArray(content) ? undefined : content.survey)
+  );
+
+  const analysis = analyzeTranscript(survey, transcript, Array.isArray(content) ? {} : content.metadata || {});
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ surveyId: survey.id, ...analysis }, null, 2));
+  } else {
+    console.log(`Survey: ${survey.id}\n`);
+    printAnalysis(analysis);
+  }
+}
+
+// Differences between a fixture's expected output and what the parser produced now
+function compareFixture(fixture: TranscriptFixture, analysis: TranscriptAnalysis, callback: CallbackRequest | null): string[] {
+  const problems: string[] = [];
+  const expected = fixture.expected.responses;
+  const actual = analysis.responses;
+
+  if (expected.length !== actual.length) {
+    problems.push(`expected ${expected.length} responses, got ${actual.length}`);
+  }
+
+  for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+    const want = expected[i];
+    const got = actual[i];
+    if (!want || !got) {
+      const extra = want || got;
+      problems.push(`response ${i + 1}: ${want ? 'missing' : 'unexpected'} Q${extra.question_number} ${quote(extra.response_text, 50)}`);
+      continue;
+    }
+
+    if (want.question_number !== got.question_number) {
+      problems.push(`response ${i + 1}: expected Q${want.question_number}, got Q${got.question_number} for ${quote(got.response_text, 50)}`);
+    }
+    if (want.response_text !== got.response_text) {
+      problems.push(`response ${i + 1}: expected ${quote(want.response_text, 50)}, got ${quote(got.response_text, 50)}`);
+    }
+    if ((want.is_followup ?? false) !== got.is_followup) {
+      problems.push(`response ${i + 1}: expected is_followup ${want.is_followup ?? false}, got ${got.is_followup}`);
+    }
+    if (want.response_sentiment && want.response_sentiment !== got.response_sentiment) {
+      problems.push(`response ${i + 1}: expected sentiment ${want.response_sentiment}, got ${got.response_sentiment}`);
+    }
+    if (want.answer_value !== undefined && want.answer_value !== (got.answer_value ?? null)) {
+      problems.push(`response ${i + 1}: expected answer ${want.answer_value}, got ${got.answer_value ?? null}`);
+    }
+  }
+
+  if (fixture.expected.optOut !== undefined && (fixture.expected.optOut || null) !== analysis.optOutPhrase) {
+    problems.push(`expected opt-out ${fixture.expected.optOut ? quote(fixture.expected.optOut) : 'none'}, got ${analysis.optOutPhrase ? quote(analysis.optOutPhrase) : 'none'}`);
+  }
+
+  const callbackText = callback?.parsed.matchedText || null;
+  if (fixture.expected.callback !== undefined && (fixture.expected.callback || null) !== callbackText) {
+    problems.push(`expected callback ${fixture.expected.callback ? quote(fixture.expected.callback) : 'none'}, got ${callbackText ? quote(callbackText) : 'none'}`);
+  }
+
+  return problems;
+}
+
+async function runFixtures(dir: string): Promise<boolean> {
+  const files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+  if (files.length === 0) {
+    console.log(`No fixtures in ${dir}`);
+    return true;
+  }
+
+  let failures = 0;
+  for (const file of files) {
+    const fixture: TranscriptFixture = readJson(path.join(dir, file));
+    const survey = await resolveSurvey(fixture.survey);
+    const analysis = analyzeTranscript(survey, fixture.transcript, fixture.metadata || {});
+    const callback = callbackService.findCallbackRequest(
+      fixture.transcript,
+      new Date((fixture.metadata?.start_time_unix_secs ?? 0) * 1000),
+      fixture.timezone || DEFAULT_FIXTURE_TIMEZONE
+    );
+    const problems = compareFixture(fixture, analysis, callback);
+
+    if (problems.length === 0) {
+      console.log(`✅ ${file}${fixture.description ? ` — ${fixture.description}` : ''}`);
+    } else {
+      failures++;
+      console.log(`❌ ${file}${fixture.description ? ` — ${fixture.description}` : ''}`);
+      problems.forEach(problem => console.log(`     ${problem}`));
+    }
+  }
+
+  console.log(`\n${files.length - failures}/${files.length} transcript fixtures passed`);
+  return failures === 0;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--fixtures')) {
+    const dir = args.filter(arg => !arg.startsWith('--')).pop() || DEFAULT_FIXTURES_DIR;
+    const passed = await runFixtures(dir);
+    process.exit(passed ? 0 : 1);
+  }
+
+  const file = args.find((arg, index) => !arg.startsWith('--') && !['--survey', '--survey-file'].includes(args[index - 1]));
+  if (!file) {
+    console.error('Usage: replay-transcript <transcript.json> [--survey <id> | --survey-file <definition.json>] [--json]');
+    console.error('       replay-transcript --fixtures [dir]');
+    process.exit(1);
+  }
+
+  await replayFile(file, args);
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,278 @@
+import { Request, Response } from 'express';
+import { supabaseService, WebhookEvent, SurveyDefinition } from '../services/supabaseService';
+import { repository } from '../repositories';
+import { webhookInboxService } from '../services/webhookInboxService';
+import { reconcilerService, ReconcileResult } from '../services/reconcilerService';
+import { surveyService } from '../services/surveyService';
+import { analyzeTranscript } from '../services/transcriptParser';
+import { DEFAULT_SURVEY_ID } from '../services/defaultSurvey';
+import { sentimentService } from '../services/sentimentService';
+import { answerService } from '../services/answerService';
+import { ListQueryError, parseBooleanParam, parseDateRange } from '../utils/pagination';
+
+// Count results by action for the response summary
+function summarize(results: ReconcileResult[]) {
+  const summary: Record<ReconcileResult['action'], number> = { completed: 0, failed: 0, 'still-active': 0, error: 0 };
+  results.forEach(result => summary[result.action]++);
+  return summary;
+}
+
+const WEBHOOK_EVENT_STATUSES: WebhookEvent['status'][] = ['pending', 'processing', 'processed', 'failed', 'dead'];
+
+export class AdminController {
+  // List webhook inbox events (?status=dead for the dead-letter queue, ?limit=)
+  async getWebhookEvents(req: Request, res: Response) {
+    try {
+      const status = req.query.status as WebhookEvent['status'] | undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+      if (status && !WEBHOOK_EVENT_STATUSES.includes(status)) {
+        return res.status(400).json({
+          error: `status must be one of: ${WEBHOOK_EVENT_STATUSES.join(', ')}`
+        });
+      }
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 1000)) {
+        return res.status(400).json({
+          error: 'limit must be between 1 and 1000'
+        });
+      }
+
+      const events = await supabaseService.getWebhookEvents({ status, limit });
+      res.json(events);
+    } catch (error) {
+      console.error('Get webhook events error:', error);
+      res.status(500).json({
+        error: 'Failed to get webhook events',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async getWebhookEvent(req: Request, res: Response) {
+    try {
+      const event = await supabaseService.getWebhookEventById(req.params.eventId);
+      if (!event) {
+        return res.status(404).json({
+          error: 'Webhook event not found'
+        });
+      }
+
+      res.json(event);
+    } catch (error) {
+      console.error('Get webhook event error:', error);
+      res.status(500).json({
+        error: 'Failed to get webhook event',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Replay a failed or dead-lettered event
+  async replayWebhookEvent(req: Request, res: Response) {
+    try {
+      const event = await supabaseService.getWebhookEventById(req.params.eventId);
+      if (!event) {
+        return res.status(404).json({
+          error: 'Webhook event not found'
+        });
+      }
+
+      if (event.status === 'processing') {
+        return res.status(409).json({
+          error: 'Webhook event is being processed'
+        });
+      }
+
+      const updated = await webhookInboxService.replay(event);
+      res.json({
+        success: true,
+        event: updated
+      });
+    } catch (error) {
+      console.error('Replay webhook event error:', error);
+      res.status(500).json({
+        error: 'Failed to replay webhook event',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Reconcile stale calls now instead of waiting for the next scheduled run
+  async reconcileStaleCalls(req: Request, res: Response) {
+    try {
+      const results = await reconcilerService.reconcileStaleCalls();
+      res.json({
+        checked: results.length,
+        summary: summarize(results),
+        results
+      });
+    } catch (error) {
+      console.error('Reconcile stale calls error:', error);
+      res.status(500).json({
+        error: 'Failed to reconcile calls',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async reconcileCall(req: Request, res: Response) {
+    try {
+      const call = await repository.getCallById(req.params.callId);
+      if (!call) {
+        return res.status(404).json({
+          error: 'Call not found'
+        });
+      }
+
+      const result = await reconcilerService.reconcileCall(call);
+      res.json(result);
+    } catch (error) {
+      console.error('Reconcile call error:', error);
+      res.status(500).json({
+        error: 'Failed to reconcile call',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async reconcileCampaign(req: Request, res: Response) {
+    try {
+      const campaign = await supabaseService.getCampaignById(req.params.campaignId);
+      if (!campaign) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      const results = await reconcilerService.reconcileCampaign(campaign.id);
+      res.json({
+        campaignId: campaign.id,
+        checked: results.length,
+        summary: summarize(results),
+        results
+      });
+    } catch (error) {
+      console.error('Reconcile campaign error:', error);
+      res.status(500).json({
+        error: 'Failed to reconcile campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Dry-run the transcript parser on a posted transcript or a stored call's; nothing is written
+  async replayTranscript(req: Request, res: Response) {
+    try {
+      const { transcript: postedTranscript, metadata, callId, surveyId } = req.body;
+
+      if (!callId && !Array.isArray(postedTranscript)) {
+        return res.status(400).json({
+          error: 'transcript (array) or callId is required'
+        });
+      }
+
+      let transcript = postedTranscript;
+      let survey: SurveyDefinition | null = null;
+
+      if (callId) {
+        const call = await repository.getCallById(callId);
+        if (!call) {
+          return res.status(404).json({
+            error: 'Call not found'
+          });
+        }
+
+        if (!Array.isArray(transcript)) {
+          const stored = await repository.getTranscriptByCallId(call.id);
+          if (!stored) {
+            return res.status(404).json({
+              error: 'No transcript stored for this call'
+            });
+          }
+          transcript = stored.transcript;
+        }
+
+        if (!surveyId) {
+          survey = await surveyService.getSurveyForCall(call);
+        }
+      }
+
+      if (!survey) {
+        survey = await surveyService.getSurvey(surveyId || DEFAULT_SURVEY_ID);
+        if (!survey) {
+          return res.status(404).json({
+            error: 'Survey not found'
+          });
+        }
+      }
+
+      const analysis = analyzeTranscript(survey, transcript, metadata || {});
+      res.json({
+        surveyId: survey.id,
+        ...analysis
+      });
+    } catch (error) {
+      console.error('Replay transcript error:', error);
+      res.status(500).json({
+        error: 'Failed to replay transcript',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Re-score stored responses with the current sentiment analyzer (?campaignId=&from=&to=&dryRun=true)
+  async rescoreSentiment(req: Request, res: Response) {
+    try {
+      const campaignId = req.query.campaignId as string | undefined;
+      if (campaignId && !await supabaseService.getCampaignById(campaignId)) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      const result = await sentimentService.rescore(
+        { campaignId, ...parseDateRange(req) },
+        parseBooleanParam(req, 'dryRun') ?? false
+      );
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Rescore sentiment error:', error);
+      res.status(500).json({
+        error: 'Failed to re-score responses',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Extract typed values from stored main answers (?campaignId=&from=&to=&dryRun=true); reviewed answers are kept
+  async extractAnswers(req: Request, res: Response) {
+    try {
+      const campaignId = req.query.campaignId as string | undefined;
+      if (campaignId && !await supabaseService.getCampaignById(campaignId)) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      const result = await answerService.extract(
+        { campaignId, ...parseDateRange(req) },
+        parseBooleanParam(req, 'dryRun') ?? false
+      );
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Extract answers error:', error);
+      res.status(500).json({
+        error: 'Failed to extract answers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export const adminController = new AdminController();
@@ -1,12 +1,24 @@
 import { Request, Response } from 'express';
 import { elevenlabsService } from '../services/elevenlabsService';
 import { supabaseService } from '../services/supabaseService';
+import { repository, CALL_COLUMNS, CALL_STATUSES } from '../repositories';
+import { voiceProvider } from '../providers';
+import { dialerService, DialError } from '../services/dialerService';
+import { callOutcomeService } from '../services/callOutcomeService';
+import { callingHoursService, isValidTimezone } from '../services/callingHoursService';
+import { doNotCallService, DoNotCallError } from '../services/doNotCallService';
+import { callQueueService } from '../services/callQueueService';
+import { surveyService } from '../services/surveyService';
+import { DEFAULT_SURVEY_ID } from '../services/defaultSurvey';
+import { toE164 } from '../utils/phoneNumber';
+import { ListQueryError, parsePageRequest, parseListParam, parseDateRange, parseSearchParam, pageResponse } from '../utils/pagination';
 
 export class CallController {
-  // Test call endpoint for integration testing
+  // Test call endpoint for integration testing. Calling hours apply as for customers;
+  // ignoreCallingHours: true dials anyway, e.g. to test your own phone out of hours
   async testCall(req: Request, res: Response) {
     try {
-      const { firstName, phoneNumber } = req.body;
+      const { firstName, phoneNumber, surveyId, timezone, ignoreCallingHours } = req.body;
 
       if (!firstName || !phoneNumber) {
         return res.status(400).json({
@@ -14,30 +26,66 @@ export class CallController {
         });
       }
 
-      // Validate phone number format
-      const phoneRegex = /^[\+]?[1-9][\d]{0,15}$/;
-      if (!phoneRegex.test(phoneNumber.replace(/\s/g, ''))) {
+      const survey = await surveyService.getSurvey(surveyId || DEFAULT_SURVEY_ID);
+      if (!survey) {
+        return res.status(400).json({
+          error: `Survey ${surveyId} not found`
+        });
+      }
+      const surveyVersion = await surveyService.ensureCurrentVersion(survey);
+
+      const to = toE164(phoneNumber);
+      if (!to) {
         return res.status(400).json({
           error: 'Invalid phone number format'
         });
       }
 
-      // Initiate ElevenLabs call first to get conversation ID
-      console.log('📞 Initiating ElevenLabs call...');
-      const conversationId = await elevenlabsService.initiateCall({
-        to: phoneNumber,
+      if (timezone !== undefined && !isValidTimezone(timezone)) {
+        return res.status(400).json({
+          error: 'Invalid timezone'
+        });
+      }
+
+      if (await doNotCallService.getEntry(to)) {
+        return res.status(409).json({
+          error: 'Phone number is on the do-not-call list'
+        });
+      }
+
+      if (ignoreCallingHours !== true) {
+        const permittedAt = callingHoursService.getNextPermittedTime({ phone_number: to, timezone: timezone || null });
+        if (!permittedAt || permittedAt.getTime() > Date.now()) {
+          return res.status(409).json({
+            error: 'Outside calling hours for this phone number; pass ignoreCallingHours: true to call anyway',
+            nextPermittedAt: permittedAt?.toISOString() || null
+          });
+        }
+      } else {
+        console.warn(`testCall: calling hours ignored for ${to}`);
+      }
+
+      // Initiate the call first to get conversation ID
+      console.log(`📞 Initiating ${voiceProvider.name} call...`);
+      const conversationId = await voiceProvider.initiateCall({
+        to,
         firstName: firstName,
         callSid: '', // Will be created in database
+        prompt: surveyService.buildPrompt(survey),
+        firstMessage: survey.greeting,
+        survey,
       });
       
-      console.log('✅ ElevenLabs call initiated, conversation ID:', conversationId);
+      console.log('✅ Call initiated, conversation ID:', conversationId);
 
       // Create call record in database with conversation ID
       console.log('💾 Creating call record in Supabase...');
-      const call = await supabaseService.createCall({
+      const call = await repository.createCall({
         customer_first_name: firstName,
-        customer_phone: phoneNumber,
+        customer_phone: to,
         call_sid: conversationId,
+        survey_id: survey.id,
+        survey_version_id: surveyVersion.id,
         call_status: 'queued',
       });
       
@@ -60,56 +108,83 @@ export class CallController {
     }
   }
 
-  // Start a single call
+  // Start a single call to a customer's stored phone number
   async startCall(req: Request, res: Response) {
     try {
-      const { customerId, phoneNumber, firstName } = req.body;
+      const { customerId, phoneNumber } = req.body;
 
-      if (!customerId || !phoneNumber || !firstName) {
+      if (!customerId) {
         return res.status(400).json({
-          error: 'customerId, phoneNumber, and firstName are required'
+          error: 'customerId is required'
         });
       }
 
       // Verify customer exists
-      const customer = await supabaseService.getCustomerById(customerId);
+      const customer = await repository.getCustomerById(customerId);
       if (!customer) {
         return res.status(404).json({
           error: 'Customer not found'
         });
       }
 
-      // Initiate ElevenLabs call first to get conversation ID
-      console.log('📞 Initiating ElevenLabs call...');
-      const conversationId = await elevenlabsService.initiateCall({
-        to: phoneNumber,
-        firstName: firstName,
-        callSid: '', // Will be set in database
-      });
+      // The number dialled is always the stored one, which calling hours and do-not-call checks are made against;
+      // a phoneNumber in the body must match it
+      if (phoneNumber !== undefined && toE164(phoneNumber) !== toE164(customer.phone_number)) {
+        return res.status(400).json({
+          error: 'phoneNumber does not match the customer\'s stored phone number; update the customer first'
+        });
+      }
 
-      console.log('✅ ElevenLabs call initiated, conversation ID:', conversationId);
+      const campaign = customer.campaign_id
+        ? await supabaseService.getCampaignById(customer.campaign_id)
+        : null;
 
-      // Create call record with conversation ID immediately
-      console.log('💾 Creating call record in Supabase...');
-      const call = await supabaseService.createCall({
-        customer_first_name: firstName,
-        customer_phone: phoneNumber,
-        call_sid: conversationId,
-        customer_id: customerId,
-        campaign_id: customer.campaign_id,
-        call_status: 'queued',
-      });
+      // Outside the customer's calling hours: queue the call for the next permitted time
+      const permittedAt = callingHoursService.getNextPermittedTime(customer, campaign);
+      if (!permittedAt) {
+        return res.status(409).json({
+          error: 'No permitted calling time for this customer in the next 14 days'
+        });
+      }
+      if (permittedAt.getTime() > Date.now()) {
+        const [queued] = await supabaseService.enqueueCalls([{
+          customer_id: customer.id,
+          campaign_id: campaign?.id || null,
+          scheduled_for: permittedAt.toISOString(),
+        }]);
+        console.log(`🕘 Call to customer ${customer.id} deferred to ${permittedAt.toISOString()}`);
+
+        return res.status(202).json({
+          success: true,
+          deferred: true,
+          queueItemId: queued.id,
+          scheduledFor: queued.scheduled_for,
+          status: 'deferred'
+        });
+      }
 
-      console.log('✅ Call record created with ID:', call.id);
+      console.log(`📞 Initiating ${voiceProvider.name} call...`);
+      const result = await dialerService.dialCustomer(customer, campaign);
+
+      console.log('✅ Call record created with ID:', result.callId);
 
       res.json({
         success: true,
-        callId: call.id,
-        callSid: conversationId,
-        status: 'queued'
+        callId: result.callId,
+        callSid: result.callSid,
+        status: result.status
       });
 
     } catch (error) {
+      if (error instanceof DoNotCallError) {
+        return res.status(409).json({
+          error: 'Phone number is on the do-not-call list'
+        });
+      }
+      if (error instanceof DialError) {
+        await callOutcomeService.handleCallOutcome(error.call)
+          .catch(outcomeError => console.error('Call outcome error:', outcomeError));
+      }
       console.error('Start call error:', error);
       res.status(500).json({
         error: 'Failed to start call',
@@ -118,10 +193,10 @@ export class CallController {
     }
   }
 
-  // Start batch calling campaign
+  // Queue a batch of calls; the queue worker dials them in the background, each within its customer's campaign
   async startBatchCalls(req: Request, res: Response) {
     try {
-      const { customerIds, maxConcurrent = 5 } = req.body;
+      const { customerIds } = req.body;
 
       if (!customerIds || !Array.isArray(customerIds) || customerIds.length === 0) {
         return res.status(400).json({
@@ -129,69 +204,33 @@ export class CallController {
         });
       }
 
-      const results = [];
-      const errors = [];
-
-      // Process calls in batches to respect rate limits
-      for (let i = 0; i < customerIds.length; i += maxConcurrent) {
-        const batch = customerIds.slice(i, i + maxConcurrent);
-
-        const batchPromises = batch.map(async (customerId: string) => {
-          try {
-            const customer = await supabaseService.getCustomerById(customerId);
-            if (!customer) {
-              throw new Error(`Customer ${customerId} not found`);
-            }
-
-            // Initiate ElevenLabs call first to get conversation ID
-            const conversationId = await elevenlabsService.initiateCall({
-              to: customer.phone_number,
-              firstName: customer.first_name,
-              callSid: '', // Will be set in database
-            });
-
-            // Create call record with conversation ID immediately
-            const call = await supabaseService.createCall({
-              customer_first_name: customer.first_name,
-              customer_phone: customer.phone_number,
-              call_sid: conversationId,
-              customer_id: customerId,
-              campaign_id: customer.campaign_id,
-              call_status: 'queued',
-            });
-
-            return {
-              customerId,
-              callId: call.id,
-              callSid: conversationId,
-              status: 'queued'
-            };
-          } catch (error) {
-            return {
-              customerId,
-              error: error instanceof Error ? error.message : 'Unknown error'
-            };
-          }
-        });
+      // Concurrency is now governed globally by the queue worker
+      if (req.body.maxConcurrent !== undefined) {
+        console.warn('startBatchCalls: maxConcurrent is ignored, use CALL_QUEUE_CONCURRENCY instead');
+      }
 
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
+      const uniqueIds: string[] = Array.from(new Set(customerIds));
+      const customers = await repository.getCustomersByIds(uniqueIds);
+      const foundIds = new Set(customers.map(c => c.id));
+      const rejected = uniqueIds
+        .filter(id => !foundIds.has(id))
+        .map(customerId => ({ customerId, error: `Customer ${customerId} not found` }));
 
-        // Add delay between batches to respect rate limits
-        if (i + maxConcurrent < customerIds.length) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
+      if (customers.length === 0) {
+        return res.status(400).json({
+          error: 'No valid customers found',
+          details: rejected
+        });
       }
 
-      const successful = results.filter(r => !r.error).length;
-      const failed = results.filter(r => r.error).length;
+      const job = await callQueueService.enqueueJob(customers);
 
-      res.json({
+      res.status(202).json({
         success: true,
-        total: customerIds.length,
-        successful,
-        failed,
-        results
+        jobId: job.id,
+        status: job.status,
+        total: job.total,
+        rejected
       });
 
     } catch (error) {
@@ -203,19 +242,41 @@ export class CallController {
     }
   }
 
+  // Get progress of a batch job (?includeItems=true for per-customer results)
+  async getBatchJob(req: Request, res: Response) {
+    try {
+      const includeItems = req.query.includeItems === 'true';
+      const progress = await callQueueService.getJobProgress(req.params.jobId, includeItems);
+
+      if (!progress) {
+        return res.status(404).json({
+          error: 'Batch job not found'
+        });
+      }
+
+      res.json(progress);
+    } catch (error) {
+      console.error('Get batch job error:', error);
+      res.status(500).json({
+        error: 'Failed to get batch job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   // Get call details
   async getCall(req: Request, res: Response) {
     try {
       const { callId } = req.params;
 
-      const call = await supabaseService.getCallById(callId);
+      const call = await repository.getCallById(callId);
       if (!call) {
         return res.status(404).json({
           error: 'Call not found'
         });
       }
 
-      const responses = await supabaseService.getResponsesByCallId(callId);
+      const responses = await repository.getResponsesByCallId(callId);
 
       res.json({
         call,
@@ -267,12 +328,23 @@ export class CallController {
     }
   }
 
-  // Get all calls
+  // List calls a page at a time, filtered by campaign, customer, status, date and customer name/phone
   async getCalls(req: Request, res: Response) {
     try {
-      const calls = await supabaseService.getCalls();
-      res.json(calls);
+      const pageRequest = parsePageRequest(req, CALL_COLUMNS, '-created_at');
+      const page = await repository.listCalls({
+        campaignId: req.query.campaignId as string | undefined,
+        customerId: req.query.customerId as string | undefined,
+        statuses: parseListParam(req, 'status', CALL_STATUSES),
+        ...parseDateRange(req),
+        search: parseSearchParam(req),
+      }, pageRequest);
+
+      res.json(pageResponse(req, page, pageRequest, page.rows));
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Get calls error:', error);
       res.status(500).json({
         error: 'Failed to get calls',
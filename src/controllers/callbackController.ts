@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import { Callback } from '../services/supabaseService';
+import { repository, CALLBACK_STATUSES } from '../repositories';
+import { callbackService } from '../services/callbackService';
+import { parseCallbackTime } from '../services/callbackTimeParser';
+
+export class CallbackController {
+  // List callbacks, optionally filtered by status, campaign or customer
+  async getCallbacks(req: Request, res: Response) {
+    try {
+      const { status, campaignId, customerId } = req.query;
+
+      if (status && !CALLBACK_STATUSES.includes(status as Callback['status'])) {
+        return res.status(400).json({
+          error: `status must be one of: ${CALLBACK_STATUSES.join(', ')}`
+        });
+      }
+
+      const callbacks = await repository.getCallbacks({
+        status: status as Callback['status'] | undefined,
+        campaignId: campaignId as string | undefined,
+        customerId: customerId as string | undefined,
+      });
+      res.json(callbacks);
+    } catch (error) {
+      console.error('Get callbacks error:', error);
+      res.status(500).json({
+        error: 'Failed to get callbacks',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async getCallback(req: Request, res: Response) {
+    try {
+      const callback = await repository.getCallbackById(req.params.callbackId);
+      if (!callback) {
+        return res.status(404).json({
+          error: 'Callback not found'
+        });
+      }
+
+      res.json(callback);
+    } catch (error) {
+      console.error('Get callback error:', error);
+      res.status(500).json({
+        error: 'Failed to get callback',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Reschedule a pending callback, either to an ISO time or a spoken one ("tomorrow at 3")
+  async updateCallback(req: Request, res: Response) {
+    try {
+      const { scheduledFor, when, notes } = req.body;
+
+      const callback = await repository.getCallbackById(req.params.callbackId);
+      if (!callback) {
+        return res.status(404).json({
+          error: 'Callback not found'
+        });
+      }
+      if (callback.status !== 'pending') {
+        return res.status(409).json({
+          error: `Cannot update a callback that is ${callback.status}`
+        });
+      }
+
+      let newTime: Date | null = null;
+      if (scheduledFor !== undefined) {
+        newTime = new Date(scheduledFor);
+        if (isNaN(newTime.getTime())) {
+          return res.status(400).json({
+            error: 'scheduledFor must be an ISO date-time'
+          });
+        }
+      } else if (when !== undefined) {
+        const parsed = typeof when === 'string'
+          ? parseCallbackTime(when, new Date(), callback.timezone)
+          : null;
+        if (!parsed) {
+          return res.status(400).json({
+            error: `Could not understand callback time "${when}"`
+          });
+        }
+        newTime = parsed.scheduledFor;
+      }
+
+      if (!newTime && notes === undefined) {
+        return res.status(400).json({
+          error: 'Provide scheduledFor, when or notes'
+        });
+      }
+
+      const updated = newTime
+        ? await callbackService.reschedule(callback, newTime, notes)
+        : await repository.updateCallback(callback.id, { notes });
+
+      res.json({
+        success: true,
+        callback: updated
+      });
+    } catch (error) {
+      console.error('Update callback error:', error);
+      res.status(500).json({
+        error: 'Failed to update callback',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async cancelCallback(req: Request, res: Response) {
+    try {
+      const callback = await repository.getCallbackById(req.params.callbackId);
+      if (!callback) {
+        return res.status(404).json({
+          error: 'Callback not found'
+        });
+      }
+      if (callback.status !== 'pending') {
+        return res.status(409).json({
+          error: `Cannot cancel a callback that is ${callback.status}`
+        });
+      }
+
+      const updated = await callbackService.cancel(callback);
+      res.json({
+        success: true,
+        callback: updated
+      });
+    } catch (error) {
+      console.error('Cancel callback error:', error);
+      res.status(500).json({
+        error: 'Failed to cancel callback',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export const callbackController = new CallbackController();
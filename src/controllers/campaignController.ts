@@ -0,0 +1,362 @@
+import { Request, Response } from 'express';
+import { supabaseService, Campaign, SurveyCall } from '../services/supabaseService';
+import { repository } from '../repositories';
+import { campaignService, CampaignAction, CampaignTransitionError } from '../services/campaignService';
+import { DEFAULT_CALLING_WINDOW, isValidTimeOfDay } from '../services/callingHoursService';
+import { surveyService } from '../services/surveyService';
+import { DEFAULT_SURVEY_ID } from '../services/defaultSurvey';
+
+const RETRYABLE_STATUSES: SurveyCall['call_status'][] = ['failed', 'no-answer'];
+
+type RetryPolicy = Pick<Campaign, 'max_attempts' | 'retry_backoff_minutes' | 'retry_backoff_multiplier' | 'retryable_statuses'>;
+
+// Read retry policy fields from a request body; only fields present in the body are returned
+function parseRetryPolicy(body: any): { policy: Partial<RetryPolicy>; error?: string } {
+  const { maxAttempts, retryBackoffMinutes, retryBackoffMultiplier, retryableStatuses } = body;
+  const policy: Partial<RetryPolicy> = {};
+
+  if (maxAttempts !== undefined) {
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      return { policy, error: 'maxAttempts must be a positive integer' };
+    }
+    policy.max_attempts = maxAttempts;
+  }
+
+  if (retryBackoffMinutes !== undefined) {
+    if (typeof retryBackoffMinutes !== 'number' || retryBackoffMinutes < 0) {
+      return { policy, error: 'retryBackoffMinutes must be a non-negative number' };
+    }
+    policy.retry_backoff_minutes = retryBackoffMinutes;
+  }
+
+  if (retryBackoffMultiplier !== undefined) {
+    if (typeof retryBackoffMultiplier !== 'number' || retryBackoffMultiplier < 1) {
+      return { policy, error: 'retryBackoffMultiplier must be a number of at least 1' };
+    }
+    policy.retry_backoff_multiplier = retryBackoffMultiplier;
+  }
+
+  if (retryableStatuses !== undefined) {
+    if (!Array.isArray(retryableStatuses) || retryableStatuses.some(s => !RETRYABLE_STATUSES.includes(s))) {
+      return { policy, error: `retryableStatuses may only contain: ${RETRYABLE_STATUSES.join(', ')}` };
+    }
+    policy.retryable_statuses = retryableStatuses;
+  }
+
+  return { policy };
+}
+
+type CallingWindowFields = Pick<Campaign, 'calling_days' | 'calling_start_time' | 'calling_end_time' | 'exclude_public_holidays'>;
+
+// Read calling window fields from a request body; only fields present in the body are returned
+function parseCallingWindow(body: any): { window: Partial<CallingWindowFields>; error?: string } {
+  const { callingDays, callingStartTime, callingEndTime, excludePublicHolidays } = body;
+  const window: Partial<CallingWindowFields> = {};
+
+  if (callingDays !== undefined) {
+    if (!Array.isArray(callingDays) || callingDays.some(d => !Number.isInteger(d) || d < 1 || d > 7)) {
+      return { window, error: 'callingDays must be an array of ISO weekdays (1 = Monday ... 7 = Sunday)' };
+    }
+    window.calling_days = Array.from(new Set<number>(callingDays)).sort((a, b) => a - b);
+  }
+
+  if (callingStartTime !== undefined) {
+    if (!isValidTimeOfDay(callingStartTime)) {
+      return { window, error: 'callingStartTime must be HH:MM' };
+    }
+    window.calling_start_time = callingStartTime;
+  }
+
+  if (callingEndTime !== undefined) {
+    if (!isValidTimeOfDay(callingEndTime)) {
+      return { window, error: 'callingEndTime must be HH:MM' };
+    }
+    window.calling_end_time = callingEndTime;
+  }
+
+  if (excludePublicHolidays !== undefined) {
+    window.exclude_public_holidays = Boolean(excludePublicHolidays);
+  }
+
+  return { window };
+}
+
+// Shared handler for the lifecycle action routes
+function lifecycleAction(action: CampaignAction) {
+  return async (req: Request, res: Response) => {
+    try {
+      const campaign = await supabaseService.getCampaignById(req.params.campaignId);
+      if (!campaign) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      const updated = await campaignService.applyAction(campaign, action);
+      res.json({
+        success: true,
+        campaign: updated
+      });
+    } catch (error) {
+      if (error instanceof CampaignTransitionError) {
+        return res.status(409).json({
+          error: error.message
+        });
+      }
+      console.error(`Campaign ${action} error:`, error);
+      res.status(500).json({
+        error: `Failed to ${action} campaign`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+}
+
+export class CampaignController {
+  // Create a campaign
+  async createCampaign(req: Request, res: Response) {
+    try {
+      const { name, description, surveyId, callerPhoneNumberId, scheduledStartAt } = req.body;
+
+      if (!name) {
+        return res.status(400).json({
+          error: 'name is required'
+        });
+      }
+
+      if (scheduledStartAt && isNaN(Date.parse(scheduledStartAt))) {
+        return res.status(400).json({
+          error: 'scheduledStartAt must be an ISO date'
+        });
+      }
+
+      const { policy, error: policyError } = parseRetryPolicy(req.body);
+      const { window, error: windowError } = parseCallingWindow(req.body);
+      if (policyError || windowError) {
+        return res.status(400).json({
+          error: policyError || windowError
+        });
+      }
+
+      if (surveyId && !await surveyService.getSurvey(surveyId)) {
+        return res.status(400).json({
+          error: `Survey ${surveyId} not found`
+        });
+      }
+
+      const campaign = await supabaseService.createCampaign({
+        name,
+        description,
+        survey_id: surveyId || DEFAULT_SURVEY_ID,
+        caller_phone_number_id: callerPhoneNumberId || null,
+        scheduled_start_at: scheduledStartAt || null,
+        status: scheduledStartAt ? 'scheduled' : 'draft',
+        max_attempts: 3,
+        retry_backoff_minutes: 60,
+        retry_backoff_multiplier: 2,
+        retryable_statuses: RETRYABLE_STATUSES,
+        calling_days: DEFAULT_CALLING_WINDOW.days,
+        calling_start_time: DEFAULT_CALLING_WINDOW.startTime,
+        calling_end_time: DEFAULT_CALLING_WINDOW.endTime,
+        exclude_public_holidays: DEFAULT_CALLING_WINDOW.excludePublicHolidays,
+        ...policy,
+        ...window,
+      });
+
+      res.json({
+        success: true,
+        campaign
+      });
+    } catch (error) {
+      console.error('Create campaign error:', error);
+      res.status(500).json({
+        error: 'Failed to create campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Get all campaigns
+  async getCampaigns(req: Request, res: Response) {
+    try {
+      const campaigns = await supabaseService.getCampaigns();
+      res.json(campaigns);
+    } catch (error) {
+      console.error('Get campaigns error:', error);
+      res.status(500).json({
+        error: 'Failed to get campaigns',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Get campaign details
+  async getCampaign(req: Request, res: Response) {
+    try {
+      const campaign = await supabaseService.getCampaignById(req.params.campaignId);
+      if (!campaign) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      res.json(campaign);
+    } catch (error) {
+      console.error('Get campaign error:', error);
+      res.status(500).json({
+        error: 'Failed to get campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Update campaign settings
+  async updateCampaign(req: Request, res: Response) {
+    try {
+      const campaign = await supabaseService.getCampaignById(req.params.campaignId);
+      if (!campaign) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+        return res.status(409).json({
+          error: `Cannot edit a campaign that is ${campaign.status}`
+        });
+      }
+
+      const { name, description, surveyId, callerPhoneNumberId, scheduledStartAt } = req.body;
+      const { policy, error: policyError } = parseRetryPolicy(req.body);
+      const { window, error: windowError } = parseCallingWindow(req.body);
+      if (policyError || windowError) {
+        return res.status(400).json({
+          error: policyError || windowError
+        });
+      }
+
+      const updates: Partial<Campaign> = { ...policy, ...window };
+
+      if (name !== undefined) updates.name = name;
+      if (description !== undefined) updates.description = description;
+      if (surveyId !== undefined) {
+        if (!await surveyService.getSurvey(surveyId)) {
+          return res.status(400).json({
+            error: `Survey ${surveyId} not found`
+          });
+        }
+        updates.survey_id = surveyId;
+      }
+      if (callerPhoneNumberId !== undefined) updates.caller_phone_number_id = callerPhoneNumberId || null;
+
+      if (scheduledStartAt !== undefined) {
+        if (campaign.status !== 'draft' && campaign.status !== 'scheduled') {
+          return res.status(409).json({
+            error: `Cannot reschedule a campaign that is ${campaign.status}`
+          });
+        }
+        if (scheduledStartAt && isNaN(Date.parse(scheduledStartAt))) {
+          return res.status(400).json({
+            error: 'scheduledStartAt must be an ISO date'
+          });
+        }
+        updates.scheduled_start_at = scheduledStartAt || null;
+        updates.status = scheduledStartAt ? 'scheduled' : 'draft';
+      }
+
+      const updated = await supabaseService.updateCampaign(campaign.id, updates);
+      res.json({
+        success: true,
+        campaign: updated
+      });
+    } catch (error) {
+      console.error('Update campaign error:', error);
+      res.status(500).json({
+        error: 'Failed to update campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Delete a campaign that is not currently dialing
+  async deleteCampaign(req: Request, res: Response) {
+    try {
+      const campaign = await supabaseService.getCampaignById(req.params.campaignId);
+      if (!campaign) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      if (campaign.status === 'running') {
+        return res.status(409).json({
+          error: 'Pause or cancel the campaign before deleting it'
+        });
+      }
+
+      await supabaseService.deleteCampaign(campaign.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete campaign error:', error);
+      res.status(500).json({
+        error: 'Failed to delete campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Get customers assigned to a campaign
+  async getCampaignCustomers(req: Request, res: Response) {
+    try {
+      const customers = await repository.getCustomersByCampaign(req.params.campaignId);
+      res.json(customers);
+    } catch (error) {
+      console.error('Get campaign customers error:', error);
+      res.status(500).json({
+        error: 'Failed to get campaign customers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Assign customers to a campaign
+  async assignCustomers(req: Request, res: Response) {
+    try {
+      const { customerIds } = req.body;
+
+      if (!customerIds || !Array.isArray(customerIds) || customerIds.length === 0) {
+        return res.status(400).json({
+          error: 'customerIds array is required'
+        });
+      }
+
+      const campaign = await supabaseService.getCampaignById(req.params.campaignId);
+      if (!campaign) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      const customers = await repository.assignCustomersToCampaign(customerIds, campaign.id);
+      res.json({
+        success: true,
+        assigned: customers.length,
+        customers
+      });
+    } catch (error) {
+      console.error('Assign campaign customers error:', error);
+      res.status(500).json({
+        error: 'Failed to assign customers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Lifecycle actions
+  startCampaign = lifecycleAction('start');
+  pauseCampaign = lifecycleAction('pause');
+  resumeCampaign = lifecycleAction('resume');
+  cancelCampaign = lifecycleAction('cancel');
+}
+
+export const campaignController = new CampaignController();
@@ -1,82 +1,238 @@
 import { Request, Response } from 'express';
-import { supabaseService } from '../services/supabaseService';
+import fs from 'fs';
+import { repository, CustomerUpdates, CUSTOMER_COLUMNS, CONTACT_STATUSES } from '../repositories';
+import { supabaseService, CustomerImport } from '../services/supabaseService';
+import { customerService, CustomerConflictError } from '../services/customerService';
+import {
+  customerImportService,
+  CustomerImportError,
+  ImportOptions,
+  ColumnMapping,
+  IMPORT_MODES,
+  ignoredColumns,
+} from '../services/customerImportService';
+import { customerImportJobService } from '../services/customerImportJobService';
+import { csvRow } from '../utils/csv';
+import { toE164 } from '../utils/phoneNumber';
+import { isValidTimezone, timezoneForState } from '../services/callingHoursService';
+import { ListQueryError, parsePageRequest, parseListParam, parseDateRange, parseSearchParam, pageResponse } from '../utils/pagination';
+
+const IMPORT_ERRORS_PAGE_SIZE = 1000;
+
+// Job as returned to clients: progress percentage, columns not imported and error download link, without the server file path
+function importResponse(job: CustomerImport) {
+  const { file_path, ...rest } = job;
+  return {
+    ...rest,
+    ignored_columns: ignoredColumns(job.headers, job.mapping as ColumnMapping | null),
+    progress: job.total_rows ? Math.round((job.processed_rows / job.total_rows) * 100) : job.status === 'completed' ? 100 : 0,
+    errorsUrl: `/api/customers/imports/${job.id}/errors`,
+  };
+}
+
+// Import options from the multipart form fields: mode, mapping (JSON object) and campaignId
+function parseImportOptions(req: Request): ImportOptions {
+  const { mode = 'insert', mapping, campaignId } = req.body || {};
+
+  if (!IMPORT_MODES.includes(mode)) {
+    throw new CustomerImportError(`mode must be one of: ${IMPORT_MODES.join(', ')}`);
+  }
+
+  let columnMapping: ColumnMapping | undefined;
+  if (mapping) {
+    try {
+      columnMapping = typeof mapping === 'string' ? JSON.parse(mapping) : mapping;
+    } catch {
+      throw new CustomerImportError('mapping must be a JSON object of CSV header to field');
+    }
+    if (!columnMapping || typeof columnMapping !== 'object' || Array.isArray(columnMapping)) {
+      throw new CustomerImportError('mapping must be a JSON object of CSV header to field');
+    }
+  }
+
+  return { mode, mapping: columnMapping, campaignId: campaignId || null };
+}
 
 export class CustomerController {
-  // Upload CSV with customer list
-  async uploadCustomers(req: Request, res: Response) {
+  // Queue an import of a CSV (multipart field `csv`) per the mode, column mapping and campaign; poll the returned job
+  async createImport(req: Request, res: Response) {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'CSV file is required'
+      });
+    }
+
+    const file = req.file;
     try {
-      if (!req.file) {
-        return res.status(400).json({
-          error: 'CSV file is required'
+      const options = parseImportOptions(req);
+      const { headers } = await customerImportService.checkFile(fs.createReadStream(file.path), options);
+
+      const job = await supabaseService.createCustomerImport({
+        file_name: file.originalname,
+        file_path: file.path,
+        mode: options.mode,
+        mapping: options.mapping || null,
+        campaign_id: options.campaignId || null,
+        headers,
+      });
+      customerImportJobService.notify();
+
+      res.status(202).json({
+        success: true,
+        import: importResponse(job)
+      });
+    } catch (error) {
+      fs.promises.unlink(file.path).catch(() => {});
+      if (error instanceof CustomerImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Create customer import error:', error);
+      res.status(500).json({
+        error: 'Failed to start customer import',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Dry run of an import: the column mapping and what would happen to each row
+  async previewUpload(req: Request, res: Response) {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'CSV file is required'
+      });
+    }
+
+    try {
+      const preview = await customerImportService.preview(fs.createReadStream(req.file.path), parseImportOptions(req));
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof CustomerImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Preview customer upload error:', error);
+      res.status(500).json({
+        error: 'Failed to preview customer upload',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      fs.promises.unlink(req.file.path).catch(() => {});
+    }
+  }
+
+  // Recent import jobs, newest first
+  async getImports(req: Request, res: Response) {
+    try {
+      const jobs = await supabaseService.getCustomerImports(50);
+      res.json(jobs.map(importResponse));
+    } catch (error) {
+      console.error('Get customer imports error:', error);
+      res.status(500).json({
+        error: 'Failed to get customer imports',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Progress and counts of one import job
+  async getImport(req: Request, res: Response) {
+    try {
+      const job = await supabaseService.getCustomerImportById(req.params.importId);
+      if (!job) {
+        return res.status(404).json({
+          error: 'Import not found'
         });
       }
 
-      const csvContent = req.file.buffer.toString('utf-8');
-      const customers = this.parseCSV(csvContent);
+      res.json(importResponse(job));
+    } catch (error) {
+      console.error('Get customer import error:', error);
+      res.status(500).json({
+        error: 'Failed to get customer import',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
 
-      if (customers.length === 0) {
-        return res.status(400).json({
-          error: 'No valid customers found in CSV'
+  // Download the rows that failed as CSV: row number, error, then the original columns
+  async getImportErrors(req: Request, res: Response) {
+    try {
+      const job = await supabaseService.getCustomerImportById(req.params.importId);
+      if (!job) {
+        return res.status(404).json({
+          error: 'Import not found'
         });
       }
 
-      // Validate customers
-      const validatedCustomers = this.validateCustomers(customers);
-      const errors = validatedCustomers.filter(c => c.error);
-      const validCustomers = validatedCustomers.filter(c => !c.error);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="import-${job.id}-errors.csv"`);
+      res.write(csvRow(['row', 'error', ...job.headers]));
 
-      if (validCustomers.length === 0) {
-        return res.status(400).json({
-          error: 'No valid customers found',
-          details: errors
+      for (let offset = 0; ; offset += IMPORT_ERRORS_PAGE_SIZE) {
+        const errors = await supabaseService.getCustomerImportErrors(job.id, offset, IMPORT_ERRORS_PAGE_SIZE);
+        errors.forEach(error => {
+          res.write(csvRow([error.row_number, error.error, ...job.headers.map(header => error.row_values[header])]));
         });
+        if (errors.length < IMPORT_ERRORS_PAGE_SIZE) break;
+      }
+      res.end();
+    } catch (error) {
+      console.error('Get customer import errors error:', error);
+      if (res.headersSent) {
+        return res.end();
       }
+      res.status(500).json({
+        error: 'Failed to get customer import errors',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
 
-      // Insert customers into database
-      const insertedCustomers = [];
-      for (const customer of validCustomers) {
-        try {
-          const inserted = await supabaseService.createCustomer({
-            first_name: customer.first_name,
-            last_name: customer.last_name,
-            phone_number: customer.phone_number,
-            company_name: customer.company_name,
-            campaign_id: customer.campaign_id,
-          });
-          insertedCustomers.push(inserted);
-        } catch (error) {
-          console.error('Error inserting customer:', error);
-          errors.push({
-            ...customer,
-            error: error instanceof Error ? error.message : 'Database error'
-          });
-        }
+  // Stop an import; rows already imported are kept
+  async cancelImport(req: Request, res: Response) {
+    try {
+      const job = await supabaseService.getCustomerImportById(req.params.importId);
+      if (!job) {
+        return res.status(404).json({
+          error: 'Import not found'
+        });
+      }
+
+      const cancelled = await customerImportJobService.cancel(job);
+      if (!cancelled) {
+        return res.status(409).json({
+          error: `Cannot cancel an import that is ${job.status}`
+        });
       }
 
       res.json({
         success: true,
-        total: customers.length,
-        inserted: insertedCustomers.length,
-        errors: errors.length,
-        customers: insertedCustomers,
-        errorDetails: errors
+        import: importResponse(cancelled)
       });
-
     } catch (error) {
-      console.error('Upload customers error:', error);
+      console.error('Cancel customer import error:', error);
       res.status(500).json({
-        error: 'Failed to upload customers',
+        error: 'Failed to cancel customer import',
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
 
-  // Get all customers
+  // List customers a page at a time, filtered by campaign, contact status, upload date and name/company/phone
   async getCustomers(req: Request, res: Response) {
     try {
-      const customers = await supabaseService.getCustomers();
-      res.json(customers);
+      const pageRequest = parsePageRequest(req, CUSTOMER_COLUMNS, '-uploaded_at');
+      const page = await repository.listCustomers({
+        campaignId: req.query.campaignId as string | undefined,
+        statuses: parseListParam(req, 'status', CONTACT_STATUSES),
+        ...parseDateRange(req),
+        search: parseSearchParam(req),
+      }, pageRequest);
+
+      res.json(pageResponse(req, page, pageRequest, page.rows));
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Get customers error:', error);
       res.status(500).json({
         error: 'Failed to get customers',
@@ -88,7 +244,7 @@ export class CustomerController {
   // Create a single customer
   async createCustomer(req: Request, res: Response) {
     try {
-      const { firstName, lastName, phoneNumber, companyName } = req.body;
+      const { firstName, lastName, phoneNumber, companyName, timezone, state } = req.body;
 
       // Validate required fields
       if (!firstName || !phoneNumber) {
@@ -97,20 +253,29 @@ export class CustomerController {
         });
       }
 
-      // Validate phone number
-      const phoneRegex = /^[\+]?[1-9][\d]{0,15}$/;
-      if (!phoneRegex.test(phoneNumber.replace(/\s/g, ''))) {
+      // Stored in E.164 so lookups and duplicate checks see one form
+      const e164 = toE164(phoneNumber);
+      if (!e164) {
         return res.status(400).json({
           error: 'Invalid phone number format'
         });
       }
 
+      // Explicit zone wins; otherwise derive it from the state, or later from the phone number
+      const customerTimezone = timezone || timezoneForState(state);
+      if (customerTimezone && !isValidTimezone(customerTimezone)) {
+        return res.status(400).json({
+          error: 'Invalid timezone'
+        });
+      }
+
       // Create customer in database
-      const customer = await supabaseService.createCustomer({
+      const customer = await customerService.createCustomer({
         first_name: firstName,
         last_name: lastName || '',
-        phone_number: phoneNumber,
+        phone_number: e164,
         company_name: companyName || '',
+        timezone: customerTimezone || null,
       });
 
       res.json({
@@ -118,6 +283,11 @@ export class CustomerController {
         customer: customer
       });
     } catch (error) {
+      if (error instanceof CustomerConflictError) {
+        return res.status(409).json({
+          error: error.message
+        });
+      }
       console.error('Create customer error:', error);
       res.status(500).json({
         error: 'Failed to create customer',
@@ -126,86 +296,247 @@ export class CustomerController {
     }
   }
 
-  // Parse CSV content
-  private parseCSV(csvContent: string): any[] {
-    const lines = csvContent.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return [];
+  // Get one customer with their call history
+  async getCustomer(req: Request, res: Response) {
+    try {
+      const customer = await repository.getCustomerById(req.params.customerId);
+      if (!customer) {
+        return res.status(404).json({
+          error: 'Customer not found'
+        });
+      }
 
-    // Parse headers
-    const headers = this.parseCSVLine(lines[0]).map(h => h.trim().toLowerCase());
-    const customers = [];
+      const calls = await repository.listCalls(
+        { customerId: customer.id },
+        { limit: 100, offset: 0, sort: 'created_at', ascending: false }
+      );
 
-    for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i]);
-      if (values.length !== headers.length) {
-        console.warn(`Row ${i + 1} has ${values.length} columns, expected ${headers.length}. Skipping.`);
-        continue;
+      res.json({
+        customer,
+        calls: calls.rows,
+        totalCalls: calls.total
+      });
+    } catch (error) {
+      console.error('Get customer error:', error);
+      res.status(500).json({
+        error: 'Failed to get customer',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Update a customer's details, campaign or contact status
+  async updateCustomer(req: Request, res: Response) {
+    try {
+      const customer = await repository.getCustomerById(req.params.customerId);
+      if (!customer) {
+        return res.status(404).json({
+          error: 'Customer not found'
+        });
+      }
+
+      const { firstName, lastName, phoneNumber, companyName, timezone, state, campaignId, contactStatus } = req.body;
+      const updates: CustomerUpdates = {};
+
+      if (firstName !== undefined) {
+        if (!firstName) {
+          return res.status(400).json({
+            error: 'First name cannot be empty'
+          });
+        }
+        updates.first_name = firstName;
+      }
+      if (lastName !== undefined) updates.last_name = lastName || '';
+      if (companyName !== undefined) updates.company_name = companyName || '';
+
+      if (phoneNumber !== undefined) {
+        const e164 = phoneNumber ? toE164(phoneNumber) : null;
+        if (!e164) {
+          return res.status(400).json({
+            error: 'Invalid phone number format'
+          });
+        }
+        updates.phone_number = e164;
+      }
+
+      if (timezone !== undefined || state !== undefined) {
+        // Explicit zone wins; clearing both falls back to the phone number
+        const customerTimezone = timezone || timezoneForState(state);
+        if (customerTimezone && !isValidTimezone(customerTimezone)) {
+          return res.status(400).json({
+            error: 'Invalid timezone'
+          });
+        }
+        updates.timezone = customerTimezone || null;
+      }
+
+      if (campaignId !== undefined) {
+        if (campaignId && !await supabaseService.getCampaignById(campaignId)) {
+          return res.status(400).json({
+            error: `Campaign ${campaignId} not found`
+          });
+        }
+        updates.campaign_id = campaignId || null;
       }
 
-      const customer: any = {};
-      headers.forEach((header, index) => {
-        customer[header] = values[index].trim();
+      if (contactStatus !== undefined) {
+        if (!CONTACT_STATUSES.includes(contactStatus)) {
+          return res.status(400).json({
+            error: `contactStatus must be one of: ${CONTACT_STATUSES.join(', ')}`
+          });
+        }
+        updates.contact_status = contactStatus;
+      }
+
+      const updated = await customerService.updateCustomer(customer, updates);
+      res.json({
+        success: true,
+        customer: updated
+      });
+    } catch (error) {
+      if (error instanceof CustomerConflictError) {
+        return res.status(409).json({
+          error: error.message
+        });
+      }
+      console.error('Update customer error:', error);
+      res.status(500).json({
+        error: 'Failed to update customer',
+        details: error instanceof Error ? error.message : 'Unknown error'
       });
-      customers.push(customer);
     }
+  }
 
-    return customers;
+  // Delete a customer; their past calls stay in reports
+  async deleteCustomer(req: Request, res: Response) {
+    try {
+      const customer = await repository.getCustomerById(req.params.customerId);
+      if (!customer) {
+        return res.status(404).json({
+          error: 'Customer not found'
+        });
+      }
+
+      await customerService.deleteCustomer(customer);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof CustomerConflictError) {
+        return res.status(409).json({
+          error: error.message
+        });
+      }
+      console.error('Delete customer error:', error);
+      res.status(500).json({
+        error: 'Failed to delete customer',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   }
 
-  // Parse CSV line handling quoted fields
-  private parseCSVLine(line: string): string[] {
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
+  // Move customers to another campaign, or out of any campaign with campaignId: null
+  async reassignCampaign(req: Request, res: Response) {
+    try {
+      const { customerIds, campaignId } = req.body;
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        values.push(current);
-        current = '';
-      } else {
-        current += char;
+      if (!customerIds || !Array.isArray(customerIds) || customerIds.length === 0) {
+        return res.status(400).json({
+          error: 'customerIds array is required'
+        });
+      }
+      if (campaignId === undefined) {
+        return res.status(400).json({
+          error: 'campaignId is required (null to remove customers from their campaign)'
+        });
+      }
+
+      if (campaignId && !await supabaseService.getCampaignById(campaignId)) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
       }
+
+      const customers = await repository.assignCustomersToCampaign(customerIds, campaignId || null);
+      res.json({
+        success: true,
+        assigned: customers.length,
+        customers
+      });
+    } catch (error) {
+      console.error('Reassign customers error:', error);
+      res.status(500).json({
+        error: 'Failed to reassign customers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Groups of customers with the same phone number written differently
+  async getDuplicates(req: Request, res: Response) {
+    try {
+      const groups = await customerService.findDuplicates();
+      res.json({
+        total: groups.length,
+        groups
+      });
+    } catch (error) {
+      console.error('Find duplicate customers error:', error);
+      res.status(500).json({
+        error: 'Failed to find duplicate customers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
-    
-    values.push(current);
-    return values;
   }
 
-  // Validate customer data
-  private validateCustomers(customers: any[]): any[] {
-    return customers.map(customer => {
-      const errors = [];
+  // Merge duplicates into the customer in the URL, which keeps its id and phone number
+  async mergeCustomers(req: Request, res: Response) {
+    try {
+      const { duplicateIds } = req.body;
 
-      // Required fields
-      if (!customer.first_name || !customer.firstname) {
-        errors.push('First name is required');
+      if (!duplicateIds || !Array.isArray(duplicateIds) || duplicateIds.length === 0) {
+        return res.status(400).json({
+          error: 'duplicateIds array is required'
+        });
       }
-      if (!customer.phone || !customer.phone_number) {
-        errors.push('Phone number is required');
+
+      const survivor = await repository.getCustomerById(req.params.customerId);
+      if (!survivor) {
+        return res.status(404).json({
+          error: 'Customer not found'
+        });
       }
 
-      // Phone number validation
-      const phoneNumber = customer.phone || customer.phone_number;
-      if (phoneNumber) {
-        const phoneRegex = /^[\+]?[1-9][\d]{0,15}$/;
-        if (!phoneRegex.test(phoneNumber.replace(/\s/g, ''))) {
-          errors.push('Invalid phone number format');
-        }
+      const ids: string[] = Array.from(new Set(duplicateIds));
+      if (ids.includes(survivor.id)) {
+        return res.status(400).json({
+          error: 'A customer cannot be merged into itself'
+        });
       }
 
-      return {
-        first_name: customer.first_name || customer.firstname,
-        last_name: customer.last_name || customer.lastname,
-        phone_number: customer.phone || customer.phone_number,
-        company_name: customer.company || customer.company_name,
-        campaign_id: customer.campaign_id,
-        error: errors.length > 0 ? errors.join(', ') : null
-      };
-    });
+      const duplicates = await repository.getCustomersByIds(ids);
+      const missing = ids.filter(id => !duplicates.some(duplicate => duplicate.id === id));
+      if (missing.length > 0) {
+        return res.status(404).json({
+          error: `Customers not found: ${missing.join(', ')}`
+        });
+      }
+
+      const result = await customerService.mergeCustomers(survivor, duplicates);
+      res.json({
+        success: true,
+        ...result
+      });
+    } catch (error) {
+      if (error instanceof CustomerConflictError) {
+        return res.status(409).json({
+          error: error.message
+        });
+      }
+      console.error('Merge customers error:', error);
+      res.status(500).json({
+        error: 'Failed to merge customers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   }
 }
 
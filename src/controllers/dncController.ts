@@ -0,0 +1,158 @@
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import { repository } from '../repositories';
+import { doNotCallService } from '../services/doNotCallService';
+import { phoneNumberKey, toE164 } from '../utils/phoneNumber';
+
+export class DncController {
+  // Get the full do-not-call list
+  async getEntries(req: Request, res: Response) {
+    try {
+      const entries = await repository.getDoNotCallEntries();
+      res.json(entries);
+    } catch (error) {
+      console.error('Get do-not-call list error:', error);
+      res.status(500).json({
+        error: 'Failed to get do-not-call list',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Check whether a number is listed
+  async checkNumber(req: Request, res: Response) {
+    try {
+      const entry = await doNotCallService.getEntry(req.params.phoneNumber);
+      res.json({
+        phoneNumber: phoneNumberKey(req.params.phoneNumber),
+        listed: !!entry,
+        entry
+      });
+    } catch (error) {
+      console.error('Check do-not-call error:', error);
+      res.status(500).json({
+        error: 'Failed to check do-not-call list',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Add a single number
+  async addEntry(req: Request, res: Response) {
+    try {
+      const { phoneNumber, reason } = req.body;
+
+      if (!phoneNumber) {
+        return res.status(400).json({
+          error: 'phoneNumber is required'
+        });
+      }
+
+      const e164 = toE164(phoneNumber);
+      if (!e164) {
+        return res.status(400).json({
+          error: 'Invalid phone number'
+        });
+      }
+
+      const entry = await doNotCallService.add(e164, { reason, source: 'manual' });
+      res.json({
+        success: true,
+        entry
+      });
+    } catch (error) {
+      console.error('Add do-not-call error:', error);
+      res.status(500).json({
+        error: 'Failed to add number to do-not-call list',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Remove a number from the list
+  async deleteEntry(req: Request, res: Response) {
+    try {
+      const deleted = await repository.deleteDoNotCallEntry(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Do-not-call entry not found'
+        });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete do-not-call error:', error);
+      res.status(500).json({
+        error: 'Failed to delete do-not-call entry',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Bulk import from a CSV with a phone/phone_number/number column and optional reason column
+  async importEntries(req: Request, res: Response) {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          error: 'CSV file is required'
+        });
+      }
+
+      const rows: Array<Record<string, string>> = [];
+      await new Promise<void>((resolve, reject) => {
+        Readable.from(req.file!.buffer)
+          .pipe(csv({ mapHeaders: ({ header }) => header.trim().toLowerCase() }))
+          .on('data', row => rows.push(row))
+          .on('end', () => resolve())
+          .on('error', reject);
+      });
+
+      const errors: Array<{ row: number; error: string }> = [];
+      const numbers = new Map<string, string | null>();
+
+      rows.forEach((row, index) => {
+        const phoneNumber = (row.phone || row.phone_number || row.number || '').trim();
+        // Row numbers are 1-based and count the header line
+        if (!phoneNumber) {
+          errors.push({ row: index + 2, error: 'Phone number is required' });
+          return;
+        }
+        const normalized = toE164(phoneNumber);
+        if (!normalized) {
+          errors.push({ row: index + 2, error: `Invalid phone number: ${phoneNumber}` });
+          return;
+        }
+        if (!numbers.has(normalized)) {
+          numbers.set(normalized, row.reason?.trim() || null);
+        }
+      });
+
+      const inserted = await repository.addDoNotCallEntries(
+        Array.from(numbers.entries()).map(([phoneNumber, reason]) => ({
+          phone_number: phoneNumber,
+          reason: reason || 'Imported from CSV',
+          source: 'import' as const,
+          source_call_id: null,
+        }))
+      );
+
+      res.json({
+        success: true,
+        total: rows.length,
+        inserted: inserted.length,
+        alreadyListed: numbers.size - inserted.length,
+        errors: errors.length,
+        errorDetails: errors
+      });
+    } catch (error) {
+      console.error('Import do-not-call error:', error);
+      res.status(500).json({
+        error: 'Failed to import do-not-call list',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export const dncController = new DncController();
@@ -1,13 +1,176 @@
 import { Request, Response } from 'express';
-import { supabaseService } from '../services/supabaseService';
+import { supabaseService, SurveyResponse, SurveyVersion } from '../services/supabaseService';
+import {
+  repository,
+  RESPONSE_COLUMNS,
+  SENTIMENTS,
+  CALL_STATUSES,
+  TIME_SERIES_INTERVALS,
+  TimeSeriesInterval,
+  AnalyticsFilter,
+  CompatibilityGroup,
+  AnswerCount,
+  DurationStats,
+  QuestionStats,
+  VersionQuestionStats,
+  DURATION_BUCKETS,
+  summarizeCallCounts,
+  countCalls,
+} from '../repositories';
+import { isValidTimezone } from '../services/callingHoursService';
+import { surveyService } from '../services/surveyService';
+import { reportExportService, ExportFormat, EXPORT_FORMATS, EXPORT_CONTENT_TYPES } from '../services/reportExportService';
+import { answerService } from '../services/answerService';
+import { themeService } from '../services/themeService';
+import {
+  ListQueryError,
+  parsePageRequest,
+  parseListParam,
+  parseIntegerListParam,
+  parseIntegerParam,
+  parseBooleanParam,
+  parseDateRange,
+  parseSearchParam,
+  pageResponse,
+} from '../utils/pagination';
+
+type ResponseRow = SurveyResponse & {
+  survey_calls: { campaign_id: string | null; survey_id: string | null; survey_version_id: string | null };
+};
+
+interface VersionedResponse extends SurveyResponse {
+  campaign_id: string | null;
+  survey_id: string | null;
+  survey_version_id: string | null;
+  survey_version: number | null;
+}
+
+// Attach each response's survey version and take question text from the version that was asked
+async function resolveVersions(rows: ResponseRow[]): Promise<{ responses: VersionedResponse[]; versions: Map<string, SurveyVersion> }> {
+  const versionIds = rows
+    .map(row => row.survey_calls?.survey_version_id)
+    .filter((id): id is string => !!id);
+  const versions = await surveyService.getVersionsByIds(Array.from(new Set(versionIds)));
+
+  const responses = rows.map(({ survey_calls: call, ...response }) => {
+    const version = call?.survey_version_id ? versions.get(call.survey_version_id) : undefined;
+    return {
+      ...response,
+      // Responses recorded before versioning keep the text stored with them
+      question_text: version
+        ? surveyService.getQuestionText(version.definition, response.question_number)
+        : response.question_text,
+      campaign_id: call?.campaign_id ?? null,
+      survey_id: version?.survey_id ?? call?.survey_id ?? null,
+      survey_version_id: version?.id ?? null,
+      survey_version: version?.version ?? null,
+    };
+  });
+
+  return { responses, versions };
+}
+
+// Versions in each group of responses whose answers can be compared
+async function describeCompatibilityGroups(groups: CompatibilityGroup[]) {
+  const versions = await surveyService.getVersionsByIds(groups.flatMap(group => group.survey_version_ids));
+  return groups.map(group => ({
+    compatibility_key: group.compatibility_key ?? 'unversioned',
+    responses: group.responses,
+    versions: group.survey_version_ids.map(id => {
+      const version = versions.get(id);
+      return version ? `${version.survey_id} v${version.version} (${version.id})` : id;
+    }),
+  }));
+}
+
+// Zone that days and weeks in time series are counted in, unless the request names one
+const REPORT_TIMEZONE = process.env.REPORT_TIMEZONE || 'Australia/Sydney';
+
+function analyticsFilter(req: Request): AnalyticsFilter {
+  return {
+    campaignId: req.query.campaignId as string | undefined,
+    ...parseDateRange(req),
+  };
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 10000) / 100 : 0;
+}
+
+// Theme analysis of the answers to ?questionNumber=, narrowed by sentiment, follow-up, survey version and date
+async function themeReport(req: Request, campaignId?: string) {
+  if (req.query.questionNumber === undefined) {
+    throw new ListQueryError('questionNumber is required');
+  }
+  const questionNumber = parseIntegerParam(req, 'questionNumber', 1, Number.MAX_SAFE_INTEGER, 1);
+  const maxThemes = parseIntegerParam(req, 'maxThemes', 1, 20, 8);
+  const range = parseDateRange(req);
+
+  const [report, survey] = await Promise.all([
+    themeService.analyze({
+      campaignId,
+      questionNumbers: [questionNumber],
+      surveyVersionIds: parseListParam(req, 'surveyVersionId'),
+      sentiments: parseListParam(req, 'sentiment', SENTIMENTS),
+      followUp: parseBooleanParam(req, 'followUp'),
+      ...range,
+    }, { maxThemes }),
+    surveyService.getSurveyForCampaign(campaignId),
+  ]);
+
+  return {
+    survey_id: survey.id,
+    question_number: questionNumber,
+    question_text: surveyService.getQuestion(survey, questionNumber)?.text ?? null,
+    from: range.from ?? null,
+    to: range.to ?? null,
+    ...report,
+  };
+}
+
+type QuestionKey = Pick<QuestionStats, 'compatibility_key' | 'question_number'>;
+
+// The same question asked in the same words
+function sameQuestion(a: QuestionKey, b: QuestionKey): boolean {
+  return a.question_number === b.question_number && a.compatibility_key === b.compatibility_key;
+}
+
+// Extracted answer values for one question; durations in bucket order, unrecognised answers last
+function answerBreakdown(counts: AnswerCount[], durations?: DurationStats) {
+  if (counts.length === 0) return null;
+
+  const order = (value: string | null) => value === null
+    ? DURATION_BUCKETS.length
+    : Math.max(DURATION_BUCKETS.findIndex(bucket => bucket.label === value), 0);
+  const sorted = counts[0].answer_type === 'duration'
+    ? [...counts].sort((a, b) => order(a.answer_value) - order(b.answer_value))
+    : counts;
+  const total = counts.reduce((sum, count) => sum + count.answers, 0);
+
+  return {
+    answer_type: counts[0].answer_type,
+    answers: total,
+    needs_review: counts.reduce((sum, count) => sum + count.needs_review, 0),
+    ...(durations ? { median_months: durations.median_months, average_months: durations.average_months } : {}),
+    values: sorted.map(count => ({
+      value: count.answer_value,
+      answers: count.answers,
+      share: percent(count.answers, total),
+      needs_review: count.needs_review,
+    })),
+  };
+}
 
 export class ReportController {
-  // Get campaign summary
+  // Get call summary, across all calls or for one campaign (?campaignId=), optionally for a date range (?from=&to=)
   async getSummary(req: Request, res: Response) {
     try {
-      const summary = await supabaseService.getCallSummary();
+      const summary = await repository.getCallSummary(analyticsFilter(req));
       res.json(summary);
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Get summary error:', error);
       res.status(500).json({
         error: 'Failed to get summary',
@@ -16,12 +179,256 @@ export class ReportController {
     }
   }
 
-  // Get all survey responses
+  // Get call summary for a single campaign (?from=&to=)
+  async getCampaignSummary(req: Request, res: Response) {
+    try {
+      const campaign = await supabaseService.getCampaignById(req.params.campaignId);
+      if (!campaign) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      const summary = await repository.getCallSummary({ ...parseDateRange(req), campaignId: campaign.id });
+      res.json({
+        campaign_id: campaign.id,
+        campaign_name: campaign.name,
+        campaign_status: campaign.status,
+        ...summary
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Get campaign summary error:', error);
+      res.status(500).json({
+        error: 'Failed to get campaign summary',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Get a summary for every campaign (?from=&to=), aggregated in one pass over the calls
+  async getCampaignSummaries(req: Request, res: Response) {
+    try {
+      const [campaigns, counted] = await Promise.all([
+        supabaseService.getCampaigns(),
+        repository.getCampaignCallSummaries(parseDateRange(req)),
+      ]);
+      const byCampaign = new Map(counted.map(summary => [summary.campaign_id, summary]));
+      const noCalls = summarizeCallCounts(countCalls([]));
+
+      const summaries = campaigns.map(campaign => {
+        const { campaign_id, ...summary } = byCampaign.get(campaign.id) || { campaign_id: campaign.id, ...noCalls };
+        return {
+          campaign_id,
+          campaign_name: campaign.name,
+          campaign_status: campaign.status,
+          ...summary
+        };
+      });
+      res.json(summaries);
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Get campaign summaries error:', error);
+      res.status(500).json({
+        error: 'Failed to get campaign summaries',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Per-question breakdown (?campaignId=&from=&to=): answer rate, sentiment and extracted answer values of each
+  // question over completed calls, once per wording the question was asked in, and where completed calls stopped answering
+  async getQuestionAnalytics(req: Request, res: Response) {
+    try {
+      const filter = analyticsFilter(req);
+      const [summary, questions, dropOff, answerCounts, durationStats, survey] = await Promise.all([
+        repository.getCallSummary(filter),
+        repository.getQuestionStats(filter),
+        repository.getDropOff(filter),
+        repository.getAnswerCounts(filter),
+        repository.getDurationStats(filter),
+        surveyService.getSurveyForCampaign(filter.campaignId),
+      ]);
+
+      // Wording of the versions that asked each set of questions; calls that fit no single version, and the
+      // drop-off points, which span versions, are shown with the current survey's
+      const versions = await surveyService.getVersionsByCompatibilityKeys(
+        questions.map(question => question.compatibility_key).filter((key): key is string => !!key)
+      );
+      const questionText = (questionNumber: number | null, compatibilityKey: string | null = null) => {
+        if (questionNumber === null) return null;
+        const version = compatibilityKey ? versions.get(compatibilityKey) : undefined;
+        return surveyService.getQuestion(version?.definition ?? survey, questionNumber)?.text ?? null;
+      };
+
+      res.json({
+        survey_id: survey.id,
+        completed_calls: summary.completed_calls,
+        questions: questions.map(question => ({
+          compatibility_key: question.compatibility_key,
+          question_number: question.question_number,
+          question_text: questionText(question.question_number, question.compatibility_key),
+          answered_calls: question.answered_calls,
+          answer_rate: percent(question.answered_calls, question.completed_calls),
+          sentiment: {
+            positive: question.positive,
+            neutral: question.neutral,
+            negative: question.negative,
+            unscored: question.unscored,
+          },
+          follow_ups: question.follow_ups,
+          extracted: answerBreakdown(
+            answerCounts.filter(count => sameQuestion(count, question)),
+            durationStats.find(stats => sameQuestion(stats, question))
+          ),
+        })),
+        drop_off: dropOff.map(point => ({
+          last_question: point.last_question,
+          question_text: questionText(point.last_question),
+          calls: point.calls,
+          share: percent(point.calls, summary.completed_calls),
+        })),
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Get question analytics error:', error);
+      res.status(500).json({
+        error: 'Failed to get question analytics',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Themes, key phrases, sentiment mix and example quotes in the answers to one question
+  // (?questionNumber=&campaignId=&sentiment=&followUp=&surveyVersionId=&from=&to=&maxThemes=)
+  async getThemes(req: Request, res: Response) {
+    try {
+      const campaignId = req.query.campaignId as string | undefined;
+      if (campaignId && !await supabaseService.getCampaignById(campaignId)) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      res.json(await themeReport(req, campaignId));
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Get themes error:', error);
+      res.status(500).json({
+        error: 'Failed to analyse themes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Themes in one campaign's answers to a question (?questionNumber=&sentiment=&followUp=&surveyVersionId=&from=&to=&maxThemes=)
+  async getCampaignThemes(req: Request, res: Response) {
+    try {
+      const campaign = await supabaseService.getCampaignById(req.params.campaignId);
+      if (!campaign) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      res.json({
+        campaign_id: campaign.id,
+        campaign_name: campaign.name,
+        ...await themeReport(req, campaign.id),
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Get campaign themes error:', error);
+      res.status(500).json({
+        error: 'Failed to analyse campaign themes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Calls and completion rate per day or week (?interval=day|week&timezone=&campaignId=&from=&to=)
+  async getCallTimeSeries(req: Request, res: Response) {
+    try {
+      const interval = (req.query.interval as string | undefined || 'day') as TimeSeriesInterval;
+      if (!TIME_SERIES_INTERVALS.includes(interval)) {
+        return res.status(400).json({
+          error: `interval must be one of: ${TIME_SERIES_INTERVALS.join(', ')}`
+        });
+      }
+
+      const timezone = req.query.timezone as string | undefined || REPORT_TIMEZONE;
+      if (!isValidTimezone(timezone)) {
+        return res.status(400).json({
+          error: 'Invalid timezone'
+        });
+      }
+
+      const points = await repository.getCallTimeSeries(analyticsFilter(req), interval, timezone);
+      res.json({
+        interval,
+        timezone,
+        points: points.map(point => ({
+          ...point,
+          completion_rate: point.total_calls > 0 ? Math.round((point.completed_calls / point.total_calls) * 10000) / 100 : 0,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Get call time series error:', error);
+      res.status(500).json({
+        error: 'Failed to get call time series',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // List survey responses a page at a time, filtered by campaign, survey versions (?surveyVersionId=a,b), sentiment,
+  // question number, follow-up, extracted answers needing review (?needsReview=true), date and customer name/phone. Answers to differently worded questions are not merged unless ?mixVersions=true
   async getAllResponses(req: Request, res: Response) {
     try {
-      const responses = await supabaseService.getAllResponses();
-      res.json(responses || []);
+      const mixVersions = req.query.mixVersions === 'true';
+      const pageRequest = parsePageRequest(req, RESPONSE_COLUMNS, '-created_at');
+      const filter = {
+        campaignId: req.query.campaignId as string | undefined,
+        surveyVersionIds: parseListParam(req, 'surveyVersionId'),
+        sentiments: parseListParam(req, 'sentiment', SENTIMENTS),
+        questionNumbers: parseIntegerListParam(req, 'questionNumber'),
+        followUp: parseBooleanParam(req, 'followUp'),
+        needsReview: parseBooleanParam(req, 'needsReview'),
+        ...parseDateRange(req),
+        search: parseSearchParam(req),
+      };
+
+      // Checked over every response in the filter, not just this page, so paging never mixes questions.
+      // Responses from calls dialed before versions were recorded count as the version they fit.
+      const groups = mixVersions ? [] : await repository.getResponseCompatibilityGroups(filter);
+      if (groups.length > 1) {
+        return res.status(409).json({
+          error: 'Responses span survey versions with different questions; filter by surveyVersionId or pass mixVersions=true',
+          groups: await describeCompatibilityGroups(groups)
+        });
+      }
+
+      const page = await repository.listResponses(filter, pageRequest);
+      const { responses } = await resolveVersions(page.rows as ResponseRow[]);
+
+      res.json(pageResponse(req, page, pageRequest, responses));
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Get responses error:', error);
       res.status(500).json({
         error: 'Failed to get responses',
@@ -29,7 +436,154 @@ export class ReportController {
       });
     }
   }
+
+  // Correct or confirm the typed value extracted from an answer ({ value }: months, yes/no/unsure, a category, or null)
+  async reviewAnswer(req: Request, res: Response) {
+    try {
+      const response = await repository.getResponseById(req.params.responseId);
+      if (!response) {
+        return res.status(404).json({
+          error: 'Response not found'
+        });
+      }
+      if (response.is_followup) {
+        return res.status(400).json({
+          error: 'Follow-up answers have no extracted value'
+        });
+      }
+
+      const question = await answerService.getQuestionForResponse(response);
+      if (!question?.answer_type) {
+        return res.status(400).json({
+          error: `Question ${response.question_number} has no answer type`
+        });
+      }
+
+      const { value } = req.body;
+      const invalid = value === undefined ? 'value is required' : answerService.invalidValue(question, value);
+      if (invalid) {
+        return res.status(400).json({
+          error: invalid
+        });
+      }
+
+      const updated = await answerService.review(response, question, value);
+      res.json(updated);
+    } catch (error) {
+      console.error('Review answer error:', error);
+      res.status(500).json({
+        error: 'Failed to review answer',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Download survey results with one row per call (?format=csv|xlsx), filtered by campaign, survey versions, status
+  // and date range. Calls asked differently worded questions are refused, as their answers would share columns
+  async exportResults(req: Request, res: Response) {
+    try {
+      const format = (req.query.format as string | undefined || 'csv').toLowerCase() as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({
+          error: `format must be one of: ${EXPORT_FORMATS.join(', ')}`
+        });
+      }
+
+      const campaignId = req.query.campaignId as string | undefined;
+      if (campaignId && !await supabaseService.getCampaignById(campaignId)) {
+        return res.status(404).json({
+          error: 'Campaign not found'
+        });
+      }
+
+      const range = parseDateRange(req);
+      const filter = {
+        campaignId,
+        surveyVersionIds: parseListParam(req, 'surveyVersionId'),
+        statuses: parseListParam(req, 'status', CALL_STATUSES),
+        from: range.from,
+        // Fixed now, so calls made after the check can't bring in other questions
+        to: range.to || new Date().toISOString(),
+      };
+
+      const groups = await repository.getCallCompatibilityGroups(filter);
+      if (groups.length > 1) {
+        return res.status(409).json({
+          error: 'Calls span survey versions with different questions; filter by surveyVersionId, campaignId or date',
+          groups: await describeCompatibilityGroups(groups)
+        });
+      }
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="survey-results-${new Date().toISOString().slice(0, 10)}.${format}"`);
+
+      const exported = await reportExportService.export(filter, format, res);
+      console.log(`📤 Exported ${exported} calls as ${format}`);
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Export results error:', error);
+      if (res.headersSent) {
+        return res.end();
+      }
+      res.status(500).json({
+        error: 'Failed to export survey results',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Compare answers per survey version (?campaignId=, ?surveyId=)
+  async getVersionComparison(req: Request, res: Response) {
+    try {
+      const campaignId = req.query.campaignId as string | undefined;
+      const surveyId = req.query.surveyId as string | undefined;
+
+      const rows = await repository.getVersionComparison({ campaignId, surveyId });
+      const versions = await surveyService.getVersionsByIds(Array.from(new Set(
+        rows.map(row => row.survey_version_id).filter((id): id is string => !!id)
+      )));
+
+      const byVersion = new Map<string | null, VersionQuestionStats[]>();
+      rows.forEach(row => {
+        if (!byVersion.has(row.survey_version_id)) byVersion.set(row.survey_version_id, []);
+        byVersion.get(row.survey_version_id)!.push(row);
+      });
+
+      const comparison = Array.from(byVersion.entries()).map(([versionId, group]) => {
+        const version = versionId ? versions.get(versionId) : undefined;
+
+        return {
+          survey_id: version?.survey_id ?? group[0].survey_id,
+          survey_version_id: versionId,
+          version: version?.version ?? null,
+          compatibility_key: version?.compatibility_key ?? 'unversioned',
+          calls: group[0].calls,
+          questions: group.map(question => ({
+            number: question.question_number,
+            // Responses recorded before versioning keep the text stored with them
+            text: version ? surveyService.getQuestionText(version.definition, question.question_number) : question.question_text,
+            responses: question.responses,
+            positive: question.positive,
+            neutral: question.neutral,
+            negative: question.negative,
+          })),
+        };
+      });
+
+      res.json({
+        compatible: new Set(comparison.map(entry => entry.compatibility_key)).size <= 1,
+        versions: comparison.sort((a, b) => (a.version ?? 0) - (b.version ?? 0))
+      });
+    } catch (error) {
+      console.error('Get version comparison error:', error);
+      res.status(500).json({
+        error: 'Failed to compare survey versions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
 }
 
 export const reportController = new ReportController();
-
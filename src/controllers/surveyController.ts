@@ -0,0 +1,366 @@
+import { Request, Response } from 'express';
+import { supabaseService, AnswerCategory, AnswerType, SurveyDefinition, SurveyFollowUp, SurveyQuestion } from '../services/supabaseService';
+import { surveyService } from '../services/surveyService';
+import { DEFAULT_SURVEY, DEFAULT_SURVEY_ID } from '../services/defaultSurvey';
+import { repository, ANSWER_TYPES } from '../repositories';
+
+type SurveyFields = Omit<SurveyDefinition, 'id'>;
+
+const TEXT_FIELDS: Array<[string, keyof SurveyFields, boolean]> = [
+  // [body field, column, required]
+  ['name', 'name', true],
+  ['organisationName', 'organisation_name', true],
+  ['agentName', 'agent_name', true],
+  ['purpose', 'purpose', true],
+  ['greeting', 'greeting', true],
+  ['declineResponse', 'decline_response', false],
+  ['closing', 'closing', true],
+  ['aiDisclosure', 'ai_disclosure', false],
+  ['tone', 'tone', false],
+];
+
+function parsePhrases(value: unknown, path: string): { phrases: string[]; error?: string } {
+  if (value === undefined) return { phrases: [] };
+  if (!Array.isArray(value) || value.some(p => typeof p !== 'string' || !p.trim())) {
+    return { phrases: [], error: `${path}.detectionPhrases must be an array of non-empty strings` };
+  }
+  return { phrases: value.map(p => p.trim().toLowerCase()) };
+}
+
+// answerType and, for 'category', the categories answers are sorted into
+function parseAnswerType(item: any, path: string): { answerType: AnswerType | null; categories?: AnswerCategory[]; error?: string } {
+  if (item.answerType === undefined || item.answerType === null) {
+    if (item.answerCategories !== undefined) {
+      return { answerType: null, error: `${path}.answerCategories needs answerType 'category'` };
+    }
+    return { answerType: null };
+  }
+  if (!ANSWER_TYPES.includes(item.answerType)) {
+    return { answerType: null, error: `${path}.answerType must be one of: ${ANSWER_TYPES.join(', ')}` };
+  }
+  if (item.answerType !== 'category') {
+    if (item.answerCategories !== undefined) {
+      return { answerType: null, error: `${path}.answerCategories needs answerType 'category'` };
+    }
+    return { answerType: item.answerType };
+  }
+
+  if (!Array.isArray(item.answerCategories) || item.answerCategories.length === 0) {
+    return { answerType: null, error: `${path}.answerCategories must be a non-empty array` };
+  }
+  const categories: AnswerCategory[] = [];
+  for (const [index, category] of item.answerCategories.entries()) {
+    const categoryPath = `${path}.answerCategories[${index}]`;
+    if (!category || typeof category.name !== 'string' || !category.name.trim()) {
+      return { answerType: null, error: `${categoryPath}.name is required` };
+    }
+    const name = category.name.trim().toLowerCase();
+    if (categories.some(c => c.name === name)) {
+      return { answerType: null, error: `Category ${name} is used more than once in ${path}` };
+    }
+    if (!Array.isArray(category.keywords) || category.keywords.length === 0
+      || category.keywords.some((k: unknown) => typeof k !== 'string' || !k.trim())) {
+      return { answerType: null, error: `${categoryPath}.keywords must be a non-empty array of non-empty strings` };
+    }
+    categories.push({ name, keywords: category.keywords.map((k: string) => k.trim().toLowerCase()) });
+  }
+  return { answerType: 'category', categories };
+}
+
+function parseQuestions(value: unknown): { questions: SurveyQuestion[]; error?: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { questions: [], error: 'questions must be a non-empty array' };
+  }
+
+  const questions: SurveyQuestion[] = [];
+  for (const [index, item] of value.entries()) {
+    const path = `questions[${index}]`;
+    if (!item || typeof item.text !== 'string' || !item.text.trim()) {
+      return { questions, error: `${path}.text is required` };
+    }
+
+    const number = item.number ?? index + 1;
+    if (!Number.isInteger(number) || number < 1) {
+      return { questions, error: `${path}.number must be a positive integer` };
+    }
+    if (questions.some(q => q.number === number)) {
+      return { questions, error: `Question number ${number} is used more than once` };
+    }
+
+    const { phrases, error: phraseError } = parsePhrases(item.detectionPhrases, path);
+    if (phraseError) return { questions, error: phraseError };
+
+    if (item.followUps !== undefined && !Array.isArray(item.followUps)) {
+      return { questions, error: `${path}.followUps must be an array` };
+    }
+
+    const followUps: SurveyFollowUp[] = [];
+    for (const [followUpIndex, followUp] of (item.followUps || []).entries()) {
+      const followUpPath = `${path}.followUps[${followUpIndex}]`;
+      if (!followUp || typeof followUp.text !== 'string' || !followUp.text.trim()) {
+        return { questions, error: `${followUpPath}.text is required` };
+      }
+      const parsed = parsePhrases(followUp.detectionPhrases, followUpPath);
+      if (parsed.error) return { questions, error: parsed.error };
+
+      followUps.push({
+        condition: followUp.condition || null,
+        text: followUp.text.trim(),
+        detection_phrases: parsed.phrases,
+      });
+    }
+
+    const { answerType, categories, error: answerError } = parseAnswerType(item, path);
+    if (answerError) return { questions, error: answerError };
+
+    questions.push({
+      number,
+      text: item.text.trim(),
+      instructions: item.instructions || null,
+      detection_phrases: phrases,
+      follow_ups: followUps,
+      ...(answerType ? { answer_type: answerType } : {}),
+      ...(categories ? { answer_categories: categories } : {}),
+    });
+  }
+
+  return { questions: questions.sort((a, b) => a.number - b.number) };
+}
+
+// Read survey fields from a request body; with `partial`, only fields present in the body are returned
+function parseSurveyBody(body: any, partial: boolean): { fields: Partial<SurveyFields>; error?: string } {
+  const fields: Partial<SurveyFields> = {};
+
+  for (const [bodyField, column, required] of TEXT_FIELDS) {
+    const value = body[bodyField];
+    if (value === undefined) {
+      if (required && !partial) {
+        return { fields, error: `${bodyField} is required` };
+      }
+      continue;
+    }
+    if (value !== null && typeof value !== 'string') {
+      return { fields, error: `${bodyField} must be a string` };
+    }
+    if (required && !value) {
+      return { fields, error: `${bodyField} cannot be empty` };
+    }
+    (fields as any)[column] = value || null;
+  }
+
+  if (body.questions !== undefined || !partial) {
+    const { questions, error } = parseQuestions(body.questions);
+    if (error) return { fields, error };
+    fields.questions = questions;
+  }
+
+  return { fields };
+}
+
+export class SurveyController {
+  // Create a survey definition
+  async createSurvey(req: Request, res: Response) {
+    try {
+      const { id } = req.body;
+      const { fields, error } = parseSurveyBody(req.body, false);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      if (id !== undefined && (typeof id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(id))) {
+        return res.status(400).json({
+          error: 'id must be lowercase letters, digits and dashes'
+        });
+      }
+      if (id && await supabaseService.getSurveyById(id)) {
+        return res.status(409).json({
+          error: `Survey ${id} already exists`
+        });
+      }
+
+      const survey = await supabaseService.createSurvey({
+        ...(id ? { id } : {}),
+        ...(fields as SurveyFields),
+      });
+      const version = await surveyService.ensureCurrentVersion(survey);
+
+      res.json({
+        success: true,
+        survey,
+        version: version.version
+      });
+
+    } catch (error) {
+      console.error('Create survey error:', error);
+      res.status(500).json({
+        error: 'Failed to create survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Get all surveys, including the built-in default
+  async getSurveys(req: Request, res: Response) {
+    try {
+      const surveys = await surveyService.getSurveys();
+      res.json(surveys);
+    } catch (error) {
+      console.error('Get surveys error:', error);
+      res.status(500).json({
+        error: 'Failed to get surveys',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async getSurvey(req: Request, res: Response) {
+    try {
+      const survey = await surveyService.getSurvey(req.params.surveyId);
+      if (!survey) {
+        return res.status(404).json({
+          error: 'Survey not found'
+        });
+      }
+
+      res.json(survey);
+    } catch (error) {
+      console.error('Get survey error:', error);
+      res.status(500).json({
+        error: 'Failed to get survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Preview the agent prompt generated from a survey
+  async getSurveyPrompt(req: Request, res: Response) {
+    try {
+      const survey = await surveyService.getSurvey(req.params.surveyId);
+      if (!survey) {
+        return res.status(404).json({
+          error: 'Survey not found'
+        });
+      }
+
+      res.json({
+        surveyId: survey.id,
+        firstMessage: survey.greeting,
+        prompt: surveyService.buildPrompt(survey)
+      });
+    } catch (error) {
+      console.error('Get survey prompt error:', error);
+      res.status(500).json({
+        error: 'Failed to build survey prompt',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Update a survey; editing the built-in default stores a copy that replaces it
+  async updateSurvey(req: Request, res: Response) {
+    try {
+      const { fields, error } = parseSurveyBody(req.body, true);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const surveyId = req.params.surveyId;
+      const stored = await supabaseService.getSurveyById(surveyId);
+
+      let survey;
+      if (stored) {
+        survey = await supabaseService.updateSurvey(surveyId, fields);
+      } else if (surveyId === DEFAULT_SURVEY_ID) {
+        survey = await supabaseService.createSurvey({ ...DEFAULT_SURVEY, ...fields });
+      } else {
+        return res.status(404).json({
+          error: 'Survey not found'
+        });
+      }
+      const version = await surveyService.ensureCurrentVersion(survey);
+
+      res.json({
+        success: true,
+        survey,
+        version: version.version
+      });
+    } catch (error) {
+      console.error('Update survey error:', error);
+      res.status(500).json({
+        error: 'Failed to update survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // List the recorded versions of a survey, newest first
+  async getSurveyVersions(req: Request, res: Response) {
+    try {
+      const versions = await repository.getSurveyVersions(req.params.surveyId);
+      res.json(versions);
+    } catch (error) {
+      console.error('Get survey versions error:', error);
+      res.status(500).json({
+        error: 'Failed to get survey versions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async getSurveyVersion(req: Request, res: Response) {
+    try {
+      const versionNumber = parseInt(req.params.version, 10);
+      if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+        return res.status(400).json({
+          error: 'version must be a positive integer'
+        });
+      }
+
+      const version = await repository.getSurveyVersion(req.params.surveyId, versionNumber);
+      if (!version) {
+        return res.status(404).json({
+          error: 'Survey version not found'
+        });
+      }
+
+      res.json(version);
+    } catch (error) {
+      console.error('Get survey version error:', error);
+      res.status(500).json({
+        error: 'Failed to get survey version',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Delete a survey no campaign uses
+  async deleteSurvey(req: Request, res: Response) {
+    try {
+      const survey = await supabaseService.getSurveyById(req.params.surveyId);
+      if (!survey) {
+        return res.status(404).json({
+          error: 'Survey not found'
+        });
+      }
+
+      const campaigns = await supabaseService.countCampaignsUsingSurvey(survey.id);
+      if (campaigns > 0 && survey.id !== DEFAULT_SURVEY_ID) {
+        return res.status(409).json({
+          error: `Survey is used by ${campaigns} campaign(s)`
+        });
+      }
+
+      // Deleting a stored default survey falls back to the built-in definition
+      await supabaseService.deleteSurvey(survey.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete survey error:', error);
+      res.status(500).json({
+        error: 'Failed to delete survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export const surveyController = new SurveyController();
@@ -4,7 +4,18 @@ import dotenv from 'dotenv';
 import { customerRoutes } from './routes/customerRoutes';
 import { callRoutes } from './routes/callRoutes';
 import { reportRoutes } from './routes/reportRoutes';
-import { elevenlabsWebhook } from './webhooks/elevenlabsWebhook';
+import { campaignRoutes } from './routes/campaignRoutes';
+import { dncRoutes } from './routes/dncRoutes';
+import { callbackRoutes } from './routes/callbackRoutes';
+import { surveyRoutes } from './routes/surveyRoutes';
+import { adminRoutes } from './routes/adminRoutes';
+import { elevenlabsWebhook, captureRawBody } from './webhooks/elevenlabsWebhook';
+import { campaignService } from './services/campaignService';
+import { callQueueService } from './services/callQueueService';
+import { webhookInboxService } from './services/webhookInboxService';
+import { reconcilerService } from './services/reconcilerService';
+import { customerImportJobService } from './services/customerImportJobService';
+import { isSupabaseConfigured, SUPABASE_ONLY_FEATURES } from './services/supabaseService';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -14,7 +25,11 @@ console.log('🔧 Environment Variables:');
 console.log('ELEVENLABS_API_KEY:', process.env.ELEVENLABS_API_KEY ? '✅ Set' : '❌ Not set');
 console.log('ELEVENLABS_AGENT_ID:', process.env.ELEVENLABS_AGENT_ID ? '✅ Set' : '❌ Not set');
 console.log('ELEVENLABS_AGENT_PHONE_NUMBER_ID:', process.env.ELEVENLABS_AGENT_PHONE_NUMBER_ID ? '✅ Set' : '❌ Not set');
+console.log('ELEVENLABS_WEBHOOK_SECRET:', process.env.ELEVENLABS_WEBHOOK_SECRET ? '✅ Set' : '❌ Not set (webhooks will be rejected)');
 console.log('SUPABASE_URL:', process.env.SUPABASE_URL ? '✅ Set' : '⚠️  Not set (optional)');
+console.log('SUPABASE_SERVICE_KEY:', process.env.SUPABASE_SERVICE_KEY ? '✅ Set' : '⚠️  Not set (optional)');
+console.log('STORAGE_BACKEND:', process.env.STORAGE_BACKEND || 'supabase');
+console.log('VOICE_PROVIDER:', process.env.VOICE_PROVIDER || 'elevenlabs');
 console.log('WEBHOOK_BASE_URL:', process.env.WEBHOOK_BASE_URL || 'http://localhost:3001');
 
 const app = express();
@@ -22,6 +37,8 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
+// Webhooks keep the raw body for signature verification; parsed here so the global parser skips them
+app.use('/webhook/elevenlabs', express.json({ limit: '5mb', verify: captureRawBody }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -29,6 +46,11 @@ app.use(express.urlencoded({ extended: true }));
 app.use('/api/customers', customerRoutes);
 app.use('/api/calls', callRoutes);
 app.use('/api/reports', reportRoutes);
+app.use('/api/campaigns', campaignRoutes);
+app.use('/api/dnc', dncRoutes);
+app.use('/api/callbacks', callbackRoutes);
+app.use('/api/surveys', surveyRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Webhooks
 app.use('/webhook/elevenlabs', elevenlabsWebhook);
@@ -41,4 +63,16 @@ app.get('/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 Backend server running on port ${PORT}`);
   console.log(`📞 Webhook URL: ${process.env.WEBHOOK_BASE_URL}`);
+
+  // Start draining the call queue, webhook inbox and customer imports, polling for scheduled campaigns and reconciling stale calls.
+  // All but the reconciler work on Supabase tables, so offline (STORAGE_BACKEND=memory without Supabase) only it runs.
+  if (isSupabaseConfigured()) {
+    callQueueService.start();
+    webhookInboxService.start();
+    customerImportJobService.start();
+    campaignService.startScheduler();
+  } else {
+    console.warn(`⚠️  Supabase is not configured: running without ${SUPABASE_ONLY_FEATURES}`);
+  }
+  reconcilerService.start();
 });
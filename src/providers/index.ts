@@ -0,0 +1,26 @@
+import dotenv from 'dotenv';
+import { VoiceProvider } from './voiceProvider';
+import { SimulatorProvider } from './simulatorProvider';
+import { elevenlabsService } from '../services/elevenlabsService';
+
+dotenv.config();
+
+// Provider that places the calls: 'elevenlabs' (default) or 'simulator'
+function createVoiceProvider(): VoiceProvider {
+  const name = (process.env.VOICE_PROVIDER || 'elevenlabs').toLowerCase();
+
+  switch (name) {
+    case 'elevenlabs':
+      return elevenlabsService;
+    case 'simulator':
+      console.log('🎭 Using the call simulator; no real calls will be placed');
+      return new SimulatorProvider();
+    default:
+      throw new Error(`Unknown VOICE_PROVIDER: ${name}`);
+  }
+}
+
+export const voiceProvider = createVoiceProvider();
+
+export * from './voiceProvider';
+export { SimulatorProvider, SimulatorScenario, SimulatorScripts } from './simulatorProvider';
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { SurveyDefinition } from '../services/supabaseService';
+import { DEFAULT_SURVEY } from '../services/defaultSurvey';
+import { signWebhookPayload, verifyWebhookSignature } from '../services/elevenlabsService';
+import {
+  ElevenLabsConversationDetails,
+  ElevenLabsTranscriptEntry,
+  ElevenLabsWebhookEvent,
+  parseElevenLabsWebhook,
+} from '../webhooks/elevenlabsEvents';
+import { phoneNumberKey } from '../utils/phoneNumber';
+import { VoiceProvider, VoiceProviderError, VoiceCallOptions, WebhookSignatureResult, ParsedWebhook } from './voiceProvider';
+
+export interface SimulatorScenario {
+  outcome: 'answered' | 'voicemail' | 'no-answer' | 'busy' | 'failed';
+  opening?: string; // Customer's reply to the greeting
+  answers?: string[]; // Replies to the survey questions in order; the customer hangs up when they run out
+  callbackRequest?: string; // Reply when the agent asks for a better time (declined calls)
+  weight?: number; // Relative frequency among numbers without a fixed scenario
+}
+
+export interface SimulatorScripts {
+  scenarios: Record<string, SimulatorScenario>;
+  numbers?: Record<string, string>; // Phone number → scenario name
+}
+
+const DEFAULT_SCRIPTS: SimulatorScripts = {
+  scenarios: {
+    complete: {
+      outcome: 'answered',
+      weight: 5,
+      opening: 'Yeah, sure, go ahead.',
+      answers: [
+        'About six years now.',
+        'Mostly the reliable deliveries, the drivers are always on time.',
+        'Yes, it has been great. Really happy with it.',
+        'Yes, the drivers are always careful on site.',
+        'No, that\'s everything, thanks.',
+      ],
+    },
+    'hang-up': {
+      outcome: 'answered',
+      weight: 1,
+      opening: 'Okay, quickly.',
+      answers: ['A couple of years.', 'Price, mainly.'],
+    },
+    callback: {
+      outcome: 'answered',
+      weight: 1,
+      opening: 'Sorry, not a good time, I\'m driving.',
+      callbackRequest: 'Can you call me back tomorrow afternoon?',
+    },
+    'opt-out': {
+      outcome: 'answered',
+      weight: 1,
+      opening: 'Please take me off your list and don\'t call me again.',
+    },
+    voicemail: { outcome: 'voicemail', weight: 1 },
+    'no-answer': { outcome: 'no-answer', weight: 2 },
+    busy: { outcome: 'busy', weight: 1 },
+  },
+};
+
+const SCRIPTS_FILE = process.env.SIMULATOR_SCRIPTS_FILE;
+// How long the phone rings before it is answered (or not), and how long an answered call lasts
+const RING_MS = parseInt(process.env.SIMULATOR_RING_MS || '2000', 10);
+const CALL_MS = parseInt(process.env.SIMULATOR_CALL_MS || '5000', 10);
+// Simulated seconds per transcript turn, for time_in_call_secs and the call duration
+const TURN_SECS = 8;
+
+const VOICEMAIL_GREETING = 'Hi, you\'ve reached my voicemail. Please leave a message after the tone.';
+
+interface SimulatedConversation {
+  details: ElevenLabsConversationDetails;
+  scenario: string;
+}
+
+function fillVariables(text: string, variables: Record<string, string | number | boolean>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => (name in variables ? String(variables[name]) : match));
+}
+
+// Local stand-in for ElevenLabs: answers calls with scripted customer replies and posts
+// the resulting ElevenLabs webhooks back to this server, so campaigns can be rehearsed end to end.
+export class SimulatorProvider implements VoiceProvider {
+  readonly name = 'simulator';
+  private conversations = new Map<string, SimulatedConversation>();
+  private scripts: SimulatorScripts;
+  private webhookSecret: string;
+  private webhookUrl: string;
+
+  constructor() {
+    this.scripts = DEFAULT_SCRIPTS;
+    if (SCRIPTS_FILE) {
+      try {
+        const custom: SimulatorScripts = JSON.parse(fs.readFileSync(SCRIPTS_FILE, 'utf-8'));
+        this.scripts = {
+          scenarios: { ...DEFAULT_SCRIPTS.scenarios, ...custom.scenarios },
+          // Keyed in E.164 like the numbers dialed, whatever format the file uses
+          numbers: custom.numbers && Object.fromEntries(
+            Object.entries(custom.numbers).map(([phoneNumber, scenario]) => [phoneNumberKey(phoneNumber), scenario])
+          ),
+        };
+        console.log(`🎭 Loaded simulator scripts from ${SCRIPTS_FILE}`);
+      } catch (error) {
+        console.warn(`⚠️  Could not load simulator scripts from ${SCRIPTS_FILE}:`, error);
+      }
+    }
+
+    // Webhooks are signed like real ones; without a configured secret a per-process one is used
+    this.webhookSecret = process.env.ELEVENLABS_WEBHOOK_SECRET || crypto.randomBytes(32).toString('hex');
+    const baseUrl = process.env.WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
+    this.webhookUrl = `${baseUrl.replace(/\/$/, '')}/webhook/elevenlabs/conversation`;
+  }
+
+  async initiateCall(options: VoiceCallOptions): Promise<string> {
+    const scenarioName = this.pickScenario(options.to);
+    const scenario = this.scripts.scenarios[scenarioName];
+    if (!scenario) {
+      throw new Error(`Unknown simulator scenario: ${scenarioName}`);
+    }
+
+    const conversationId = `sim_${crypto.randomUUID()}`;
+    this.conversations.set(conversationId, {
+      scenario: scenarioName,
+      details: { conversation_id: conversationId, status: 'initiated' },
+    });
+    console.log(`🎭 Simulating call to ${options.to} (${conversationId}): ${scenarioName}`);
+
+    setTimeout(() => {
+      this.ring(conversationId, scenario, options).catch(error => {
+        console.error(`Simulated call ${conversationId} error:`, error);
+      });
+    }, RING_MS);
+
+    return conversationId;
+  }
+
+  async getConversation(conversationId: string): Promise<ElevenLabsConversationDetails> {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new VoiceProviderError(`Simulated conversation ${conversationId} not found`, 404);
+    }
+    return structuredClone(conversation.details);
+  }
+
+  hasWebhookSecret(): boolean {
+    return true;
+  }
+
+  verifyWebhook(payload: Buffer | string, signatureHeader: string | undefined, now: Date = new Date()): WebhookSignatureResult {
+    return verifyWebhookSignature(payload, signatureHeader, [this.webhookSecret], 60, now);
+  }
+
+  parseWebhook(body: any, headers: Record<string, string | string[] | undefined>): ParsedWebhook {
+    return parseElevenLabsWebhook(body, headers);
+  }
+
+  // Fixed scenario for the number if configured, otherwise a weighted random one
+  private pickScenario(phoneNumber: string): string {
+    const fixed = this.scripts.numbers?.[phoneNumberKey(phoneNumber)];
+    if (fixed) return fixed;
+
+    const entries = Object.entries(this.scripts.scenarios).filter(([, scenario]) => (scenario.weight ?? 1) > 0);
+    const total = entries.reduce((sum, [, scenario]) => sum + (scenario.weight ?? 1), 0);
+    let pick = Math.random() * total;
+    for (const [name, scenario] of entries) {
+      pick -= scenario.weight ?? 1;
+      if (pick < 0) return name;
+    }
+    return entries[entries.length - 1][0];
+  }
+
+  private async ring(conversationId: string, scenario: SimulatorScenario, options: VoiceCallOptions) {
+    const conversation = this.conversations.get(conversationId)!;
+
+    if (scenario.outcome === 'no-answer' || scenario.outcome === 'busy' || scenario.outcome === 'failed') {
+      conversation.details.status = 'failed';
+      conversation.details.metadata = { termination_reason: scenario.outcome };
+      await this.sendWebhook({
+        type: 'call_initiation_failure',
+        event_timestamp: Math.floor(Date.now() / 1000),
+        data: {
+          agent_id: 'simulator',
+          conversation_id: conversationId,
+          failure_reason: scenario.outcome === 'failed' ? 'unknown' : scenario.outcome,
+          metadata: { type: 'twilio', body: { CallStatus: scenario.outcome === 'failed' ? 'failed' : scenario.outcome } },
+        },
+      });
+      return;
+    }
+
+    const startedAt = Math.floor(Date.now() / 1000);
+    conversation.details.status = 'in-progress';
+    await this.sendWebhook({ type: 'conversation_started', conversation_id: conversationId });
+
+    await new Promise(resolve => setTimeout(resolve, CALL_MS));
+
+    const transcript = this.buildTranscript(scenario, options);
+    conversation.details = {
+      conversation_id: conversationId,
+      status: 'done',
+      transcript,
+      metadata: {
+        start_time_unix_secs: startedAt,
+        call_duration_secs: transcript.length * TURN_SECS,
+        termination_reason: scenario.outcome === 'voicemail' ? 'Voicemail detected' : 'Call ended by remote party',
+        phone_call: { call_sid: conversationId, external_number: options.to },
+      },
+    };
+
+    await this.sendWebhook({
+      type: 'post_call_transcription',
+      event_timestamp: Math.floor(Date.now() / 1000),
+      data: {
+        agent_id: 'simulator',
+        conversation_id: conversationId,
+        status: 'done',
+        transcript,
+        metadata: conversation.details.metadata,
+      },
+    });
+  }
+
+  private buildTranscript(scenario: SimulatorScenario, options: VoiceCallOptions): ElevenLabsTranscriptEntry[] {
+    const survey: SurveyDefinition = options.survey || DEFAULT_SURVEY;
+    const variables = { customer_name: options.firstName, ...options.dynamicVariables };
+    const transcript: ElevenLabsTranscriptEntry[] = [];
+    const say = (role: 'agent' | 'user', message: string) => {
+      transcript.push({ role, message, time_in_call_secs: transcript.length * TURN_SECS });
+    };
+
+    say('agent', fillVariables(options.firstMessage || survey.greeting, variables));
+
+    if (scenario.outcome === 'voicemail') {
+      say('user', VOICEMAIL_GREETING);
+      return transcript;
+    }
+
+    if (scenario.opening) say('user', scenario.opening);
+
+    const answers = scenario.answers || [];
+    if (answers.length === 0) {
+      // Declined, asked for a callback or opted out
+      if (scenario.callbackRequest) {
+        say('agent', survey.decline_response || 'When would be a better time to call back?');
+        say('user', scenario.callbackRequest);
+      }
+      say('agent', 'No problem. Thanks, goodbye.');
+      return transcript;
+    }
+
+    for (const [index, question] of survey.questions.entries()) {
+      if (index >= answers.length) return transcript; // Hung up
+      say('agent', question.text);
+      say('user', answers[index]);
+    }
+
+    say('agent', survey.closing);
+    return transcript;
+  }
+
+  private async sendWebhook(event: ElevenLabsWebhookEvent) {
+    const body = JSON.stringify(event);
+    try {
+      const response = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'ElevenLabs-Signature': signWebhookPayload(body, this.webhookSecret),
+        },
+        body,
+      });
+      if (!response.ok) {
+        console.error(`🎭 Simulator webhook ${event.type} rejected: ${response.status} - ${await response.text()}`);
+      }
+    } catch (error) {
+      console.error(`🎭 Simulator webhook ${event.type} could not be delivered:`, error);
+    }
+  }
+}
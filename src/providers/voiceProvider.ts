@@ -0,0 +1,44 @@
+import { SurveyDefinition } from '../services/supabaseService';
+import { ElevenLabsConversationDetails, ElevenLabsWebhookEvent } from '../webhooks/elevenlabsEvents';
+
+// Non-2xx response from a provider's API
+export class VoiceProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'VoiceProviderError';
+  }
+}
+
+export interface VoiceCallOptions {
+  to: string;
+  firstName: string;
+  callSid?: string;
+  agentPhoneNumberId?: string; // Overrides ELEVENLABS_AGENT_PHONE_NUMBER_ID (e.g. per-campaign caller number)
+  dynamicVariables?: Record<string, string | number | boolean>;
+  prompt?: string; // Per-call system prompt override (overrides must be enabled on the agent)
+  firstMessage?: string;
+  survey?: SurveyDefinition; // Survey being run, for providers that script the conversation themselves
+}
+
+export interface WebhookSignatureResult {
+  valid: boolean;
+  reason?: string;
+}
+
+// A webhook delivery reduced to what the inbox needs; `event` is null for types we don't handle
+export interface ParsedWebhook {
+  eventType: string;
+  event: ElevenLabsWebhookEvent | null;
+  conversationId?: string;
+}
+
+// Places calls and reports on them. Webhooks and conversations use the ElevenLabs payload shapes,
+// which every provider produces so the processing pipeline is the same for all of them.
+export interface VoiceProvider {
+  readonly name: string;
+  initiateCall(options: VoiceCallOptions): Promise<string>; // Returns the conversation id
+  getConversation(conversationId: string): Promise<ElevenLabsConversationDetails>; // VoiceProviderError 404 when unknown
+  hasWebhookSecret(): boolean;
+  verifyWebhook(payload: Buffer | string, signatureHeader: string | undefined, now?: Date): WebhookSignatureResult;
+  parseWebhook(body: any, headers: Record<string, string | string[] | undefined>): ParsedWebhook;
+}
@@ -0,0 +1,28 @@
+import dotenv from 'dotenv';
+import { DataRepository } from './repository';
+import { SupabaseRepository } from './supabaseRepository';
+import { MemoryRepository } from './memoryRepository';
+
+dotenv.config();
+
+// Backend for customers, calls, responses, transcripts, survey versions, the do-not-call list and callbacks:
+// 'supabase' (default) or 'memory'
+function createRepository(): DataRepository {
+  const backend = (process.env.STORAGE_BACKEND || 'supabase').toLowerCase();
+
+  switch (backend) {
+    case 'supabase':
+      return new SupabaseRepository();
+    case 'memory':
+      console.log('💾 Using in-memory storage for customers, calls, responses, transcripts, survey versions, the do-not-call list and callbacks');
+      return new MemoryRepository(process.env.MEMORY_STORAGE_FILE || undefined);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+}
+
+export const repository = createRepository();
+
+export * from './repository';
+export { SupabaseRepository } from './supabaseRepository';
+export { MemoryRepository, RepositoryError } from './memoryRepository';
@@ -0,0 +1,1096 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { supabaseService, isSupabaseConfigured, Customer, SurveyCall, SurveyResponse, SurveyVersion, CallTranscript, DoNotCallEntry, Callback } from '../services/supabaseService';
+import { DEFAULT_SURVEY_ID } from '../services/defaultSurvey';
+import { getLocalTime } from '../utils/timezone';
+import {
+  DataRepository,
+  NewCustomer,
+  CustomerUpdates,
+  NewCall,
+  CallUpdates,
+  NewResponse,
+  NewTranscript,
+  NewSurveyVersion,
+  NewDoNotCallEntry,
+  NewCallback,
+  CallbackUpdates,
+  CallbackListFilter,
+  CallbackWithCustomer,
+  ResponseWithCall,
+  PageRequest,
+  Page,
+  CustomerListFilter,
+  CallListFilter,
+  ResponseListFilter,
+  CompatibilityGroup,
+  ResponseSentiment,
+  ResponseAnswer,
+  AnalyticsFilter,
+  CampaignCallSummary,
+  QuestionStats,
+  DropOffPoint,
+  AnswerCount,
+  DurationStats,
+  TimeSeriesInterval,
+  TimeSeriesPoint,
+  VersionQuestionStats,
+  summarizeCallCounts,
+  countCalls,
+  durationBucket,
+  CONTACT_STATUSES,
+  CALL_STATUSES,
+  SENTIMENTS,
+  ANSWER_TYPES,
+  DO_NOT_CALL_SOURCES,
+  CALLBACK_STATUSES,
+} from './repository';
+
+const OPEN_CALL_STATUSES = ['queued', 'in-progress'];
+
+// Constraint violation raised with the Postgres error code, so callers can handle both backends alike
+export class RepositoryError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+interface MemoryTables {
+  customers: Customer[];
+  survey_calls: SurveyCall[];
+  survey_responses: SurveyResponse[];
+  call_transcripts: CallTranscript[];
+  survey_versions: SurveyVersion[];
+  do_not_call: DoNotCallEntry[];
+  callbacks: Callback[];
+}
+
+function emptyTables(): MemoryTables {
+  return { customers: [], survey_calls: [], survey_responses: [], call_transcripts: [], survey_versions: [], do_not_call: [], callbacks: [] };
+}
+
+// Supabase drops undefined fields from the request body, leaving the column untouched
+function defined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function clone<T>(row: T): T {
+  return structuredClone(row);
+}
+
+function byNewest<T>(key: keyof T) {
+  return (a: T, b: T) => String(b[key]).localeCompare(String(a[key]));
+}
+
+function byOldest<T>(key: keyof T) {
+  return (a: T, b: T) => String(a[key]).localeCompare(String(b[key]));
+}
+
+// Postgres ordering: nulls sort last ascending and first descending; ties broken by id
+function compareRows<T extends { id: string }>(page: PageRequest) {
+  return (a: T, b: T) => {
+    const left = (a as any)[page.sort];
+    const right = (b as any)[page.sort];
+    let result = 0;
+    if (left == null || right == null) {
+      result = left == null && right == null ? 0 : left == null ? 1 : -1;
+    } else if (typeof left === 'number' && typeof right === 'number') {
+      result = left - right;
+    } else {
+      result = String(left).localeCompare(String(right));
+    }
+    if (!page.ascending) result = -result;
+    return result || a.id.localeCompare(b.id);
+  };
+}
+
+function paginate<T extends { id: string }>(rows: T[], page: PageRequest): Page<T> {
+  return {
+    rows: [...rows].sort(compareRows<T>(page)).slice(page.offset, page.offset + page.limit).map(clone),
+    total: rows.length,
+  };
+}
+
+function inRange(value: string, from?: string, to?: string): boolean {
+  return (!from || value >= from) && (!to || value < to);
+}
+
+// Calendar arithmetic on a YYYY-MM-DD date
+function addDays(date: string, days: number): string {
+  const at = new Date(`${date}T00:00:00Z`);
+  at.setUTCDate(at.getUTCDate() + days);
+  return at.toISOString().slice(0, 10);
+}
+
+function matchesSearch(search: string | undefined, values: Array<string | null | undefined>): boolean {
+  if (!search) return true;
+  const term = search.toLowerCase();
+  return values.some(value => value?.toLowerCase().includes(term));
+}
+
+// Stats order: question number, then compatibility key with nulls last, as the report functions sort
+function byQuestion(a: { question_number: number; compatibility_key: string | null }, b: { question_number: number; compatibility_key: string | null }): number {
+  return a.question_number - b.question_number
+    || (a.compatibility_key === null ? 1 : 0) - (b.compatibility_key === null ? 1 : 0)
+    || (a.compatibility_key ?? '').localeCompare(b.compatibility_key ?? '');
+}
+
+// Response with the survey_calls fields Supabase embeds
+function withCall(response: SurveyResponse, call: SurveyCall): ResponseWithCall {
+  return {
+    ...response,
+    survey_calls: {
+      campaign_id: call.campaign_id,
+      survey_id: call.survey_id ?? null,
+      survey_version_id: call.survey_version_id ?? null,
+    },
+  };
+}
+
+function check(condition: boolean, message: string, code: string) {
+  if (!condition) throw new RepositoryError(message, code);
+}
+
+// Local backend mirroring the constraints and defaults of supabase-schema.sql, for offline development and tests.
+// Data lives in memory; when a file is given it is loaded on start and rewritten after every change.
+export class MemoryRepository implements DataRepository {
+  private tables: MemoryTables = emptyTables();
+
+  constructor(private file?: string) {
+    if (file && fs.existsSync(file)) {
+      this.tables = { ...this.tables, ...JSON.parse(fs.readFileSync(file, 'utf-8')) };
+      console.log(`💾 Loaded local data from ${file}`);
+    }
+  }
+
+  // Drop all rows (tests)
+  reset() {
+    this.tables = emptyTables();
+    this.persist();
+  }
+
+  private persist() {
+    if (this.file) {
+      fs.writeFileSync(this.file, JSON.stringify(this.tables, null, 2));
+    }
+  }
+
+  private findCall(predicate: (call: SurveyCall) => boolean): SurveyCall {
+    const call = this.tables.survey_calls.find(predicate);
+    check(!!call, 'Call not found', 'PGRST116');
+    return call!;
+  }
+
+  private validateCall(call: SurveyCall) {
+    check(CALL_STATUSES.includes(call.call_status), `Invalid call_status: ${call.call_status}`, '23514');
+    check(!!call.customer_first_name && !!call.customer_phone, 'customer_first_name and customer_phone are required', '23502');
+    check(!call.customer_id || this.tables.customers.some(c => c.id === call.customer_id), `Customer ${call.customer_id} does not exist`, '23503');
+    check(
+      !call.call_sid || !this.tables.survey_calls.some(c => c.call_sid === call.call_sid && c.id !== call.id),
+      `Duplicate call_sid: ${call.call_sid}`,
+      '23505'
+    );
+  }
+
+  // Customer operations
+  async createCustomer(customer: NewCustomer) {
+    const row: Customer = {
+      id: crypto.randomUUID(),
+      timezone: null,
+      contact_status: 'pending',
+      ...defined(customer),
+      first_name: customer.first_name,
+      phone_number: customer.phone_number,
+      uploaded_at: new Date().toISOString(),
+    };
+
+    check(!!row.first_name && !!row.phone_number, 'first_name and phone_number are required', '23502');
+    check(CONTACT_STATUSES.includes(row.contact_status!), `Invalid contact_status: ${row.contact_status}`, '23514');
+    check(
+      !this.tables.customers.some(c => c.phone_number === row.phone_number),
+      `Duplicate phone_number: ${row.phone_number}`,
+      '23505'
+    );
+
+    this.tables.customers.push(row);
+    this.persist();
+    return clone(row);
+  }
+
+  async createCustomers(customers: NewCustomer[]) {
+    const before = this.tables.customers.length;
+    try {
+      const created: Customer[] = [];
+      for (const customer of customers) {
+        created.push(await this.createCustomer(customer));
+      }
+      return created;
+    } catch (error) {
+      this.tables.customers.splice(before);
+      this.persist();
+      throw error;
+    }
+  }
+
+  async upsertCustomers(customers: NewCustomer[]) {
+    const phoneNumbers = customers.map(customer => customer.phone_number);
+    check(new Set(phoneNumbers).size === phoneNumbers.length, 'ON CONFLICT DO UPDATE command cannot affect row a second time', '21000');
+
+    const snapshot = clone(this.tables.customers);
+    try {
+      const written: Customer[] = [];
+      for (const customer of customers) {
+        const existing = this.tables.customers.find(c => c.phone_number === customer.phone_number);
+        written.push(existing
+          ? (await this.updateCustomer(existing.id, customer))!
+          : await this.createCustomer(customer));
+      }
+      return written;
+    } catch (error) {
+      this.tables.customers = snapshot;
+      this.persist();
+      throw error;
+    }
+  }
+
+  async getCustomers() {
+    return [...this.tables.customers].sort(byNewest('uploaded_at')).map(clone);
+  }
+
+  async listCustomers(filter: CustomerListFilter, page: PageRequest) {
+    return paginate(this.tables.customers.filter(c =>
+      (!filter.campaignId || c.campaign_id === filter.campaignId)
+      && (!filter.statuses || filter.statuses.includes(c.contact_status!))
+      && inRange(c.uploaded_at, filter.from, filter.to)
+      && matchesSearch(filter.search, [c.first_name, c.last_name, c.company_name, c.phone_number])
+    ), page);
+  }
+
+  async getCustomerById(id: string) {
+    const customer = this.tables.customers.find(c => c.id === id);
+    return customer ? clone(customer) : null;
+  }
+
+  async getCustomersByIds(ids: string[]) {
+    const wanted = new Set(ids);
+    return this.tables.customers.filter(c => wanted.has(c.id)).map(clone);
+  }
+
+  async getCustomersByPhoneNumbers(phoneNumbers: string[]) {
+    const wanted = new Set(phoneNumbers);
+    return this.tables.customers.filter(c => wanted.has(c.phone_number)).map(clone);
+  }
+
+  async getCustomersByCampaign(campaignId: string) {
+    return this.tables.customers
+      .filter(c => c.campaign_id === campaignId)
+      .sort(byOldest('uploaded_at'))
+      .map(clone);
+  }
+
+  async updateCustomerContactStatus(id: string, contactStatus: NonNullable<Customer['contact_status']>) {
+    check(CONTACT_STATUSES.includes(contactStatus), `Invalid contact_status: ${contactStatus}`, '23514');
+
+    const customer = this.tables.customers.find(c => c.id === id);
+    if (customer) {
+      customer.contact_status = contactStatus;
+      this.persist();
+    }
+  }
+
+  async assignCustomersToCampaign(customerIds: string[], campaignId: string | null) {
+    const wanted = new Set(customerIds);
+    const updated = this.tables.customers.filter(c => wanted.has(c.id));
+    updated.forEach(c => {
+      c.campaign_id = campaignId ?? undefined;
+    });
+    this.persist();
+    return updated.map(clone);
+  }
+
+  async updateCustomer(id: string, updates: CustomerUpdates) {
+    const customer = this.tables.customers.find(c => c.id === id);
+    if (!customer) return null;
+
+    const updated: Customer = { ...customer, ...defined(updates) as Partial<Customer> };
+    if (updates.campaign_id === null) updated.campaign_id = undefined;
+
+    check(!!updated.first_name && !!updated.phone_number, 'first_name and phone_number are required', '23502');
+    check(CONTACT_STATUSES.includes(updated.contact_status!), `Invalid contact_status: ${updated.contact_status}`, '23514');
+    check(
+      !this.tables.customers.some(c => c.phone_number === updated.phone_number && c.id !== id),
+      `Duplicate phone_number: ${updated.phone_number}`,
+      '23505'
+    );
+
+    Object.assign(customer, updated);
+    this.persist();
+    return clone(customer);
+  }
+
+  // Calls survive with customer_id cleared (ON DELETE SET NULL); callbacks go with the customer
+  async deleteCustomer(id: string) {
+    const index = this.tables.customers.findIndex(c => c.id === id);
+    if (index < 0) return false;
+
+    this.tables.customers.splice(index, 1);
+    this.tables.callbacks = this.tables.callbacks.filter(c => c.customer_id !== id);
+    this.tables.survey_calls
+      .filter(c => c.customer_id === id)
+      .forEach(c => {
+        c.customer_id = undefined;
+      });
+    this.persist();
+    return true;
+  }
+
+  // Call operations
+  async createCall(call: NewCall) {
+    const now = new Date().toISOString();
+    const row: SurveyCall = {
+      id: crypto.randomUUID(),
+      survey_id: null,
+      survey_version_id: null,
+      failure_reason: null,
+      attempt_number: 1,
+      ...defined(call),
+      customer_first_name: call.customer_first_name,
+      customer_phone: call.customer_phone,
+      call_status: call.call_status,
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.validateCall(row);
+    this.tables.survey_calls.push(row);
+    this.persist();
+    return clone(row);
+  }
+
+  async updateCallStatus(callSid: string, status: SurveyCall['call_status'], duration?: number, failureReason?: string) {
+    const call = this.findCall(c => c.call_sid === callSid);
+    return this.applyCallUpdates(call, {
+      call_status: status,
+      call_duration: duration,
+      ...(failureReason !== undefined ? { failure_reason: failureReason } : {}),
+    });
+  }
+
+  async transitionCallStatus(callSid: string, from: SurveyCall['call_status'][], status: SurveyCall['call_status']) {
+    const call = this.tables.survey_calls.find(c => c.call_sid === callSid && from.includes(c.call_status));
+    return call ? this.applyCallUpdates(call, { call_status: status }) : null;
+  }
+
+  async updateCall(id: string, updates: CallUpdates) {
+    return this.applyCallUpdates(this.findCall(c => c.id === id), updates);
+  }
+
+  private applyCallUpdates(call: SurveyCall, updates: CallUpdates) {
+    const updated: SurveyCall = { ...call, ...defined(updates), updated_at: new Date().toISOString() };
+    this.validateCall(updated);
+
+    Object.assign(call, updated);
+    this.persist();
+    return clone(call);
+  }
+
+  async getCallById(id: string) {
+    const call = this.tables.survey_calls.find(c => c.id === id);
+    return call ? clone(call) : null;
+  }
+
+  async getCallBySid(callSid: string) {
+    const call = this.tables.survey_calls.find(c => c.call_sid === callSid);
+    return call ? clone(call) : null;
+  }
+
+  async getCalls() {
+    return [...this.tables.survey_calls].sort(byNewest('created_at')).map(clone);
+  }
+
+  async listCalls(filter: CallListFilter, page: PageRequest) {
+    return paginate(this.matchingCalls(filter), page);
+  }
+
+  async getCallCompatibilityGroups(filter: CallListFilter) {
+    const calls = new Map(this.matchingCalls(filter).map(c => [c.id, c]));
+    return this.compatibilityGroups(this.tables.survey_responses.filter(r => calls.has(r.call_id)));
+  }
+
+  async countCustomerCalls(customerId: string, campaignId?: string | null) {
+    return this.tables.survey_calls.filter(c =>
+      c.customer_id === customerId && (campaignId ? c.campaign_id === campaignId : !c.campaign_id)
+    ).length;
+  }
+
+  async getCalledCustomerIds(campaignId: string) {
+    return new Set(
+      this.tables.survey_calls
+        .filter(c => c.campaign_id === campaignId && c.customer_id)
+        .map(c => c.customer_id as string)
+    );
+  }
+
+  async countActiveCalls(since: Date, campaignId?: string) {
+    const sinceIso = since.toISOString();
+    return this.tables.survey_calls.filter(c =>
+      OPEN_CALL_STATUSES.includes(c.call_status)
+      && c.updated_at >= sinceIso
+      && (!campaignId || c.campaign_id === campaignId)
+    ).length;
+  }
+
+  async getStaleCalls(before: Date, limit: number) {
+    const beforeIso = before.toISOString();
+    return this.tables.survey_calls
+      .filter(c => OPEN_CALL_STATUSES.includes(c.call_status) && c.updated_at < beforeIso)
+      .sort(byOldest('updated_at'))
+      .slice(0, limit)
+      .map(clone);
+  }
+
+  async getOpenCallsByCampaign(campaignId: string) {
+    return this.tables.survey_calls
+      .filter(c => c.campaign_id === campaignId && OPEN_CALL_STATUSES.includes(c.call_status))
+      .map(clone);
+  }
+
+  async reassignCalls(fromCustomerIds: string[], toCustomerId: string) {
+    check(this.tables.customers.some(c => c.id === toCustomerId), `Customer ${toCustomerId} does not exist`, '23503');
+
+    const from = new Set(fromCustomerIds);
+    const calls = this.tables.survey_calls.filter(c => c.customer_id && from.has(c.customer_id));
+    const now = new Date().toISOString();
+    calls.forEach(c => {
+      c.customer_id = toCustomerId;
+      c.updated_at = now;
+    });
+    this.persist();
+    return calls.length;
+  }
+
+  // Response operations
+  async createResponse(response: NewResponse) {
+    const row: SurveyResponse = {
+      id: crypto.randomUUID(),
+      is_followup: false,
+      ...defined(response),
+      created_at: new Date().toISOString(),
+    } as SurveyResponse;
+
+    check(
+      row.question_number !== undefined && row.question_text !== undefined && row.response_text !== undefined,
+      'question_number, question_text and response_text are required',
+      '23502'
+    );
+    check(!row.response_sentiment || SENTIMENTS.includes(row.response_sentiment), `Invalid response_sentiment: ${row.response_sentiment}`, '23514');
+    check(!row.answer_type || ANSWER_TYPES.includes(row.answer_type), `Invalid answer_type: ${row.answer_type}`, '23514');
+    check(this.tables.survey_calls.some(c => c.id === row.call_id), `Call ${row.call_id} does not exist`, '23503');
+
+    this.tables.survey_responses.push(row);
+    this.persist();
+    return clone(row);
+  }
+
+  async getResponseById(id: string) {
+    const row = this.tables.survey_responses.find(r => r.id === id);
+    return row ? clone(row) : null;
+  }
+
+  async getResponsesByCallId(callId: string) {
+    return this.tables.survey_responses
+      .filter(r => r.call_id === callId)
+      .sort((a, b) => a.question_number - b.question_number)
+      .map(clone);
+  }
+
+  async getResponsesByCallIds(callIds: string[]) {
+    const wanted = new Set(callIds);
+    return this.tables.survey_responses
+      .filter(r => wanted.has(r.call_id))
+      .sort((a, b) => a.call_id.localeCompare(b.call_id) || a.question_number - b.question_number || a.created_at.localeCompare(b.created_at))
+      .map(clone);
+  }
+
+  async listResponses(filter: ResponseListFilter, page: PageRequest) {
+    const calls = new Map(this.tables.survey_calls.map(c => [c.id, c]));
+    const result = paginate(this.matchingResponses(filter), page);
+    return {
+      total: result.total,
+      rows: result.rows.map(response => withCall(response, calls.get(response.call_id)!)),
+    };
+  }
+
+  async getResponseCompatibilityGroups(filter: ResponseListFilter) {
+    return this.compatibilityGroups(this.matchingResponses(filter));
+  }
+
+  async updateResponseSentiment(id: string, sentiment: ResponseSentiment) {
+    const row = this.tables.survey_responses.find(r => r.id === id);
+    if (!row) return;
+
+    check(!sentiment.response_sentiment || SENTIMENTS.includes(sentiment.response_sentiment), `Invalid response_sentiment: ${sentiment.response_sentiment}`, '23514');
+    Object.assign(row, defined(sentiment));
+    this.persist();
+  }
+
+  async updateResponseAnswer(id: string, answer: ResponseAnswer) {
+    const row = this.tables.survey_responses.find(r => r.id === id);
+    if (!row) return null;
+
+    check(!answer.answer_type || ANSWER_TYPES.includes(answer.answer_type), `Invalid answer_type: ${answer.answer_type}`, '23514');
+    Object.assign(row, defined(answer));
+    this.persist();
+    return clone(row);
+  }
+
+  async deleteResponsesByCallId(callId: string) {
+    this.tables.survey_responses = this.tables.survey_responses.filter(r => r.call_id !== callId);
+    this.persist();
+  }
+
+  // Transcript operations
+  async saveTranscript(transcript: NewTranscript) {
+    check(this.tables.survey_calls.some(c => c.id === transcript.call_id), `Call ${transcript.call_id} does not exist`, '23503');
+
+    let row = this.tables.call_transcripts.find(t => t.call_id === transcript.call_id);
+    if (row) {
+      row.transcript = clone(transcript.transcript);
+    } else {
+      row = {
+        id: crypto.randomUUID(),
+        call_id: transcript.call_id,
+        transcript: clone(transcript.transcript),
+        created_at: new Date().toISOString(),
+      };
+      this.tables.call_transcripts.push(row);
+    }
+
+    this.persist();
+    return clone(row);
+  }
+
+  async getTranscriptByCallId(callId: string) {
+    const transcript = this.tables.call_transcripts.find(t => t.call_id === callId);
+    return transcript ? clone(transcript) : null;
+  }
+
+  // Survey version operations
+  async createSurveyVersion(version: NewSurveyVersion) {
+    check(version.version >= 1, `Invalid version: ${version.version}`, '23514');
+    check(
+      !this.tables.survey_versions.some(v => v.survey_id === version.survey_id && v.version === version.version),
+      `Duplicate version ${version.version} of survey ${version.survey_id}`,
+      '23505'
+    );
+
+    const row: SurveyVersion = {
+      ...clone(version),
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+    };
+    this.tables.survey_versions.push(row);
+    this.persist();
+    return clone(row);
+  }
+
+  async getLatestSurveyVersion(surveyId: string) {
+    const [latest] = await this.getSurveyVersions(surveyId);
+    return latest ?? null;
+  }
+
+  async getSurveyVersions(surveyId: string) {
+    return this.tables.survey_versions
+      .filter(v => v.survey_id === surveyId)
+      .sort((a, b) => b.version - a.version)
+      .map(clone);
+  }
+
+  async getSurveyVersion(surveyId: string, version: number) {
+    const row = this.tables.survey_versions.find(v => v.survey_id === surveyId && v.version === version);
+    return row ? clone(row) : null;
+  }
+
+  async getSurveyVersionsByIds(ids: string[]) {
+    const wanted = new Set(ids);
+    return this.tables.survey_versions.filter(v => wanted.has(v.id)).map(clone);
+  }
+
+  async getSurveyVersionsByCompatibilityKeys(keys: string[]) {
+    const wanted = new Set(keys);
+    return this.tables.survey_versions
+      .filter(v => wanted.has(v.compatibility_key))
+      .sort((a, b) => b.version - a.version)
+      .map(clone);
+  }
+
+  // Do-not-call operations
+  async getDoNotCallEntries() {
+    return [...this.tables.do_not_call].sort(byNewest('created_at')).map(clone);
+  }
+
+  async getDoNotCallEntry(phoneNumber: string) {
+    const entry = this.tables.do_not_call.find(e => e.phone_number === phoneNumber);
+    return entry ? clone(entry) : null;
+  }
+
+  async addDoNotCallEntries(entries: NewDoNotCallEntry[]) {
+    entries.forEach(entry => this.validateDoNotCallEntry(entry));
+
+    const inserted: DoNotCallEntry[] = [];
+    entries.forEach(entry => {
+      if (this.tables.do_not_call.some(e => e.phone_number === entry.phone_number)) return;
+
+      const row: DoNotCallEntry = {
+        reason: null,
+        source_call_id: null,
+        ...defined(entry),
+        id: crypto.randomUUID(),
+        phone_number: entry.phone_number,
+        source: entry.source || 'manual',
+        created_at: new Date().toISOString(),
+      };
+      this.tables.do_not_call.push(row);
+      inserted.push(row);
+    });
+
+    this.persist();
+    return inserted.map(clone);
+  }
+
+  async updateDoNotCallNumber(id: string, phoneNumber: string) {
+    const entry = this.tables.do_not_call.find(e => e.id === id);
+    check(!!entry, 'Do-not-call entry not found', 'PGRST116');
+    check(
+      !this.tables.do_not_call.some(e => e.phone_number === phoneNumber && e.id !== id),
+      `Duplicate phone_number: ${phoneNumber}`,
+      '23505'
+    );
+
+    entry!.phone_number = phoneNumber;
+    this.persist();
+    return clone(entry!);
+  }
+
+  async deleteDoNotCallEntry(id: string) {
+    const index = this.tables.do_not_call.findIndex(e => e.id === id);
+    if (index < 0) return false;
+
+    this.tables.do_not_call.splice(index, 1);
+    this.persist();
+    return true;
+  }
+
+  private validateDoNotCallEntry(entry: NewDoNotCallEntry) {
+    check(!!entry.phone_number, 'phone_number is required', '23502');
+    check(!entry.source || DO_NOT_CALL_SOURCES.includes(entry.source), `Invalid source: ${entry.source}`, '23514');
+    check(
+      !entry.source_call_id || this.tables.survey_calls.some(c => c.id === entry.source_call_id),
+      `Call ${entry.source_call_id} does not exist`,
+      '23503'
+    );
+  }
+
+  // Callback operations
+  async createCallback(callback: NewCallback) {
+    const now = new Date().toISOString();
+    const row: Callback = {
+      ...defined(callback),
+      customer_id: callback.customer_id,
+      scheduled_for: callback.scheduled_for,
+      timezone: callback.timezone,
+      status: callback.status || 'pending',
+      id: crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+    };
+    this.validateCallback(row);
+
+    this.tables.callbacks.push(row);
+    this.persist();
+    return clone(row);
+  }
+
+  async getCallbacks(filter: CallbackListFilter = {}) {
+    const customers = new Map(this.tables.customers.map(c => [c.id, c]));
+    return this.tables.callbacks
+      .filter(c =>
+        (!filter.status || c.status === filter.status)
+        && (!filter.campaignId || c.campaign_id === filter.campaignId)
+        && (!filter.customerId || c.customer_id === filter.customerId)
+      )
+      .sort(byOldest('scheduled_for'))
+      .map((callback): CallbackWithCustomer => {
+        const customer = customers.get(callback.customer_id);
+        return {
+          ...clone(callback),
+          customers: customer ? {
+            first_name: customer.first_name,
+            last_name: customer.last_name,
+            phone_number: customer.phone_number,
+            company_name: customer.company_name,
+          } : null,
+        };
+      });
+  }
+
+  async getCallbackById(id: string) {
+    const callback = this.tables.callbacks.find(c => c.id === id);
+    return callback ? clone(callback) : null;
+  }
+
+  async getCallbackBySourceCall(callId: string) {
+    const callback = this.tables.callbacks.find(c => c.source_call_id === callId);
+    return callback ? clone(callback) : null;
+  }
+
+  async countPendingCallbacks(customerId: string) {
+    return this.tables.callbacks.filter(c => c.customer_id === customerId && c.status === 'pending').length;
+  }
+
+  async reassignCallbacks(fromCustomerIds: string[], toCustomerId: string) {
+    check(this.tables.customers.some(c => c.id === toCustomerId), `Customer ${toCustomerId} does not exist`, '23503');
+
+    const from = new Set(fromCustomerIds);
+    const callbacks = this.tables.callbacks.filter(c => from.has(c.customer_id));
+    const now = new Date().toISOString();
+    callbacks.forEach(c => {
+      c.customer_id = toCustomerId;
+      c.updated_at = now;
+    });
+    this.persist();
+    return callbacks.length;
+  }
+
+  async updateCallback(id: string, updates: CallbackUpdates) {
+    const callback = this.tables.callbacks.find(c => c.id === id);
+    check(!!callback, 'Callback not found', 'PGRST116');
+
+    const updated: Callback = { ...callback!, ...defined(updates), updated_at: new Date().toISOString() };
+    this.validateCallback(updated);
+
+    Object.assign(callback!, updated);
+    this.persist();
+    return clone(callback!);
+  }
+
+  private validateCallback(callback: Callback) {
+    check(!!callback.scheduled_for && !!callback.timezone, 'scheduled_for and timezone are required', '23502');
+    check(CALLBACK_STATUSES.includes(callback.status), `Invalid status: ${callback.status}`, '23514');
+    check(this.tables.customers.some(c => c.id === callback.customer_id), `Customer ${callback.customer_id} does not exist`, '23503');
+    check(
+      !callback.source_call_id || !this.tables.callbacks.some(c => c.source_call_id === callback.source_call_id && c.id !== callback.id),
+      `Duplicate source_call_id: ${callback.source_call_id}`,
+      '23505'
+    );
+  }
+
+  // Analytics
+  async getCallSummary(filter: AnalyticsFilter = {}) {
+    return summarizeCallCounts(countCalls(this.analyticsCalls(filter)));
+  }
+
+  async getCampaignCallSummaries(filter: AnalyticsFilter = {}) {
+    const byCampaign = new Map<string | null, SurveyCall[]>();
+    this.analyticsCalls(filter).forEach(call => {
+      const key = call.campaign_id ?? null;
+      if (!byCampaign.has(key)) byCampaign.set(key, []);
+      byCampaign.get(key)!.push(call);
+    });
+
+    return Array.from(byCampaign.entries()).map(([campaignId, calls]): CampaignCallSummary => ({
+      campaign_id: campaignId,
+      ...summarizeCallCounts(countCalls(calls)),
+    }));
+  }
+
+  async getQuestionStats(filter: AnalyticsFilter = {}) {
+    const { responses, keys } = await this.analyticsResponses(filter);
+    const completedKeys = await this.compatibilityKeys(this.analyticsCalls(filter).filter(call => call.call_status === 'completed'));
+    const completed = new Map<string | null, number>();
+    completedKeys.forEach(key => completed.set(key, (completed.get(key) || 0) + 1));
+    const stats = new Map<string, QuestionStats & { calls: Set<string> }>();
+
+    responses.forEach(response => {
+      const compatibilityKey = keys.get(response.call_id) ?? null;
+      const id = JSON.stringify([compatibilityKey, response.question_number]);
+      if (!stats.has(id)) {
+        stats.set(id, {
+          compatibility_key: compatibilityKey,
+          question_number: response.question_number,
+          answered_calls: 0,
+          completed_calls: completed.get(compatibilityKey) || 0,
+          positive: 0,
+          neutral: 0,
+          negative: 0,
+          unscored: 0,
+          follow_ups: 0,
+          calls: new Set(),
+        });
+      }
+      const question = stats.get(id)!;
+      if (response.is_followup) {
+        question.follow_ups++;
+        return;
+      }
+      question.calls.add(response.call_id);
+      question[response.response_sentiment || 'unscored']++;
+    });
+
+    return Array.from(stats.values())
+      .sort(byQuestion)
+      .map(({ calls, ...question }) => ({ ...question, answered_calls: calls.size }));
+  }
+
+  async getDropOff(filter: AnalyticsFilter = {}) {
+    const lastQuestion = new Map<string, number | null>();
+    this.analyticsCalls(filter)
+      .filter(call => call.call_status === 'completed')
+      .forEach(call => lastQuestion.set(call.id, null));
+    this.tables.survey_responses.forEach(response => {
+      if (!lastQuestion.has(response.call_id)) return;
+      lastQuestion.set(response.call_id, Math.max(lastQuestion.get(response.call_id) ?? 0, response.question_number));
+    });
+
+    const counts = new Map<number | null, number>();
+    lastQuestion.forEach(question => counts.set(question, (counts.get(question) || 0) + 1));
+    return Array.from(counts.entries())
+      .map(([question, calls]): DropOffPoint => ({ last_question: question, calls }))
+      .sort((a, b) => (a.last_question ?? -1) - (b.last_question ?? -1));
+  }
+
+  async getAnswerCounts(filter: AnalyticsFilter = {}) {
+    const { responses, keys } = await this.analyticsResponses(filter);
+    const counts = new Map<string, AnswerCount>();
+
+    responses
+      .filter(r => r.answer_type && !r.is_followup)
+      .forEach(response => {
+        const compatibilityKey = keys.get(response.call_id) ?? null;
+        const value = typeof response.answer_value === 'number'
+          ? durationBucket(response.answer_value)
+          : response.answer_value ?? null;
+        const key = JSON.stringify([compatibilityKey, response.question_number, response.answer_type, value]);
+        if (!counts.has(key)) {
+          counts.set(key, {
+            compatibility_key: compatibilityKey,
+            question_number: response.question_number,
+            answer_type: response.answer_type!,
+            answer_value: value,
+            answers: 0,
+            needs_review: 0,
+          });
+        }
+        const count = counts.get(key)!;
+        count.answers++;
+        if (response.needs_review) count.needs_review++;
+      });
+
+    // Unrecognised answers last, as NULLs sort in Postgres
+    return Array.from(counts.values()).sort((a, b) =>
+      byQuestion(a, b)
+      || a.answer_type.localeCompare(b.answer_type)
+      || (a.answer_value === null ? 1 : 0) - (b.answer_value === null ? 1 : 0)
+      || (a.answer_value ?? '').localeCompare(b.answer_value ?? '')
+    );
+  }
+
+  async getDurationStats(filter: AnalyticsFilter = {}) {
+    const { responses, keys } = await this.analyticsResponses(filter);
+    const months = new Map<string, { compatibility_key: string | null; question_number: number; values: number[] }>();
+
+    responses
+      .filter(r => r.answer_type === 'duration' && typeof r.answer_value === 'number' && !r.is_followup)
+      .forEach(response => {
+        const compatibilityKey = keys.get(response.call_id) ?? null;
+        const key = JSON.stringify([compatibilityKey, response.question_number]);
+        if (!months.has(key)) {
+          months.set(key, { compatibility_key: compatibilityKey, question_number: response.question_number, values: [] });
+        }
+        months.get(key)!.values.push(response.answer_value as number);
+      });
+
+    const round = (value: number) => Math.round(value * 10) / 10;
+    return Array.from(months.values())
+      .sort(byQuestion)
+      .map(({ compatibility_key, question_number, values }): DurationStats => {
+        const sorted = [...values].sort((a, b) => a - b);
+        const middle = (sorted.length - 1) / 2;
+        return {
+          compatibility_key,
+          question_number,
+          answers: values.length,
+          median_months: round((sorted[Math.floor(middle)] + sorted[Math.ceil(middle)]) / 2),
+          average_months: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+        };
+      });
+  }
+
+  async getCallTimeSeries(filter: AnalyticsFilter, interval: TimeSeriesInterval, timezone: string) {
+    const periods = new Map<string, TimeSeriesPoint>();
+
+    this.analyticsCalls(filter).forEach(call => {
+      const local = getLocalTime(new Date(call.created_at), timezone);
+      const period = interval === 'week' ? addDays(local.date, 1 - local.weekday) : local.date;
+      if (!periods.has(period)) {
+        periods.set(period, { period, total_calls: 0, completed_calls: 0, failed_calls: 0, no_answer_calls: 0 });
+      }
+      const point = periods.get(period)!;
+      point.total_calls++;
+      if (call.call_status === 'completed') point.completed_calls++;
+      if (call.call_status === 'failed') point.failed_calls++;
+      if (call.call_status === 'no-answer') point.no_answer_calls++;
+    });
+
+    return Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period));
+  }
+
+  async getVersionComparison(filter: { campaignId?: string; surveyId?: string }) {
+    const calls = new Map(this.tables.survey_calls
+      .filter(c => !filter.campaignId || c.campaign_id === filter.campaignId)
+      .map(c => [c.id, c]));
+    const versions = new Map(this.tables.survey_versions.map(v => [v.id, v]));
+    const surveyOf = (call: SurveyCall) => versions.get(call.survey_version_id as string)?.survey_id ?? call.survey_id ?? null;
+
+    const groups = new Map<string | null, { survey_id: string | null; calls: Set<string>; questions: Map<number, VersionQuestionStats> }>();
+    this.tables.survey_responses.forEach(response => {
+      const call = calls.get(response.call_id);
+      if (!call || (filter.surveyId && surveyOf(call) !== filter.surveyId)) return;
+
+      const versionId = call.survey_version_id ?? null;
+      if (!groups.has(versionId)) groups.set(versionId, { survey_id: surveyOf(call), calls: new Set(), questions: new Map() });
+      const group = groups.get(versionId)!;
+      group.calls.add(call.id);
+      if (!group.questions.has(response.question_number)) {
+        group.questions.set(response.question_number, {
+          survey_version_id: versionId,
+          survey_id: group.survey_id,
+          calls: 0,
+          question_number: response.question_number,
+          question_text: response.question_text,
+          responses: 0,
+          positive: 0,
+          neutral: 0,
+          negative: 0,
+        });
+      }
+      const question = group.questions.get(response.question_number)!;
+      question.responses++;
+      if (response.response_sentiment) question[response.response_sentiment]++;
+    });
+
+    return Array.from(groups.values())
+      .flatMap(group => Array.from(group.questions.values()).map(question => ({ ...question, calls: group.calls.size })))
+      .sort((a, b) => (a.survey_version_id === null ? 0 : 1) - (b.survey_version_id === null ? 0 : 1)
+        || (a.survey_version_id ?? '').localeCompare(b.survey_version_id ?? '')
+        || a.question_number - b.question_number);
+  }
+
+  // Responses of the analytics calls, and the compatibility key of each answered call
+  private async analyticsResponses(filter: AnalyticsFilter) {
+    const calls = this.analyticsCalls(filter);
+    const callIds = new Set(calls.map(call => call.id));
+    const responses = this.tables.survey_responses.filter(r => callIds.has(r.call_id));
+    const answeredIds = new Set(responses.map(r => r.call_id));
+    return { responses, keys: await this.compatibilityKeys(calls.filter(call => answeredIds.has(call.id))) };
+  }
+
+  private analyticsCalls(filter: AnalyticsFilter) {
+    return this.tables.survey_calls.filter(c =>
+      (!filter.campaignId || c.campaign_id === filter.campaignId)
+      && inRange(c.created_at, filter.from, filter.to)
+    );
+  }
+
+  private matchingResponses(filter: ResponseListFilter) {
+    const calls = new Map(this.tables.survey_calls.map(c => [c.id, c]));
+    return this.tables.survey_responses.filter(r => {
+      const call = calls.get(r.call_id);
+      return !!call
+        && (!filter.campaignId || call.campaign_id === filter.campaignId)
+        && (!filter.surveyVersionIds || filter.surveyVersionIds.includes(call.survey_version_id as string))
+        && (!filter.sentiments || filter.sentiments.includes(r.response_sentiment!))
+        && (!filter.questionNumbers || filter.questionNumbers.includes(r.question_number))
+        && (filter.followUp === undefined || (r.is_followup ?? false) === filter.followUp)
+        && (filter.needsReview === undefined || (r.needs_review ?? false) === filter.needsReview)
+        && inRange(r.created_at, filter.from, filter.to)
+        && matchesSearch(filter.search, [call.customer_first_name, call.customer_phone]);
+    });
+  }
+
+  // Responses by the compatibility key of their calls' questions
+  private async compatibilityGroups(responses: SurveyResponse[]): Promise<CompatibilityGroup[]> {
+    const callIds = new Set(responses.map(r => r.call_id));
+    const keys = await this.compatibilityKeys(this.tables.survey_calls.filter(c => callIds.has(c.id)));
+    const calls = new Map(this.tables.survey_calls.map(c => [c.id, c]));
+
+    const groups = new Map<string | null, { versions: Set<string>; responses: number }>();
+    responses.forEach(response => {
+      const key = keys.get(response.call_id) ?? null;
+      if (!groups.has(key)) groups.set(key, { versions: new Set(), responses: 0 });
+      const group = groups.get(key)!;
+      const versionId = calls.get(response.call_id)!.survey_version_id;
+      if (versionId) group.versions.add(versionId);
+      group.responses++;
+    });
+
+    return Array.from(groups.entries())
+      .map(([key, group]): CompatibilityGroup => ({
+        compatibility_key: key,
+        survey_version_ids: Array.from(group.versions),
+        responses: group.responses,
+      }))
+      .sort((a, b) => (a.compatibility_key === null ? 1 : 0) - (b.compatibility_key === null ? 1 : 0)
+        || (a.compatibility_key ?? '').localeCompare(b.compatibility_key ?? ''));
+  }
+
+  private matchingCalls(filter: CallListFilter): SurveyCall[] {
+    return this.tables.survey_calls.filter(c =>
+      (!filter.campaignId || c.campaign_id === filter.campaignId)
+      && (!filter.customerId || c.customer_id === filter.customerId)
+      && (!filter.surveyVersionIds || filter.surveyVersionIds.includes(c.survey_version_id as string))
+      && (!filter.statuses || filter.statuses.includes(c.call_status))
+      && inRange(c.created_at, filter.from, filter.to)
+      && matchesSearch(filter.search, [c.customer_first_name, c.customer_phone])
+    );
+  }
+
+  // Compatibility key of each call's questions, worked out as call_compatibility_key() in supabase-schema.sql.
+  // Campaigns are read from Supabase; offline there are none, and a call without a survey ran the default one.
+  private async compatibilityKeys(calls: SurveyCall[]): Promise<Map<string, string | null>> {
+    const recorded = new Map(this.tables.survey_versions.map(v => [v.id, v]));
+    const versionsOf = (surveyId: string) => this.tables.survey_versions.filter(v => v.survey_id === surveyId);
+    const campaignSurveys = new Map<string, Promise<string | null>>();
+    const surveyOfCampaign = (campaignId: string) => {
+      if (!isSupabaseConfigured()) return Promise.resolve(null);
+      if (!campaignSurveys.has(campaignId)) {
+        campaignSurveys.set(campaignId, supabaseService.getCampaignById(campaignId).then(campaign => campaign?.survey_id ?? null));
+      }
+      return campaignSurveys.get(campaignId)!;
+    };
+
+    const answers = new Map<string, SurveyResponse[]>();
+    this.tables.survey_responses.forEach(r => {
+      if (!answers.has(r.call_id)) answers.set(r.call_id, []);
+      answers.get(r.call_id)!.push(r);
+    });
+
+    const keys = new Map<string, string | null>();
+    for (const call of calls) {
+      if (call.survey_version_id) {
+        keys.set(call.id, recorded.get(call.survey_version_id)?.compatibility_key ?? null);
+        continue;
+      }
+
+      const surveyId = call.survey_id || (call.campaign_id ? await surveyOfCampaign(call.campaign_id) : null) || DEFAULT_SURVEY_ID;
+      const fitting = new Set(versionsOf(surveyId)
+        .filter(version => (answers.get(call.id) || []).every(answer => version.definition.questions.some(question =>
+          question.number === answer.question_number && question.text === answer.question_text
+        )))
+        .map(version => version.compatibility_key));
+      keys.set(call.id, fitting.size === 1 ? Array.from(fitting)[0] : null);
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,348 @@
+import { AnswerType, Customer, SurveyCall, SurveyResponse, CallTranscript, SurveyVersion, DoNotCallEntry, Callback } from '../services/supabaseService';
+
+export type NewCustomer = Omit<Customer, 'id' | 'uploaded_at'>;
+export type CustomerUpdates = Partial<Omit<Customer, 'id' | 'uploaded_at' | 'campaign_id'>> & { campaign_id?: string | null };
+export type NewCall = Omit<SurveyCall, 'id' | 'created_at' | 'updated_at'>;
+export type CallUpdates = Partial<Omit<SurveyCall, 'id' | 'created_at' | 'updated_at'>>;
+export type NewResponse = Omit<SurveyResponse, 'id' | 'created_at'>;
+export type ResponseSentiment = Pick<SurveyResponse, 'response_sentiment' | 'sentiment_score' | 'sentiment_confidence'>;
+export type ResponseAnswer = Pick<SurveyResponse, 'answer_type' | 'answer_value' | 'answer_confidence' | 'needs_review' | 'answer_reviewed_at'>;
+export type NewTranscript = Omit<CallTranscript, 'id' | 'created_at'>;
+export type NewSurveyVersion = Omit<SurveyVersion, 'id' | 'created_at'>;
+export type NewDoNotCallEntry = Omit<DoNotCallEntry, 'id' | 'created_at'>;
+export type NewCallback = Omit<Callback, 'id' | 'created_at' | 'updated_at'>;
+export type CallbackUpdates = Partial<NewCallback>;
+
+// Response joined with the call fields reports filter and group on
+export type ResponseWithCall = SurveyResponse & {
+  survey_calls: Pick<SurveyCall, 'campaign_id' | 'survey_id' | 'survey_version_id'>;
+};
+
+// Callback joined with the customer to call
+export type CallbackWithCustomer = Callback & {
+  customers: Pick<Customer, 'first_name' | 'last_name' | 'phone_number' | 'company_name'> | null;
+};
+
+// Values allowed by the check constraints in supabase-schema.sql
+export const CONTACT_STATUSES: readonly NonNullable<Customer['contact_status']>[] = ['pending', 'in-progress', 'retry-scheduled', 'reached', 'attempts-exhausted', 'not-reached', 'do-not-call', 'callback-scheduled'];
+export const CALL_STATUSES: readonly SurveyCall['call_status'][] = ['queued', 'in-progress', 'completed', 'failed', 'no-answer'];
+export const SENTIMENTS: readonly NonNullable<SurveyResponse['response_sentiment']>[] = ['positive', 'neutral', 'negative'];
+export const ANSWER_TYPES: readonly AnswerType[] = ['duration', 'yes_no', 'category'];
+export const DO_NOT_CALL_SOURCES: readonly DoNotCallEntry['source'][] = ['manual', 'import', 'opt-out'];
+export const CALLBACK_STATUSES: readonly Callback['status'][] = ['pending', 'dialed', 'failed', 'cancelled'];
+
+export type YesNoAnswer = 'yes' | 'no' | 'unsure';
+export const YES_NO_ANSWERS: readonly YesNoAnswer[] = ['yes', 'no', 'unsure'];
+
+// Ranges duration answers are counted in, shortest first; report_answer_stats uses the same labels and bounds
+export const DURATION_BUCKETS: ReadonlyArray<{ label: string; belowMonths: number }> = [
+  { label: 'under 1 year', belowMonths: 12 },
+  { label: '1-2 years', belowMonths: 24 },
+  { label: '2-5 years', belowMonths: 60 },
+  { label: '5-10 years', belowMonths: 120 },
+  { label: '10+ years', belowMonths: Infinity },
+];
+
+// Columns list endpoints may sort by
+export const CUSTOMER_COLUMNS = ['id', 'first_name', 'last_name', 'phone_number', 'company_name', 'uploaded_at', 'campaign_id', 'timezone', 'contact_status'];
+export const CALL_COLUMNS = ['id', 'customer_first_name', 'customer_phone', 'call_sid', 'customer_id', 'campaign_id', 'survey_id', 'survey_version_id', 'call_status', 'call_duration', 'failure_reason', 'attempt_number', 'created_at', 'updated_at'];
+export const RESPONSE_COLUMNS = ['id', 'call_id', 'question_number', 'question_text', 'response_text', 'response_sentiment', 'sentiment_score', 'sentiment_confidence', 'answer_type', 'answer_confidence', 'needs_review', 'answer_reviewed_at', 'response_timestamp', 'is_followup', 'created_at'];
+
+// One page of a list; `sort` is a column of the listed table
+export interface PageRequest {
+  limit: number;
+  offset: number;
+  sort: string;
+  ascending: boolean;
+}
+
+export interface Page<T> {
+  rows: T[];
+  total: number;
+}
+
+// Date bounds are ISO timestamps: `from` inclusive, `to` exclusive
+export interface CustomerListFilter {
+  campaignId?: string;
+  statuses?: NonNullable<Customer['contact_status']>[];
+  from?: string;
+  to?: string;
+  search?: string; // Name, company or phone number
+}
+
+export interface CallbackListFilter {
+  status?: Callback['status'];
+  campaignId?: string;
+  customerId?: string;
+}
+
+export interface CallListFilter {
+  campaignId?: string;
+  customerId?: string;
+  surveyVersionIds?: string[];
+  statuses?: SurveyCall['call_status'][];
+  from?: string;
+  to?: string;
+  search?: string; // Customer name or phone number
+}
+
+export interface ResponseListFilter {
+  campaignId?: string;
+  surveyVersionIds?: string[];
+  sentiments?: NonNullable<SurveyResponse['response_sentiment']>[];
+  questionNumbers?: number[];
+  followUp?: boolean;
+  needsReview?: boolean;
+  from?: string;
+  to?: string;
+  search?: string; // Customer name or phone number on the call
+}
+
+// Responses whose calls asked the same questions in the same words
+export interface CompatibilityGroup {
+  compatibility_key: string | null; // Null for calls dialed before versions were recorded that fit no single version
+  survey_version_ids: string[]; // Versions the calls recorded
+  responses: number;
+}
+
+export interface CallSummary {
+  total_calls: number;
+  completed_calls: number;
+  failed_calls: number;
+  no_answer_calls: number;
+  completion_rate: number;
+  average_duration: number;
+  customers_attempted: number;
+  first_attempt_reach_rate: number;
+  eventual_reach_rate: number;
+  retry_calls: number;
+}
+
+// Calls to aggregate over: one campaign and/or a created_at range (end exclusive)
+export interface AnalyticsFilter {
+  campaignId?: string;
+  from?: string;
+  to?: string;
+}
+
+// Raw counts a CallSummary is derived from, as the database aggregates them
+export interface CallCounts {
+  total_calls: number;
+  completed_calls: number;
+  failed_calls: number;
+  no_answer_calls: number;
+  completed_duration: number; // Seconds across completed calls
+  customers_attempted: number;
+  customers_reached_first_attempt: number;
+  customers_reached: number;
+  retry_calls: number;
+}
+
+export interface CampaignCallSummary extends CallSummary {
+  campaign_id: string | null; // Null for calls outside any campaign
+}
+
+export interface QuestionStats {
+  compatibility_key: string | null; // Of the survey versions that asked it; null as in CompatibilityGroup
+  question_number: number;
+  answered_calls: number; // Calls with a main answer to the question
+  completed_calls: number; // Completed calls with the same compatibility key, for the answer rate
+  positive: number;
+  neutral: number;
+  negative: number;
+  unscored: number;
+  follow_ups: number; // Follow-up answers recorded against the question
+}
+
+export interface DropOffPoint {
+  last_question: number | null; // Last question answered on a completed call; null when none was
+  calls: number;
+}
+
+// Main answers to a question with one extracted value
+export interface AnswerCount {
+  compatibility_key: string | null; // As in QuestionStats
+  question_number: number;
+  answer_type: AnswerType;
+  answer_value: string | null; // yes/no/unsure, a category, or a DURATION_BUCKETS label; null when nothing was recognised
+  answers: number;
+  needs_review: number;
+}
+
+export interface DurationStats {
+  compatibility_key: string | null; // As in QuestionStats
+  question_number: number;
+  answers: number; // Main answers with a duration
+  median_months: number;
+  average_months: number;
+}
+
+// Responses to one question of one survey version; calls dialed before versions were recorded share a null version
+export interface VersionQuestionStats {
+  survey_version_id: string | null;
+  survey_id: string | null;
+  calls: number; // Calls of the version with a response to any question
+  question_number: number;
+  question_text: string; // As stored with the responses
+  responses: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+export type TimeSeriesInterval = 'day' | 'week';
+export const TIME_SERIES_INTERVALS: readonly TimeSeriesInterval[] = ['day', 'week'];
+
+export interface TimeSeriesPoint {
+  period: string; // YYYY-MM-DD: the local day, or the Monday starting the week
+  total_calls: number;
+  completed_calls: number;
+  failed_calls: number;
+  no_answer_calls: number;
+}
+
+export interface CustomerRepository {
+  createCustomer(customer: NewCustomer): Promise<Customer>;
+  createCustomers(customers: NewCustomer[]): Promise<Customer[]>; // All or nothing
+  upsertCustomers(customers: NewCustomer[]): Promise<Customer[]>; // Insert, or overwrite the customer with the same phone_number
+  getCustomers(): Promise<Customer[]>; // Newest upload first
+  listCustomers(filter: CustomerListFilter, page: PageRequest): Promise<Page<Customer>>;
+  getCustomerById(id: string): Promise<Customer | null>;
+  getCustomersByIds(ids: string[]): Promise<Customer[]>;
+  getCustomersByPhoneNumbers(phoneNumbers: string[]): Promise<Customer[]>;
+  getCustomersByCampaign(campaignId: string): Promise<Customer[]>;
+  updateCustomerContactStatus(id: string, contactStatus: NonNullable<Customer['contact_status']>): Promise<void>;
+  assignCustomersToCampaign(customerIds: string[], campaignId: string | null): Promise<Customer[]>;
+  updateCustomer(id: string, updates: CustomerUpdates): Promise<Customer | null>;
+  deleteCustomer(id: string): Promise<boolean>; // Calls keep their customer snapshot and lose the link
+}
+
+export interface CallRepository {
+  createCall(call: NewCall): Promise<SurveyCall>;
+  updateCallStatus(callSid: string, status: SurveyCall['call_status'], duration?: number, failureReason?: string): Promise<SurveyCall>;
+  updateCall(id: string, updates: CallUpdates): Promise<SurveyCall>;
+  transitionCallStatus(callSid: string, from: SurveyCall['call_status'][], status: SurveyCall['call_status']): Promise<SurveyCall | null>; // Null unless the call was in `from`
+  getCallById(id: string): Promise<SurveyCall | null>;
+  getCallBySid(callSid: string): Promise<SurveyCall | null>;
+  getCalls(): Promise<SurveyCall[]>; // Newest first
+  listCalls(filter: CallListFilter, page: PageRequest): Promise<Page<SurveyCall>>;
+  getCallCompatibilityGroups(filter: CallListFilter): Promise<CompatibilityGroup[]>; // Responses of every call in the filter
+  countCustomerCalls(customerId: string, campaignId?: string | null): Promise<number>;
+  getCalledCustomerIds(campaignId: string): Promise<Set<string>>;
+  countActiveCalls(since: Date, campaignId?: string): Promise<number>;
+  getStaleCalls(before: Date, limit: number): Promise<SurveyCall[]>;
+  getOpenCallsByCampaign(campaignId: string): Promise<SurveyCall[]>;
+  reassignCalls(fromCustomerIds: string[], toCustomerId: string): Promise<number>;
+}
+
+// Aggregates over calls and responses, computed by the storage backend
+export interface AnalyticsRepository {
+  getCallSummary(filter?: AnalyticsFilter): Promise<CallSummary>;
+  getCampaignCallSummaries(filter?: AnalyticsFilter): Promise<CampaignCallSummary[]>; // Campaigns with calls in the filter
+  getQuestionStats(filter?: AnalyticsFilter): Promise<QuestionStats[]>; // By question number, then compatibility key (nulls last)
+  getDropOff(filter?: AnalyticsFilter): Promise<DropOffPoint[]>; // No answers first, then by question number
+  getAnswerCounts(filter?: AnalyticsFilter): Promise<AnswerCount[]>; // By question number, compatibility key, answer type, then value
+  getDurationStats(filter?: AnalyticsFilter): Promise<DurationStats[]>; // By question number, then compatibility key
+  getCallTimeSeries(filter: AnalyticsFilter, interval: TimeSeriesInterval, timezone: string): Promise<TimeSeriesPoint[]>; // Periods with calls, oldest first
+  getVersionComparison(filter: { campaignId?: string; surveyId?: string }): Promise<VersionQuestionStats[]>; // By version (null first), then question number
+}
+
+export interface ResponseRepository {
+  createResponse(response: NewResponse): Promise<SurveyResponse>;
+  getResponseById(id: string): Promise<SurveyResponse | null>;
+  getResponsesByCallId(callId: string): Promise<SurveyResponse[]>;
+  getResponsesByCallIds(callIds: string[]): Promise<SurveyResponse[]>; // By call, question, then time given
+  listResponses(filter: ResponseListFilter, page: PageRequest): Promise<Page<ResponseWithCall>>;
+  getResponseCompatibilityGroups(filter: ResponseListFilter): Promise<CompatibilityGroup[]>; // Over every response in the filter
+  updateResponseSentiment(id: string, sentiment: ResponseSentiment): Promise<void>;
+  updateResponseAnswer(id: string, answer: ResponseAnswer): Promise<SurveyResponse | null>;
+  deleteResponsesByCallId(callId: string): Promise<void>;
+}
+
+export interface TranscriptRepository {
+  saveTranscript(transcript: NewTranscript): Promise<CallTranscript>;
+  getTranscriptByCallId(callId: string): Promise<CallTranscript | null>;
+}
+
+// Definitions as they were dialed; a survey's versions are numbered from 1 and never change
+export interface SurveyVersionRepository {
+  createSurveyVersion(version: NewSurveyVersion): Promise<SurveyVersion>;
+  getLatestSurveyVersion(surveyId: string): Promise<SurveyVersion | null>;
+  getSurveyVersions(surveyId: string): Promise<SurveyVersion[]>; // Newest first
+  getSurveyVersion(surveyId: string, version: number): Promise<SurveyVersion | null>;
+  getSurveyVersionsByIds(ids: string[]): Promise<SurveyVersion[]>;
+  getSurveyVersionsByCompatibilityKeys(keys: string[]): Promise<SurveyVersion[]>; // Newest first
+}
+
+export interface DoNotCallRepository {
+  getDoNotCallEntries(): Promise<DoNotCallEntry[]>; // Newest first
+  getDoNotCallEntry(phoneNumber: string): Promise<DoNotCallEntry | null>;
+  addDoNotCallEntries(entries: NewDoNotCallEntry[]): Promise<DoNotCallEntry[]>; // Numbers already listed are left as they are and not returned
+  updateDoNotCallNumber(id: string, phoneNumber: string): Promise<DoNotCallEntry>;
+  deleteDoNotCallEntry(id: string): Promise<boolean>;
+}
+
+export interface CallbackRepository {
+  createCallback(callback: NewCallback): Promise<Callback>;
+  getCallbacks(filter?: CallbackListFilter): Promise<CallbackWithCustomer[]>; // Soonest first
+  getCallbackById(id: string): Promise<Callback | null>;
+  getCallbackBySourceCall(callId: string): Promise<Callback | null>;
+  countPendingCallbacks(customerId: string): Promise<number>;
+  reassignCallbacks(fromCustomerIds: string[], toCustomerId: string): Promise<number>;
+  updateCallback(id: string, updates: CallbackUpdates): Promise<Callback>;
+}
+
+// Storage for the core survey data and the records dialing and call outcomes read and write; campaigns, the
+// queue and the rest remain on supabaseService
+export interface DataRepository extends CustomerRepository, CallRepository, ResponseRepository, TranscriptRepository, AnalyticsRepository,
+  SurveyVersionRepository, DoNotCallRepository, CallbackRepository {}
+
+// Summary figures from call counts, shared by every backend
+export function summarizeCallCounts(counts: CallCounts): CallSummary {
+  const completionRate = counts.total_calls > 0 ? (counts.completed_calls / counts.total_calls) * 100 : 0;
+  const averageDuration = counts.completed_calls > 0 ? counts.completed_duration / counts.completed_calls : 0;
+
+  // Reach rates are per customer: reached on the first attempt vs. on any attempt
+  const rate = (count: number) => counts.customers_attempted > 0
+    ? Math.round((count / counts.customers_attempted) * 10000) / 100
+    : 0;
+
+  return {
+    total_calls: counts.total_calls,
+    completed_calls: counts.completed_calls,
+    failed_calls: counts.failed_calls,
+    no_answer_calls: counts.no_answer_calls,
+    completion_rate: Math.round(completionRate * 100) / 100,
+    average_duration: Math.round(averageDuration),
+    customers_attempted: counts.customers_attempted,
+    first_attempt_reach_rate: rate(counts.customers_reached_first_attempt),
+    eventual_reach_rate: rate(counts.customers_reached),
+    retry_calls: counts.retry_calls
+  };
+}
+
+// Bucket label for a duration answer, matching report_answer_stats
+export function durationBucket(months: number): string {
+  return DURATION_BUCKETS.find(bucket => months < bucket.belowMonths)!.label;
+}
+
+// Counts for a set of calls held in memory, matching report_call_counts
+export function countCalls(calls: Array<Pick<SurveyCall, 'call_status' | 'call_duration' | 'customer_id' | 'attempt_number'>>): CallCounts {
+  const completed = calls.filter(c => c.call_status === 'completed');
+  const customerCalls = calls.filter(c => c.customer_id);
+  const reachedCalls = customerCalls.filter(c => c.call_status === 'completed');
+
+  return {
+    total_calls: calls.length,
+    completed_calls: completed.length,
+    failed_calls: calls.filter(c => c.call_status === 'failed').length,
+    no_answer_calls: calls.filter(c => c.call_status === 'no-answer').length,
+    completed_duration: completed.reduce((sum, c) => sum + (c.call_duration || 0), 0),
+    customers_attempted: new Set(customerCalls.map(c => c.customer_id)).size,
+    customers_reached_first_attempt: new Set(
+      reachedCalls.filter(c => (c.attempt_number || 1) === 1).map(c => c.customer_id)
+    ).size,
+    customers_reached: new Set(reachedCalls.map(c => c.customer_id)).size,
+    retry_calls: calls.filter(c => (c.attempt_number || 1) > 1).length,
+  };
+}
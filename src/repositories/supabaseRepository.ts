@@ -0,0 +1,915 @@
+import { getSupabase, fetchAllRows, Customer, SurveyCall, SurveyResponse, CallTranscript, SurveyVersion, DoNotCallEntry, Callback } from '../services/supabaseService';
+import {
+  DataRepository,
+  NewCustomer,
+  CustomerUpdates,
+  NewCall,
+  CallUpdates,
+  NewResponse,
+  NewTranscript,
+  NewSurveyVersion,
+  NewDoNotCallEntry,
+  NewCallback,
+  CallbackUpdates,
+  CallbackListFilter,
+  CallbackWithCustomer,
+  ResponseWithCall,
+  PageRequest,
+  Page,
+  CustomerListFilter,
+  CallListFilter,
+  ResponseListFilter,
+  CompatibilityGroup,
+  ResponseSentiment,
+  ResponseAnswer,
+  AnalyticsFilter,
+  CallCounts,
+  CampaignCallSummary,
+  QuestionStats,
+  DropOffPoint,
+  AnswerCount,
+  DurationStats,
+  TimeSeriesInterval,
+  TimeSeriesPoint,
+  VersionQuestionStats,
+  summarizeCallCounts,
+} from './repository';
+
+// Search term without characters that would break out of an or() filter
+function searchTerm(search: string): string | null {
+  return search.replace(/[,()*%\\":]/g, ' ').trim() || null;
+}
+
+// ilike pattern for a search term
+function searchPattern(search: string): string | null {
+  const term = searchTerm(search);
+  return term ? `*${term}*` : null;
+}
+
+// One page of a filtered query plus the total row count. `build` returns a fresh filtered
+// select with an exact count, so the count can be re-read when the offset is past the end.
+async function fetchPage<T>(build: () => any, page: PageRequest): Promise<Page<T>> {
+  const { data, count, error } = await build()
+    .order(page.sort, { ascending: page.ascending })
+    .order('id', { ascending: true })
+    .range(page.offset, page.offset + page.limit - 1);
+
+  if (error?.code === 'PGRST103') { // Requested range not satisfiable
+    const { count: total, error: countError } = await build().range(0, 0);
+    if (countError) throw countError;
+    return { rows: [], total: total ?? 0 };
+  }
+  if (error) throw error;
+  return { rows: data as T[], total: count ?? 0 };
+}
+
+const EMPTY_COUNTS: CallCounts = {
+  total_calls: 0,
+  completed_calls: 0,
+  failed_calls: 0,
+  no_answer_calls: 0,
+  completed_duration: 0,
+  customers_attempted: 0,
+  customers_reached_first_attempt: 0,
+  customers_reached: 0,
+  retry_calls: 0,
+};
+
+function analyticsParams(filter: AnalyticsFilter) {
+  return {
+    p_campaign_id: filter.campaignId ?? null,
+    p_from: filter.from ?? null,
+    p_to: filter.to ?? null,
+  };
+}
+
+// Aggregate columns are bigint, which may arrive as strings
+function numbers<T extends object>(row: T): T {
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [key, Number(value)])) as T;
+}
+
+async function callCounts(filter: AnalyticsFilter, byCampaign: boolean): Promise<Array<CallCounts & { campaign_id: string | null }>> {
+  const { data, error } = await getSupabase().rpc('report_call_counts', { ...analyticsParams(filter), p_by_campaign: byCampaign });
+
+  if (error) throw error;
+  return (data || []).map(({ campaign_id, ...counts }: CallCounts & { campaign_id: string | null }) => ({
+    campaign_id,
+    ...numbers(counts),
+  }));
+}
+
+export class SupabaseRepository implements DataRepository {
+  // Customer operations
+  async createCustomer(customer: NewCustomer) {
+    const { data, error } = await getSupabase()
+      .from('customers')
+      .insert([customer])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Customer;
+  }
+
+  async createCustomers(customers: NewCustomer[]) {
+    const { data, error } = await getSupabase()
+      .from('customers')
+      .insert(customers, { defaultToNull: false })
+      .select();
+
+    if (error) throw error;
+    return data as Customer[];
+  }
+
+  async upsertCustomers(customers: NewCustomer[]) {
+    const { data, error } = await getSupabase()
+      .from('customers')
+      .upsert(customers, { onConflict: 'phone_number', defaultToNull: false })
+      .select();
+
+    if (error) throw error;
+    return data as Customer[];
+  }
+
+  async getCustomers() {
+    const { data, error } = await getSupabase()
+      .from('customers')
+      .select('*')
+      .order('uploaded_at', { ascending: false });
+
+    if (error) throw error;
+    return data as Customer[];
+  }
+
+  async listCustomers(filter: CustomerListFilter, page: PageRequest) {
+    return fetchPage<Customer>(() => {
+      let query = getSupabase()
+        .from('customers')
+        .select('*', { count: 'exact' });
+
+      if (filter.campaignId) query = query.eq('campaign_id', filter.campaignId);
+      if (filter.statuses) query = query.in('contact_status', filter.statuses);
+      if (filter.from) query = query.gte('uploaded_at', filter.from);
+      if (filter.to) query = query.lt('uploaded_at', filter.to);
+
+      const pattern = filter.search ? searchPattern(filter.search) : null;
+      if (pattern) {
+        query = query.or(['first_name', 'last_name', 'company_name', 'phone_number']
+          .map(column => `${column}.ilike.${pattern}`)
+          .join(','));
+      }
+
+      return query;
+    }, page);
+  }
+
+  async getCustomerById(id: string) {
+    const { data, error } = await getSupabase()
+      .from('customers')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Customer | null;
+  }
+
+  async getCustomersByIds(ids: string[]) {
+    const customers: Customer[] = [];
+
+    // Chunk the id list so the request URL stays within PostgREST limits
+    for (let i = 0; i < ids.length; i += 200) {
+      const { data, error } = await getSupabase()
+        .from('customers')
+        .select('*')
+        .in('id', ids.slice(i, i + 200));
+
+      if (error) throw error;
+      customers.push(...(data as Customer[]));
+    }
+
+    return customers;
+  }
+
+  async getCustomersByPhoneNumbers(phoneNumbers: string[]) {
+    const customers: Customer[] = [];
+
+    for (let i = 0; i < phoneNumbers.length; i += 200) {
+      const { data, error } = await getSupabase()
+        .from('customers')
+        .select('*')
+        .in('phone_number', phoneNumbers.slice(i, i + 200));
+
+      if (error) throw error;
+      customers.push(...(data as Customer[]));
+    }
+
+    return customers;
+  }
+
+  async getCustomersByCampaign(campaignId: string) {
+    return fetchAllRows<Customer>(() => getSupabase()
+      .from('customers')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('uploaded_at', { ascending: true }));
+  }
+
+  async updateCustomerContactStatus(id: string, contactStatus: NonNullable<Customer['contact_status']>) {
+    const { error } = await getSupabase()
+      .from('customers')
+      .update({ contact_status: contactStatus })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async assignCustomersToCampaign(customerIds: string[], campaignId: string | null) {
+    const { data, error } = await getSupabase()
+      .from('customers')
+      .update({ campaign_id: campaignId })
+      .in('id', customerIds)
+      .select();
+
+    if (error) throw error;
+    return data as Customer[];
+  }
+
+  async updateCustomer(id: string, updates: CustomerUpdates) {
+    const { data, error } = await getSupabase()
+      .from('customers')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Customer | null;
+  }
+
+  async deleteCustomer(id: string) {
+    const { data, error } = await getSupabase()
+      .from('customers')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  // Call operations
+  async createCall(call: NewCall) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .insert([call])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SurveyCall;
+  }
+
+  async updateCallStatus(callSid: string, status: SurveyCall['call_status'], duration?: number, failureReason?: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .update({ 
+        call_status: status, 
+        call_duration: duration,
+        ...(failureReason !== undefined ? { failure_reason: failureReason } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('call_sid', callSid)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SurveyCall;
+  }
+
+  // Conditional on the current status, so a late event can't move a call back
+  async transitionCallStatus(callSid: string, from: SurveyCall['call_status'][], status: SurveyCall['call_status']) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .update({
+        call_status: status,
+        updated_at: new Date().toISOString()
+      })
+      .eq('call_sid', callSid)
+      .in('call_status', from)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SurveyCall | null;
+  }
+
+  async updateCall(id: string, updates: CallUpdates) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SurveyCall;
+  }
+
+  async getCallById(id: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SurveyCall | null;
+  }
+
+  async getCallBySid(callSid: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .select('*')
+      .eq('call_sid', callSid)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SurveyCall | null;
+  }
+
+  async getCalls() {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as SurveyCall[];
+  }
+
+  async listCalls(filter: CallListFilter, page: PageRequest) {
+    return fetchPage<SurveyCall>(() => {
+      let query = getSupabase()
+        .from('survey_calls')
+        .select('*', { count: 'exact' });
+
+      if (filter.campaignId) query = query.eq('campaign_id', filter.campaignId);
+      if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+      if (filter.surveyVersionIds) query = query.in('survey_version_id', filter.surveyVersionIds);
+      if (filter.statuses) query = query.in('call_status', filter.statuses);
+      if (filter.from) query = query.gte('created_at', filter.from);
+      if (filter.to) query = query.lt('created_at', filter.to);
+
+      const pattern = filter.search ? searchPattern(filter.search) : null;
+      if (pattern) {
+        query = query.or(`customer_first_name.ilike.${pattern},customer_phone.ilike.${pattern}`);
+      }
+
+      return query;
+    }, page);
+  }
+
+  async getCallCompatibilityGroups(filter: CallListFilter) {
+    const { data, error } = await getSupabase().rpc('call_compatibility_groups', {
+      p_campaign_id: filter.campaignId ?? null,
+      p_customer_id: filter.customerId ?? null,
+      p_survey_version_ids: filter.surveyVersionIds ?? null,
+      p_statuses: filter.statuses ?? null,
+      p_from: filter.from ?? null,
+      p_to: filter.to ?? null,
+      p_search: filter.search ? searchTerm(filter.search) : null,
+    });
+
+    if (error) throw error;
+    return (data || []).map((group: CompatibilityGroup) => ({ ...group, responses: Number(group.responses) }));
+  }
+
+  // Number of call attempts already made to a customer (within a campaign if given)
+  async countCustomerCalls(customerId: string, campaignId?: string | null) {
+    let query = getSupabase()
+      .from('survey_calls')
+      .select('id', { count: 'exact', head: true })
+      .eq('customer_id', customerId);
+
+    query = campaignId ? query.eq('campaign_id', campaignId) : query.is('campaign_id', null);
+
+    const { count, error } = await query;
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  // Ids of customers that already have a call in the campaign
+  async getCalledCustomerIds(campaignId: string): Promise<Set<string>> {
+    const rows = await fetchAllRows<{ customer_id: string }>(() => getSupabase()
+      .from('survey_calls')
+      .select('id, customer_id')
+      .eq('campaign_id', campaignId)
+      .not('customer_id', 'is', null));
+
+    return new Set(rows.map(row => row.customer_id));
+  }
+
+  // Calls that are still ringing or in conversation, ignoring ones not touched since `since`
+  async countActiveCalls(since: Date, campaignId?: string) {
+    let query = getSupabase()
+      .from('survey_calls')
+      .select('id', { count: 'exact', head: true })
+      .in('call_status', ['queued', 'in-progress'])
+      .gte('updated_at', since.toISOString());
+
+    if (campaignId) query = query.eq('campaign_id', campaignId);
+
+    const { count, error } = await query;
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  // Calls still queued or in progress that have not been updated since `before`
+  async getStaleCalls(before: Date, limit: number) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .select('*')
+      .in('call_status', ['queued', 'in-progress'])
+      .lt('updated_at', before.toISOString())
+      .order('updated_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data as SurveyCall[];
+  }
+
+  async getOpenCallsByCampaign(campaignId: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .in('call_status', ['queued', 'in-progress']);
+
+    if (error) throw error;
+    return data as SurveyCall[];
+  }
+
+  async reassignCalls(fromCustomerIds: string[], toCustomerId: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_calls')
+      .update({ customer_id: toCustomerId, updated_at: new Date().toISOString() })
+      .in('customer_id', fromCustomerIds)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  // Response operations
+  async createResponse(response: NewResponse) {
+    const { data, error } = await getSupabase()
+      .from('survey_responses')
+      .insert([response])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SurveyResponse;
+  }
+
+  async getResponseById(id: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_responses')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SurveyResponse | null;
+  }
+
+  async getResponsesByCallId(callId: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_responses')
+      .select('*')
+      .eq('call_id', callId)
+      .order('question_number', { ascending: true });
+
+    if (error) throw error;
+    return data as SurveyResponse[];
+  }
+
+  async getResponsesByCallIds(callIds: string[]) {
+    const responses: SurveyResponse[] = [];
+
+    for (let i = 0; i < callIds.length; i += 200) {
+      // A chunk of calls can have more responses than one request returns
+      responses.push(...await fetchAllRows<SurveyResponse>(() => getSupabase()
+        .from('survey_responses')
+        .select('*')
+        .in('call_id', callIds.slice(i, i + 200))
+        .order('call_id', { ascending: true })
+        .order('question_number', { ascending: true })
+        .order('created_at', { ascending: true })));
+    }
+
+    return responses;
+  }
+
+  async listResponses(filter: ResponseListFilter, page: PageRequest) {
+    return fetchPage<ResponseWithCall>(() => {
+      let query = getSupabase()
+        .from('survey_responses')
+        .select('*, survey_calls!inner(campaign_id, survey_id, survey_version_id)', { count: 'exact' });
+
+      if (filter.campaignId) query = query.eq('survey_calls.campaign_id', filter.campaignId);
+      if (filter.surveyVersionIds) query = query.in('survey_calls.survey_version_id', filter.surveyVersionIds);
+      if (filter.sentiments) query = query.in('response_sentiment', filter.sentiments);
+      if (filter.questionNumbers) query = query.in('question_number', filter.questionNumbers);
+      if (filter.followUp !== undefined) query = query.eq('is_followup', filter.followUp);
+      if (filter.needsReview !== undefined) query = query.eq('needs_review', filter.needsReview);
+      if (filter.from) query = query.gte('created_at', filter.from);
+      if (filter.to) query = query.lt('created_at', filter.to);
+
+      const pattern = filter.search ? searchPattern(filter.search) : null;
+      if (pattern) {
+        query = query.or(
+          `customer_first_name.ilike.${pattern},customer_phone.ilike.${pattern}`,
+          { referencedTable: 'survey_calls' }
+        );
+      }
+
+      return query;
+    }, page);
+  }
+
+  async getResponseCompatibilityGroups(filter: ResponseListFilter) {
+    const { data, error } = await getSupabase().rpc('response_compatibility_groups', {
+      p_campaign_id: filter.campaignId ?? null,
+      p_survey_version_ids: filter.surveyVersionIds ?? null,
+      p_sentiments: filter.sentiments ?? null,
+      p_question_numbers: filter.questionNumbers ?? null,
+      p_follow_up: filter.followUp ?? null,
+      p_needs_review: filter.needsReview ?? null,
+      p_from: filter.from ?? null,
+      p_to: filter.to ?? null,
+      p_search: filter.search ? searchTerm(filter.search) : null,
+    });
+
+    if (error) throw error;
+    return (data || []).map((group: CompatibilityGroup) => ({ ...group, responses: Number(group.responses) }));
+  }
+
+  async updateResponseSentiment(id: string, sentiment: ResponseSentiment) {
+    const { error } = await getSupabase()
+      .from('survey_responses')
+      .update(sentiment)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async updateResponseAnswer(id: string, answer: ResponseAnswer) {
+    const { data, error } = await getSupabase()
+      .from('survey_responses')
+      .update(answer)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SurveyResponse | null;
+  }
+
+  // Remove a call's parsed responses before the transcript is parsed again
+  async deleteResponsesByCallId(callId: string) {
+    const { error } = await getSupabase()
+      .from('survey_responses')
+      .delete()
+      .eq('call_id', callId);
+
+    if (error) throw error;
+  }
+
+  // Transcript operations
+  // Store a call's transcript, replacing any earlier copy (one transcript per call)
+  async saveTranscript(transcript: NewTranscript) {
+    const { data, error } = await getSupabase()
+      .from('call_transcripts')
+      .upsert([transcript], { onConflict: 'call_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as CallTranscript;
+  }
+
+  async getTranscriptByCallId(callId: string) {
+    const { data, error } = await getSupabase()
+      .from('call_transcripts')
+      .select('*')
+      .eq('call_id', callId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as CallTranscript | null;
+  }
+
+  // Survey version operations
+  async createSurveyVersion(version: NewSurveyVersion) {
+    const { data, error } = await getSupabase()
+      .from('survey_versions')
+      .insert([version])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SurveyVersion;
+  }
+
+  async getLatestSurveyVersion(surveyId: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_versions')
+      .select('*')
+      .eq('survey_id', surveyId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SurveyVersion | null;
+  }
+
+  async getSurveyVersions(surveyId: string) {
+    const { data, error } = await getSupabase()
+      .from('survey_versions')
+      .select('*')
+      .eq('survey_id', surveyId)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return data as SurveyVersion[];
+  }
+
+  async getSurveyVersion(surveyId: string, version: number) {
+    const { data, error } = await getSupabase()
+      .from('survey_versions')
+      .select('*')
+      .eq('survey_id', surveyId)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SurveyVersion | null;
+  }
+
+  async getSurveyVersionsByIds(ids: string[]) {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await getSupabase()
+      .from('survey_versions')
+      .select('*')
+      .in('id', ids);
+
+    if (error) throw error;
+    return data as SurveyVersion[];
+  }
+
+  // Newest first
+  async getSurveyVersionsByCompatibilityKeys(keys: string[]) {
+    if (keys.length === 0) return [];
+
+    const { data, error } = await getSupabase()
+      .from('survey_versions')
+      .select('*')
+      .in('compatibility_key', keys)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return data as SurveyVersion[];
+  }
+
+  // Do-not-call operations
+  async getDoNotCallEntries() {
+    const { data, error } = await getSupabase()
+      .from('do_not_call')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as DoNotCallEntry[];
+  }
+
+  async getDoNotCallEntry(phoneNumber: string) {
+    const { data, error } = await getSupabase()
+      .from('do_not_call')
+      .select('*')
+      .eq('phone_number', phoneNumber)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as DoNotCallEntry | null;
+  }
+
+  // Insert entries, leaving numbers that are already listed (and their audit trail) untouched
+  async addDoNotCallEntries(entries: NewDoNotCallEntry[]) {
+    const inserted: DoNotCallEntry[] = [];
+
+    for (let i = 0; i < entries.length; i += 500) {
+      const { data, error } = await getSupabase()
+        .from('do_not_call')
+        .upsert(entries.slice(i, i + 500), { onConflict: 'phone_number', ignoreDuplicates: true })
+        .select();
+
+      if (error) throw error;
+      inserted.push(...(data as DoNotCallEntry[]));
+    }
+
+    return inserted;
+  }
+
+  async updateDoNotCallNumber(id: string, phoneNumber: string) {
+    const { data, error } = await getSupabase()
+      .from('do_not_call')
+      .update({ phone_number: phoneNumber })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as DoNotCallEntry;
+  }
+
+  async deleteDoNotCallEntry(id: string) {
+    const { data, error } = await getSupabase()
+      .from('do_not_call')
+      .delete()
+      .eq('id', id)
+      .select();
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  // Callback operations
+  async createCallback(callback: NewCallback) {
+    const { data, error } = await getSupabase()
+      .from('callbacks')
+      .insert([callback])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Callback;
+  }
+
+  async getCallbacks(filter: CallbackListFilter = {}) {
+    let query = getSupabase()
+      .from('callbacks')
+      .select('*, customers(first_name, last_name, phone_number, company_name)')
+      .order('scheduled_for', { ascending: true });
+
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.campaignId) query = query.eq('campaign_id', filter.campaignId);
+    if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data as CallbackWithCustomer[];
+  }
+
+  async getCallbackById(id: string) {
+    const { data, error } = await getSupabase()
+      .from('callbacks')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Callback | null;
+  }
+
+  async getCallbackBySourceCall(callId: string) {
+    const { data, error } = await getSupabase()
+      .from('callbacks')
+      .select('*')
+      .eq('source_call_id', callId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Callback | null;
+  }
+
+  async countPendingCallbacks(customerId: string) {
+    const { count, error } = await getSupabase()
+      .from('callbacks')
+      .select('id', { count: 'exact', head: true })
+      .eq('customer_id', customerId)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async reassignCallbacks(fromCustomerIds: string[], toCustomerId: string) {
+    const { data, error } = await getSupabase()
+      .from('callbacks')
+      .update({ customer_id: toCustomerId, updated_at: new Date().toISOString() })
+      .in('customer_id', fromCustomerIds)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  async updateCallback(id: string, updates: CallbackUpdates) {
+    const { data, error } = await getSupabase()
+      .from('callbacks')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Callback;
+  }
+
+  // Analytics
+  // Computed by the report_* database functions, so no rows are loaded here
+  async getCallSummary(filter: AnalyticsFilter = {}) {
+    const [counts] = await callCounts(filter, false);
+    return summarizeCallCounts(counts || EMPTY_COUNTS);
+  }
+
+  async getCampaignCallSummaries(filter: AnalyticsFilter = {}) {
+    const rows = await callCounts(filter, true);
+    return rows.map(({ campaign_id, ...counts }): CampaignCallSummary => ({
+      campaign_id,
+      ...summarizeCallCounts(counts),
+    }));
+  }
+
+  async getQuestionStats(filter: AnalyticsFilter = {}) {
+    const { data, error } = await getSupabase().rpc('report_question_stats', analyticsParams(filter));
+
+    if (error) throw error;
+    return (data || []).map(({ compatibility_key, ...counts }: QuestionStats) => ({ compatibility_key, ...numbers(counts) }));
+  }
+
+  async getDropOff(filter: AnalyticsFilter = {}) {
+    const { data, error } = await getSupabase().rpc('report_drop_off', analyticsParams(filter));
+
+    if (error) throw error;
+    return (data || []).map((row: DropOffPoint) => ({ last_question: row.last_question, calls: Number(row.calls) }));
+  }
+
+  async getAnswerCounts(filter: AnalyticsFilter = {}) {
+    const { data, error } = await getSupabase().rpc('report_answer_stats', analyticsParams(filter));
+
+    if (error) throw error;
+    return (data || []).map(({ compatibility_key, answer_type, answer_value, ...counts }: AnswerCount) => ({
+      compatibility_key,
+      answer_type,
+      answer_value,
+      ...numbers(counts),
+    }));
+  }
+
+  async getDurationStats(filter: AnalyticsFilter = {}) {
+    const { data, error } = await getSupabase().rpc('report_duration_stats', analyticsParams(filter));
+
+    if (error) throw error;
+    return (data || []).map(({ compatibility_key, ...stats }: DurationStats) => ({ compatibility_key, ...numbers(stats) }));
+  }
+
+  async getCallTimeSeries(filter: AnalyticsFilter, interval: TimeSeriesInterval, timezone: string) {
+    const { data, error } = await getSupabase().rpc('report_call_time_series', {
+      p_interval: interval,
+      p_timezone: timezone,
+      ...analyticsParams(filter),
+    });
+
+    if (error) throw error;
+    return (data || []).map(({ period, ...counts }: TimeSeriesPoint) => ({ period, ...numbers(counts) }));
+  }
+
+  async getVersionComparison(filter: { campaignId?: string; surveyId?: string }) {
+    const { data, error } = await getSupabase().rpc('report_version_comparison', {
+      p_campaign_id: filter.campaignId ?? null,
+      p_survey_id: filter.surveyId ?? null,
+    });
+
+    if (error) throw error;
+    return (data || []).map(({ survey_version_id, survey_id, question_text, ...counts }: VersionQuestionStats) => ({
+      survey_version_id,
+      survey_id,
+      question_text,
+      ...numbers(counts),
+    }));
+  }
+}
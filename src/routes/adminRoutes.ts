@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/adminController';
+
+const router = Router();
+
+// Webhook inbox
+router.get('/webhook-events', adminController.getWebhookEvents);
+router.get('/webhook-events/:eventId', adminController.getWebhookEvent);
+router.post('/webhook-events/:eventId/replay', adminController.replayWebhookEvent);
+
+// Call reconciliation
+router.post('/reconcile', adminController.reconcileStaleCalls);
+router.post('/reconcile/calls/:callId', adminController.reconcileCall);
+router.post('/reconcile/campaigns/:campaignId', adminController.reconcileCampaign);
+
+// Transcript parser dry run
+router.post('/transcripts/replay', adminController.replayTranscript);
+
+// Sentiment re-scoring
+router.post('/sentiment/rescore', adminController.rescoreSentiment);
+
+// Structured answer extraction
+router.post('/answers/extract', adminController.extractAnswers);
+
+export { router as adminRoutes };
@@ -7,6 +7,7 @@ const router = Router();
 router.post('/test', callController.testCall);
 router.post('/start', callController.startCall);
 router.post('/batch', callController.startBatchCalls);
+router.get('/batch/:jobId', callController.getBatchJob);
 router.get('/voices', callController.getVoices);
 router.post('/text-to-speech', callController.testTextToSpeech);
 router.get('/:callId', callController.getCall);
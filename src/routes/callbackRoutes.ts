@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { callbackController } from '../controllers/callbackController';
+
+const router = Router();
+
+// Callback routes
+router.get('/', callbackController.getCallbacks);
+router.get('/:callbackId', callbackController.getCallback);
+router.patch('/:callbackId', callbackController.updateCallback);
+router.post('/:callbackId/cancel', callbackController.cancelCallback);
+
+export { router as callbackRoutes };
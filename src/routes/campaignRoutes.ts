@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { campaignController } from '../controllers/campaignController';
+import { reportController } from '../controllers/reportController';
+
+const router = Router();
+
+// Campaign routes
+router.post('/', campaignController.createCampaign);
+router.get('/', campaignController.getCampaigns);
+router.get('/:campaignId', campaignController.getCampaign);
+router.patch('/:campaignId', campaignController.updateCampaign);
+router.delete('/:campaignId', campaignController.deleteCampaign);
+
+// Campaign customers
+router.get('/:campaignId/customers', campaignController.getCampaignCustomers);
+router.post('/:campaignId/customers', campaignController.assignCustomers);
+
+// Lifecycle actions
+router.post('/:campaignId/start', campaignController.startCampaign);
+router.post('/:campaignId/pause', campaignController.pauseCampaign);
+router.post('/:campaignId/resume', campaignController.resumeCampaign);
+router.post('/:campaignId/cancel', campaignController.cancelCampaign);
+
+// Campaign reports
+router.get('/:campaignId/summary', reportController.getCampaignSummary);
+
+export { router as campaignRoutes };
@@ -3,12 +3,16 @@ import { callController } from '../controllers/callController';
 import { customerController } from '../controllers/customerController';
 import { reportController } from '../controllers/reportController';
 import multer from 'multer';
+import os from 'os';
+import path from 'path';
 
 const router = Router();
 
-// Configure multer for CSV uploads
+// CSV uploads are written to disk and imported in the background, so large lists fit
 const upload = multer({
-  storage: multer.memoryStorage(),
+  storage: multer.diskStorage({
+    destination: process.env.CUSTOMER_IMPORT_DIR || path.join(os.tmpdir(), 'customer-imports'),
+  }),
   fileFilter: (req, file, cb) => {
     if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
       cb(null, true);
@@ -17,24 +21,39 @@ const upload = multer({
     }
   },
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: parseInt(process.env.CUSTOMER_IMPORT_MAX_MB || '200', 10) * 1024 * 1024,
   }
 });
 
 // Customer routes
-router.post('/upload', upload.single('csv'), customerController.uploadCustomers);
+router.post('/upload', upload.single('csv'), customerController.createImport);
+router.post('/upload/preview', upload.single('csv'), customerController.previewUpload);
+router.post('/imports', upload.single('csv'), customerController.createImport);
+router.get('/imports', customerController.getImports);
+router.get('/imports/:importId', customerController.getImport);
+router.get('/imports/:importId/errors', customerController.getImportErrors);
+router.post('/imports/:importId/cancel', customerController.cancelImport);
 router.post('/', customerController.createCustomer);
 router.get('/', customerController.getCustomers);
+router.get('/duplicates', customerController.getDuplicates);
+router.post('/campaign', customerController.reassignCampaign);
 
 // Call routes
 router.post('/calls/test', callController.testCall);
 router.post('/calls/start', callController.startCall);
 router.post('/calls/batch', callController.startBatchCalls);
+router.get('/calls/batch/:jobId', callController.getBatchJob);
 router.get('/calls/:callId', callController.getCall);
 router.get('/calls', callController.getCalls);
 
 // Report routes
 router.get('/reports/summary', reportController.getSummary);
 
+// Single-customer routes last, so /:customerId does not shadow the paths above
+router.get('/:customerId', customerController.getCustomer);
+router.patch('/:customerId', customerController.updateCustomer);
+router.delete('/:customerId', customerController.deleteCustomer);
+router.post('/:customerId/merge', customerController.mergeCustomers);
+
 export { router as customerRoutes };
 
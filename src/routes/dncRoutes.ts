@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { dncController } from '../controllers/dncController';
+import multer from 'multer';
+
+const router = Router();
+
+// Configure multer for CSV uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV files are allowed'));
+    }
+  },
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  }
+});
+
+// Do-not-call routes
+router.get('/', dncController.getEntries);
+router.post('/', dncController.addEntry);
+router.post('/import', upload.single('csv'), dncController.importEntries);
+router.get('/check/:phoneNumber', dncController.checkNumber);
+router.delete('/:id', dncController.deleteEntry);
+
+export { router as dncRoutes };
@@ -6,6 +6,15 @@ const router = Router();
 // Report routes
 router.get('/summary', reportController.getSummary);
 router.get('/responses', reportController.getAllResponses);
+router.patch('/responses/:responseId/answer', reportController.reviewAnswer);
+router.get('/export', reportController.exportResults);
+router.get('/versions', reportController.getVersionComparison);
+router.get('/campaigns', reportController.getCampaignSummaries);
+router.get('/campaigns/:campaignId/summary', reportController.getCampaignSummary);
+router.get('/campaigns/:campaignId/themes', reportController.getCampaignThemes);
+router.get('/analytics/questions', reportController.getQuestionAnalytics);
+router.get('/analytics/timeseries', reportController.getCallTimeSeries);
+router.get('/themes', reportController.getThemes);
 
 export { router as reportRoutes };
 
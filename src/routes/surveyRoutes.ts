@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { surveyController } from '../controllers/surveyController';
+
+const router = Router();
+
+// Survey definition routes
+router.post('/', surveyController.createSurvey);
+router.get('/', surveyController.getSurveys);
+router.get('/:surveyId', surveyController.getSurvey);
+router.get('/:surveyId/prompt', surveyController.getSurveyPrompt);
+router.get('/:surveyId/versions', surveyController.getSurveyVersions);
+router.get('/:surveyId/versions/:version', surveyController.getSurveyVersion);
+router.patch('/:surveyId', surveyController.updateSurvey);
+router.delete('/:surveyId', surveyController.deleteSurvey);
+
+export { router as surveyRoutes };
@@ -0,0 +1,228 @@
+// Typed values from free-text answers, per the question's answer_type: a duration in months,
+// yes/no/unsure, or one of the question's answer categories. Pure, like the transcript parser.
+import { AnswerCategory, AnswerType, SurveyQuestion } from './supabaseService';
+import { analyzeSentiment } from './sentimentAnalyzer';
+
+export interface ExtractedAnswer {
+  type: AnswerType;
+  value: number | string | null; // Months for a duration, yes/no/unsure, or a category name; null when nothing was recognised
+  confidence: number; // 0 to 1
+  needsReview: boolean;
+}
+
+// Extractions less certain than this are flagged for someone to check
+export const REVIEW_THRESHOLD = 0.6;
+
+// Category for reasons that match none of the configured ones
+export const OTHER_CATEGORY = 'other';
+
+const DAYS_PER_MONTH = 30.44;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18,
+  nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+  couple: 2, few: 3, several: 4,
+};
+
+// Words said together as one number: "twenty five"
+const TENS = new Set(['twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety']);
+const UNITS = new Set(['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine']);
+
+// Number words that only give a rough count
+const VAGUE_NUMBERS = new Set(['couple', 'few', 'several']);
+
+const UNIT_MONTHS: Record<string, number> = {
+  day: 1 / DAYS_PER_MONTH, week: 7 / DAYS_PER_MONTH, fortnight: 14 / DAYS_PER_MONTH,
+  month: 1, year: 12, yr: 12, decade: 120,
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = 'january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec';
+
+// "since 2019", "from March", "back in '15", "since about mid 2020"
+const SINCE_PATTERN = new RegExp(
+  `\\b(?:since|from|in|back in|started in|starting in)\\s+(?:about |around |early |late |mid )?(?:(${MONTH_NAMES})\\b\\s*)?(?:'(\\d{2})|(\\d{4}))?\\b`
+);
+
+const HEDGES = /\b(about|around|roughly|approximately|maybe|probably|perhaps|nearly|almost|close to|over|more than|less than|under|or so|i think|i reckon|i guess|give or take|ish)\b/;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[’‘`]/g, '\'').replace(/\s+/g, ' ').trim();
+}
+
+function result(type: AnswerType, value: ExtractedAnswer['value'], confidence: number): ExtractedAnswer {
+  const rounded = Math.round(confidence * 1000) / 1000;
+  return { type, value, confidence: rounded, needsReview: value === null || rounded < REVIEW_THRESHOLD };
+}
+
+function numberValue(word: string): number | null {
+  if (/^\d+(\.\d+)?$/.test(word)) return parseFloat(word);
+  return NUMBER_WORDS[word] ?? null;
+}
+
+function unitMonths(word: string): number | null {
+  const singular = word.replace(/s$/, '');
+  return UNIT_MONTHS[singular] ?? null;
+}
+
+// Months between the start of a period and now; a year alone is taken as its middle
+function monthsSince(year: number, month: number | null, now: Date): number {
+  const start = new Date(Date.UTC(year, month ?? 6, 1));
+  return (now.getUTCFullYear() - start.getUTCFullYear()) * 12 + now.getUTCMonth() - start.getUTCMonth();
+}
+
+// "about three years", "2-3 years", "a year and a half", "since 2019", "since March"
+function extractDuration(text: string, now: Date): ExtractedAnswer {
+  const hedged = HEDGES.test(text);
+
+  if (/\b(just started|brand new|first (order|delivery|time)|only just)\b/.test(text)) {
+    return result('duration', 1, 0.6);
+  }
+
+  const since = text.match(SINCE_PATTERN);
+  if (since && (since[1] || since[2] || since[3])) {
+    const year = since[3] ? parseInt(since[3], 10) : since[2] ? 2000 + parseInt(since[2], 10) : null;
+    const month = since[1] ? MONTHS.indexOf(since[1].slice(0, 3)) : null;
+    const hedge = hedged ? 0.1 : 0;
+    if (year !== null && year >= 1950 && year <= now.getUTCFullYear()) {
+      return result('duration', Math.max(0, monthsSince(year, month, now)), (month !== null ? 0.85 : 0.75) - hedge);
+    }
+    if (year === null && month !== null) {
+      // A month alone is the most recent one
+      const thisYear = now.getUTCFullYear();
+      const start = month <= now.getUTCMonth() ? thisYear : thisYear - 1;
+      return result('duration', monthsSince(start, month, now), 0.7 - hedge);
+    }
+  }
+  if (/\bsince last year\b/.test(text)) {
+    return result('duration', 12, 0.6);
+  }
+
+  // Sum every "<number> <unit>" in the answer, so "two years and six months" is 30
+  // Decimals stay whole, while full stops and other punctuation end a word: "about three years."
+  const words = text.replace(/(\d)-(\d)/g, '$1 to $2').match(/\d+(?:\.\d+)?|[a-z']+/g) || [];
+  let months = 0;
+  let matched = false;
+  let range = false;
+  let vague = false;
+  for (let i = 0; i < words.length; i++) {
+    const unit = unitMonths(words[i]);
+    if (unit === null) continue;
+
+    // Walk back over "of", "and a half", ranges ("two or three", "2 to 3") and the number itself
+    let j = i - 1;
+    let half = 0;
+    if (words[j] === 'of') j--;
+    if (words[j] === 'half' && words[j - 1] === 'a' && words[j - 2] === 'and') {
+      half = 0.5;
+      j -= 3;
+    }
+    let count = j >= 0 ? numberValue(words[j]) : null;
+    if (UNITS.has(words[j]) && TENS.has(words[j - 1])) {
+      count = NUMBER_WORDS[words[j - 1]] + count!;
+      j--;
+    }
+    if (words[j] === 'a' && words[j - 1] === 'half') {
+      count = 0.5; // "half a year"
+    }
+    if (count !== null && (words[j - 1] === 'or' || words[j - 1] === 'to') && j >= 2 && numberValue(words[j - 2]) !== null) {
+      count = (numberValue(words[j - 2])! + count) / 2;
+      range = true;
+    }
+    // "a year and a half"
+    if (words[i + 1] === 'and' && words[i + 2] === 'a' && words[i + 3] === 'half') {
+      half = 0.5;
+    }
+    if (count === null) {
+      if (/s$/.test(words[i]) && /^(many|lots|heaps)$/.test(words[j] || '')) {
+        return result('duration', null, 0);
+      }
+      continue;
+    }
+
+    months += (count + half) * unit;
+    matched = true;
+    vague = vague || VAGUE_NUMBERS.has(words[j]);
+  }
+
+  if (matched) {
+    let confidence = 0.95;
+    if (hedged) confidence -= 0.1;
+    if (range || vague) confidence -= 0.15;
+    return result('duration', Math.round(months), confidence);
+  }
+
+  // "ages", "a long time", "forever": a long tenure, but no number to record
+  return result('duration', null, 0);
+}
+
+const UNSURE_PATTERNS = /\b(not sure|unsure|don'?t know|dunno|no idea|hard to say|depends|it depends|can'?t say|couldn'?t say|maybe|sort of|kind of|not really sure)\b/;
+const PARTIAL_NO_PATTERNS = /\b(not always|not really|not quite|not entirely|not completely|not all the time|could be better)\b/;
+const YES_PATTERNS = /\b(yes|yeah|yep|yup|yes ma'?am|absolutely|definitely|certainly|of course|for sure|sure|correct|they do|it does|always|too right)\b/;
+const NO_PATTERNS = /\b(no|nope|nah|never|they don'?t|it doesn'?t|not at all|absolutely not|definitely not)\b/;
+
+// "Yes", "Not always", "I'm not sure"; falls back on the sentiment of the answer with low confidence
+function extractYesNo(text: string): ExtractedAnswer {
+  const firstClause = text.split(/[.,;!?]|\bbut\b/)[0];
+
+  if (UNSURE_PATTERNS.test(firstClause)) return result('yes_no', 'unsure', 0.8);
+  if (PARTIAL_NO_PATTERNS.test(firstClause)) return result('yes_no', 'no', 0.75);
+
+  const yes = YES_PATTERNS.test(firstClause);
+  const no = NO_PATTERNS.test(firstClause);
+  if (yes && !no) return result('yes_no', 'yes', /\bmostly\b/.test(text) ? 0.75 : 0.95);
+  if (no && !yes) return result('yes_no', 'no', 0.95);
+  if (yes && no) return result('yes_no', (firstClause.search(YES_PATTERNS) < firstClause.search(NO_PATTERNS)) ? 'yes' : 'no', 0.4);
+
+  // No direct answer in the first clause: look through the whole answer, then at its tone
+  if (UNSURE_PATTERNS.test(text)) return result('yes_no', 'unsure', 0.6);
+  if (PARTIAL_NO_PATTERNS.test(text)) return result('yes_no', 'no', 0.6);
+
+  const sentiment = analyzeSentiment(text);
+  if (sentiment.label === 'positive') return result('yes_no', 'yes', 0.5 * sentiment.confidence + 0.1);
+  if (sentiment.label === 'negative') return result('yes_no', 'no', 0.5 * sentiment.confidence + 0.1);
+  return result('yes_no', null, 0);
+}
+
+function keywordPattern(keyword: string): RegExp {
+  const escaped = normalize(keyword).replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+  return new RegExp(`\\b${escaped}\\b`, 'g');
+}
+
+// Category with the most keyword hits; a close second or no hits at all needs review
+function extractCategory(text: string, categories: AnswerCategory[]): ExtractedAnswer {
+  const scores = categories
+    .map(category => ({
+      name: category.name,
+      hits: category.keywords.reduce((total, keyword) => total + (text.match(keywordPattern(keyword)) || []).length, 0),
+    }))
+    .filter(category => category.hits > 0)
+    .sort((a, b) => b.hits - a.hits);
+
+  if (scores.length === 0) return result('category', OTHER_CATEGORY, 0.3);
+
+  const [best, second] = scores;
+  if (second && second.hits === best.hits) return result('category', best.name, 0.4);
+
+  let confidence = best.hits > 1 ? 0.9 : 0.8;
+  if (second) confidence -= 0.15;
+  return result('category', best.name, confidence);
+}
+
+// Typed value for a main answer, or null when the question has no answer_type
+export function extractAnswer(question: SurveyQuestion | null, answer: string, now: Date = new Date()): ExtractedAnswer | null {
+  if (!question?.answer_type) return null;
+
+  const text = normalize(answer);
+  switch (question.answer_type) {
+    case 'duration':
+      return extractDuration(text, now);
+    case 'yes_no':
+      return extractYesNo(text);
+    case 'category':
+      return extractCategory(text, question.answer_categories || []);
+    default:
+      return null;
+  }
+}
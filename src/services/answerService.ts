@@ -0,0 +1,114 @@
+import { repository, ResponseListFilter, ResponseWithCall, YES_NO_ANSWERS, YesNoAnswer } from '../repositories';
+import { SurveyDefinition, SurveyQuestion, SurveyResponse } from './supabaseService';
+import { surveyService } from './surveyService';
+import { extractAnswer, OTHER_CATEGORY } from './answerExtractor';
+
+const EXTRACT_PAGE_SIZE = 500;
+
+export interface ExtractResult {
+  checked: number; // Main answers looked at
+  updated: number; // Answers whose typed value, confidence or review flag changed
+  needsReview: number; // Answers left flagged for review
+  reviewed: number; // Answers someone has already reviewed, left as they are
+  dryRun: boolean;
+}
+
+export class AnswerService {
+  // Question a stored response answered, as defined in the survey version its call was made with
+  async getQuestionForResponse(response: SurveyResponse): Promise<SurveyQuestion | null> {
+    const call = await repository.getCallById(response.call_id);
+    if (!call) return null;
+    return surveyService.getQuestion(await surveyService.getSurveyForCall(call), response.question_number);
+  }
+
+  // Extract typed values from stored main answers again, e.g. after a question gains an extractor.
+  // Reviewed answers are never overwritten.
+  async extract(filter: Pick<ResponseListFilter, 'campaignId' | 'from' | 'to'>, dryRun = false): Promise<ExtractResult> {
+    const result: ExtractResult = { checked: 0, updated: 0, needsReview: 0, reviewed: 0, dryRun };
+    const surveys = new Map<string, Promise<SurveyDefinition>>();
+    const surveyFor = (response: ResponseWithCall) => {
+      const call = response.survey_calls;
+      const key = JSON.stringify([call.survey_version_id, call.survey_id, call.campaign_id]);
+      if (!surveys.has(key)) surveys.set(key, surveyService.getSurveyForCall(call));
+      return surveys.get(key)!;
+    };
+
+    // Sorted by id, which extraction doesn't change, so pages stay stable while rows are updated
+    for (let offset = 0; ; offset += EXTRACT_PAGE_SIZE) {
+      const page = await repository.listResponses(
+        { ...filter, followUp: false },
+        { limit: EXTRACT_PAGE_SIZE, offset, sort: 'id', ascending: true }
+      );
+
+      for (const response of page.rows) {
+        result.checked++;
+        if (response.answer_reviewed_at) {
+          result.reviewed++;
+          continue;
+        }
+
+        const question = surveyService.getQuestion(await surveyFor(response), response.question_number);
+        // Relative answers ("since March") are read against when they were given
+        const answer = extractAnswer(question, response.response_text, new Date(response.response_timestamp || response.created_at));
+        const next = {
+          answer_type: answer?.type ?? null,
+          answer_value: answer?.value ?? null,
+          answer_confidence: answer?.confidence ?? null,
+          needs_review: answer?.needsReview ?? false,
+        };
+        if (next.needs_review) result.needsReview++;
+
+        const unchanged = (response.answer_type ?? null) === next.answer_type
+          && JSON.stringify(response.answer_value ?? null) === JSON.stringify(next.answer_value)
+          && (response.answer_confidence == null ? null : Number(response.answer_confidence)) === next.answer_confidence
+          && (response.needs_review ?? false) === next.needs_review;
+        if (unchanged) continue;
+
+        if (!dryRun) {
+          await repository.updateResponseAnswer(response.id, next);
+        }
+        result.updated++;
+      }
+
+      if (offset + EXTRACT_PAGE_SIZE >= page.total) break;
+    }
+
+    console.log(`🧩 Extracted answers from ${result.checked} responses: ${result.updated} ${dryRun ? 'would change' : 'changed'}, ${result.needsReview} need review`);
+    return result;
+  }
+
+  // Why a reviewer's value doesn't fit the question's answer type, or null when it does; null itself means no usable answer
+  invalidValue(question: SurveyQuestion, value: unknown): string | null {
+    if (value === null) return null;
+
+    switch (question.answer_type) {
+      case 'duration':
+        return typeof value === 'number' && Number.isFinite(value) && value >= 0
+          ? null
+          : 'value must be a number of months, 0 or more';
+      case 'yes_no':
+        return YES_NO_ANSWERS.includes(value as YesNoAnswer)
+          ? null
+          : `value must be one of: ${YES_NO_ANSWERS.join(', ')}`;
+      case 'category': {
+        const names = [...(question.answer_categories || []).map(category => category.name), OTHER_CATEGORY];
+        return names.includes(value as string) ? null : `value must be one of: ${names.join(', ')}`;
+      }
+      default:
+        return `Question ${question.number} has no answer type`;
+    }
+  }
+
+  // Record a reviewer's value; it is final and clears the review flag
+  async review(response: SurveyResponse, question: SurveyQuestion, value: number | string | null) {
+    return repository.updateResponseAnswer(response.id, {
+      answer_type: question.answer_type,
+      answer_value: typeof value === 'number' ? Math.round(value) : value,
+      answer_confidence: 1,
+      needs_review: false,
+      answer_reviewed_at: new Date().toISOString(),
+    });
+  }
+}
+
+export const answerService = new AnswerService();
@@ -0,0 +1,98 @@
+import { supabaseService, Campaign, SurveyCall } from './supabaseService';
+import { repository } from '../repositories';
+import { doNotCallService } from './doNotCallService';
+
+// Calls not updated for this long are treated as finished (missed webhooks)
+export const ACTIVE_CALL_STALE_MS = 30 * 60 * 1000;
+
+const TERMINAL_STATUSES: SurveyCall['call_status'][] = ['completed', 'failed', 'no-answer'];
+
+// Delay before attempt `attempt + 1` under the campaign's retry policy
+export function getRetryDelayMs(campaign: Campaign, attempt: number): number {
+  const minutes = campaign.retry_backoff_minutes * Math.pow(campaign.retry_backoff_multiplier, attempt - 1);
+  return Math.round(minutes * 60 * 1000);
+}
+
+export class CallOutcomeService {
+  // Update the customer's contact status and schedule a retry when the policy allows one
+  async handleCallOutcome(call: SurveyCall) {
+    if (!TERMINAL_STATUSES.includes(call.call_status) || !call.customer_id) return;
+
+    const campaign = call.campaign_id
+      ? await supabaseService.getCampaignById(call.campaign_id)
+      : null;
+
+    if (await doNotCallService.getEntry(call.customer_phone)) {
+      // Opted out (possibly during this very call): never retry
+      await repository.updateCustomerContactStatus(call.customer_id, 'do-not-call');
+    } else if (await repository.countPendingCallbacks(call.customer_id) > 0) {
+      // A callback is already queued; it takes the place of a retry
+      await repository.updateCustomerContactStatus(call.customer_id, 'callback-scheduled');
+    } else if (call.call_status === 'completed') {
+      await repository.updateCustomerContactStatus(call.customer_id, 'reached');
+    } else {
+      await this.scheduleRetry(call, campaign);
+    }
+
+    if (campaign) {
+      await this.completeCampaignIfDone(campaign.id);
+    }
+  }
+
+  private async scheduleRetry(call: SurveyCall, campaign: Campaign | null) {
+    const customerId = call.customer_id!;
+    const attempt = call.attempt_number || 1;
+
+    if (!campaign || !campaign.retryable_statuses.includes(call.call_status)) {
+      await repository.updateCustomerContactStatus(customerId, 'not-reached');
+      return;
+    }
+
+    if (attempt >= campaign.max_attempts) {
+      console.log(`🔁 Customer ${customerId} exhausted ${campaign.max_attempts} attempts in campaign ${campaign.id}`);
+      await repository.updateCustomerContactStatus(customerId, 'attempts-exhausted');
+      return;
+    }
+
+    if (campaign.status !== 'running' && campaign.status !== 'paused') {
+      await repository.updateCustomerContactStatus(customerId, 'not-reached');
+      return;
+    }
+
+    // Webhooks can be redelivered; only ever schedule one retry per call
+    const existing = await supabaseService.getQueueItemByRetryOf(call.id);
+    if (existing) return;
+
+    const scheduledFor = new Date(Date.now() + getRetryDelayMs(campaign, attempt));
+    await supabaseService.enqueueCalls([{
+      customer_id: customerId,
+      campaign_id: campaign.id,
+      status: campaign.status === 'paused' ? 'held' : 'pending',
+      scheduled_for: scheduledFor.toISOString(),
+      retry_of_call_id: call.id,
+    }]);
+    await repository.updateCustomerContactStatus(customerId, 'retry-scheduled');
+
+    console.log(`🔁 Retry ${attempt + 1}/${campaign.max_attempts} for customer ${customerId} scheduled at ${scheduledFor.toISOString()}`);
+  }
+
+  // Mark a running campaign completed once nothing is queued and no call is still live
+  async completeCampaignIfDone(campaignId: string) {
+    const remaining = await supabaseService.countOpenQueueItems({ campaignId });
+    if (remaining > 0) return;
+
+    const activeCalls = await repository.countActiveCalls(new Date(Date.now() - ACTIVE_CALL_STALE_MS), campaignId);
+    if (activeCalls > 0) return;
+
+    const campaign = await supabaseService.getCampaignById(campaignId);
+    if (campaign?.status === 'running') {
+      await supabaseService.updateCampaign(campaignId, {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      });
+      console.log(`✅ Campaign ${campaignId} completed`);
+    }
+  }
+}
+
+export const callOutcomeService = new CallOutcomeService();
@@ -0,0 +1,247 @@
+import { supabaseService, Campaign, CallJob, CallQueueItem, Customer } from './supabaseService';
+import { repository } from '../repositories';
+import { dialerService, DialError } from './dialerService';
+import { callOutcomeService, ACTIVE_CALL_STALE_MS } from './callOutcomeService';
+import { callingHoursService } from './callingHoursService';
+import { DoNotCallError } from './doNotCallService';
+
+// Global limits, shared by every batch request and campaign
+const QUEUE_CONCURRENCY = parseInt(process.env.CALL_QUEUE_CONCURRENCY || '5', 10);
+const MAX_ACTIVE_CALLS = parseInt(process.env.CALL_QUEUE_MAX_ACTIVE_CALLS || '10', 10);
+const POLL_INTERVAL_MS = parseInt(process.env.CALL_QUEUE_POLL_INTERVAL_MS || '2000', 10);
+
+export interface CallJobProgress {
+  jobId: string;
+  campaignId?: string | null;
+  status: CallJob['status'];
+  total: number;
+  counts: Record<CallQueueItem['status'], number>;
+  progress: number;
+  createdAt: string;
+  completedAt?: string | null;
+  items?: Array<{
+    customerId: string;
+    status: CallQueueItem['status'];
+    callId?: string | null;
+    error?: string | null;
+  }>;
+}
+
+export class CallQueueService {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private inFlight = 0;
+
+  // Create a job and queue one dial per customer. Without a campaign each dial runs under the customer's own
+  // campaign, whose calling hours and pauses then apply; the job belongs to a campaign all its customers share.
+  async enqueueJob(customers: Array<Pick<Customer, 'id' | 'campaign_id'>>, campaign?: Campaign | null): Promise<CallJob> {
+    const campaignIds = new Set(customers.map(customer => campaign?.id || customer.campaign_id || null));
+    const jobCampaignId = campaignIds.size === 1 ? Array.from(campaignIds)[0] : null;
+
+    const job = await supabaseService.createCallJob({
+      campaign_id: jobCampaignId,
+      status: 'running',
+      total: customers.length,
+    });
+
+    await supabaseService.enqueueCalls(customers.map(customer => ({
+      job_id: job.id,
+      customer_id: customer.id,
+      campaign_id: campaign?.id || customer.campaign_id || null,
+    })));
+
+    console.log(`📥 Queued job ${job.id} with ${customers.length} calls`);
+    await this.completeJobIfDone(job.id, jobCampaignId);
+    return job;
+  }
+
+  // Progress of a job, optionally with the per-customer outcome
+  async getJobProgress(jobId: string, includeItems = false): Promise<CallJobProgress | null> {
+    const job = await supabaseService.getCallJobById(jobId);
+    if (!job) return null;
+
+    const counts = await supabaseService.getQueueStatusCounts(jobId);
+    const finished = counts.dialed + counts.failed + counts.cancelled;
+
+    const progress: CallJobProgress = {
+      jobId: job.id,
+      campaignId: job.campaign_id,
+      status: job.status,
+      total: job.total,
+      counts,
+      progress: job.total > 0 ? Math.round((finished / job.total) * 10000) / 100 : 100,
+      createdAt: job.created_at,
+      completedAt: job.completed_at,
+    };
+
+    if (includeItems) {
+      const items = await supabaseService.getQueueItemsByJob(jobId);
+      progress.items = items.map(item => ({
+        customerId: item.customer_id,
+        status: item.status,
+        callId: item.call_id,
+        error: item.error,
+      }));
+    }
+
+    return progress;
+  }
+
+  // Start polling the queue
+  async start() {
+    if (this.timer) return;
+
+    try {
+      // Anything still dialing belongs to a previous process; don't risk ringing twice
+      const interrupted = await supabaseService.failInterruptedQueueItems(new Date());
+      if (interrupted > 0) {
+        console.log(`⚠️  Marked ${interrupted} interrupted queue items as failed`);
+      }
+    } catch (error) {
+      console.error('Failed to clean up interrupted queue items:', error);
+    }
+
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    console.log(`📞 Call queue worker started (concurrency ${QUEUE_CONCURRENCY}, max active calls ${MAX_ACTIVE_CALLS})`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Claim as many due items as the global limits allow
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const dialSlots = QUEUE_CONCURRENCY - this.inFlight;
+      if (dialSlots <= 0) return;
+
+      const activeCalls = await repository.countActiveCalls(new Date(Date.now() - ACTIVE_CALL_STALE_MS));
+      const callSlots = MAX_ACTIVE_CALLS - activeCalls - this.inFlight;
+      const limit = Math.min(dialSlots, callSlots);
+      if (limit <= 0) return;
+
+      const due = await supabaseService.getDueQueueItems(limit);
+      for (const item of due) {
+        const claimed = await supabaseService.claimQueueItem(item.id);
+        if (!claimed) continue;
+
+        this.inFlight++;
+        this.processItem(claimed)
+          .catch(error => console.error(`Queue item ${claimed.id} error:`, error))
+          .finally(() => this.inFlight--);
+      }
+    } catch (error) {
+      console.error('Call queue poll error:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async processItem(item: CallQueueItem) {
+    try {
+      const customer = await repository.getCustomerById(item.customer_id);
+      if (!customer) {
+        throw new Error(`Customer ${item.customer_id} not found`);
+      }
+      const campaign = item.campaign_id
+        ? await supabaseService.getCampaignById(item.campaign_id)
+        : null;
+
+      // Campaign paused or cancelled after this item was queued
+      if (campaign?.status === 'paused' || campaign?.status === 'cancelled') {
+        await supabaseService.updateQueueItem(item.id, {
+          status: campaign.status === 'paused' ? 'held' : 'cancelled',
+          locked_at: null,
+        });
+        return;
+      }
+
+      const permittedAt = callingHoursService.getNextPermittedTime(customer, campaign);
+      if (!permittedAt) {
+        throw new Error('No permitted calling time in the next 14 days');
+      }
+      if (permittedAt.getTime() > Date.now()) {
+        await supabaseService.updateQueueItem(item.id, {
+          status: 'pending',
+          scheduled_for: permittedAt.toISOString(),
+          locked_at: null,
+        });
+        console.log(`🕘 Queue item ${item.id} deferred to ${permittedAt.toISOString()} (outside calling hours)`);
+        return;
+      }
+
+      const result = await dialerService.dialCustomer(customer, campaign);
+      await supabaseService.updateQueueItem(item.id, {
+        status: 'dialed',
+        call_id: result.callId,
+        error: null,
+      });
+      if (item.callback_id) {
+        await repository.updateCallback(item.callback_id, { status: 'dialed', dialed_call_id: result.callId });
+      }
+      console.log(`📞 Queue item ${item.id} dialed customer ${item.customer_id} (call ${result.callId})`);
+    } catch (error) {
+      if (error instanceof DoNotCallError) {
+        console.log(`🚫 Queue item ${item.id} skipped: ${error.message}`);
+        await supabaseService.updateQueueItem(item.id, {
+          status: 'cancelled',
+          error: error.message,
+        });
+        if (item.callback_id) {
+          await repository.updateCallback(item.callback_id, { status: 'cancelled' });
+        }
+      } else {
+        await this.recordDialFailure(item, error);
+      }
+    }
+
+    if (item.job_id) {
+      await this.completeJobIfDone(item.job_id, item.campaign_id);
+    } else if (item.campaign_id) {
+      await callOutcomeService.completeCampaignIfDone(item.campaign_id);
+    }
+  }
+
+  private async recordDialFailure(item: CallQueueItem, error: unknown) {
+    console.error(`Failed to dial queue item ${item.id}:`, error);
+    await supabaseService.updateQueueItem(item.id, {
+      status: 'failed',
+      call_id: error instanceof DialError ? error.call.id : null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    if (item.callback_id) {
+      await repository.updateCallback(item.callback_id, { status: 'failed' });
+    }
+
+    if (error instanceof DialError) {
+      await callOutcomeService.handleCallOutcome(error.call);
+    }
+  }
+
+  // Mark the job (and its campaign) completed once nothing is left to dial
+  private async completeJobIfDone(jobId: string, campaignId?: string | null) {
+    const remaining = await supabaseService.countOpenQueueItems({ jobId });
+    if (remaining > 0) return;
+
+    const job = await supabaseService.getCallJobById(jobId);
+    if (job?.status === 'running') {
+      await supabaseService.updateCallJob(jobId, {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      });
+      console.log(`✅ Call job ${jobId} completed`);
+    }
+
+    if (campaignId) {
+      await callOutcomeService.completeCampaignIfDone(campaignId);
+    }
+  }
+}
+
+export const callQueueService = new CallQueueService();
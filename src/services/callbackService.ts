@@ -0,0 +1,161 @@
+import { supabaseService, isSupabaseConfigured, Callback, SurveyCall } from './supabaseService';
+import { repository } from '../repositories';
+import { resolveCustomerTimezones } from './callingHoursService';
+import { parseCallbackTime, ParsedCallbackTime } from './callbackTimeParser';
+import { ElevenLabsTranscriptEntry, ElevenLabsConversationMetadata } from '../webhooks/elevenlabsEvents';
+
+// Agent turns that ask for a better time ("When would be a better time to call back?")
+const CALLBACK_PROMPT = /\b(better time|call you back|ring you back|call back|callback|another time)\b/;
+
+// Customer turns that explicitly ask to be called later. Being busy or driving alone isn't a request:
+// customers often say so and carry on with the survey.
+const CALLBACK_REQUEST = /\b(call|ring|phone|try) (me |us )?(back|again|later)\b|\bnot (a |really a )?good time\b|\bbad time\b/;
+
+// How many customer turns after a prompt or request may still carry the time
+const FOLLOW_UP_TURNS = 2;
+
+export interface CallbackRequest {
+  parsed: ParsedCallbackTime;
+  text: string;
+}
+
+export class CallbackService {
+  // First customer turn in the transcript that asks for a callback at a recognisable time
+  findCallbackRequest(transcript: ElevenLabsTranscriptEntry[], reference: Date, timezone: string): CallbackRequest | null {
+    let turnsLeft = 0;
+
+    for (const entry of transcript) {
+      const role = entry.role || entry.speaker;
+      const message: string = entry.message || entry.response || entry.text || '';
+      const lowerMessage = message.toLowerCase();
+
+      if (role === 'assistant' || role === 'agent') {
+        if (CALLBACK_PROMPT.test(lowerMessage)) {
+          turnsLeft = FOLLOW_UP_TURNS;
+        }
+        continue;
+      }
+
+      if (role !== 'user') continue;
+
+      const requested = CALLBACK_REQUEST.test(lowerMessage);
+      if (requested || turnsLeft > 0) {
+        const parsed = parseCallbackTime(message, reference, timezone);
+        if (parsed) {
+          return { parsed, text: message };
+        }
+      }
+
+      turnsLeft = requested ? FOLLOW_UP_TURNS : Math.max(turnsLeft - 1, 0);
+    }
+
+    return null;
+  }
+
+  // Detect a callback request in a finished call and schedule it
+  async scheduleFromTranscript(call: SurveyCall, transcript: ElevenLabsTranscriptEntry[], metadata: ElevenLabsConversationMetadata): Promise<Callback | null> {
+    if (!call.customer_id) return null;
+
+    // Webhooks can be redelivered; one callback per call
+    const existing = await repository.getCallbackBySourceCall(call.id);
+    if (existing) return existing;
+
+    const customer = await repository.getCustomerById(call.customer_id);
+    if (!customer) return null;
+    const [timezone] = resolveCustomerTimezones(customer);
+    const reference = metadata.start_time_unix_secs
+      ? new Date(metadata.start_time_unix_secs * 1000)
+      : new Date(call.created_at);
+
+    const request = this.findCallbackRequest(transcript, reference, timezone);
+    if (!request) return null;
+
+    console.log(`📅 Callback requested in call ${call.id}: "${request.parsed.matchedText}" → ${request.parsed.scheduledFor.toISOString()}`);
+
+    return this.schedule({
+      customerId: call.customer_id,
+      campaignId: call.campaign_id || null,
+      sourceCallId: call.id,
+      requestedText: request.text,
+      // Transcripts processed late may resolve to a time that has already passed
+      scheduledFor: new Date(Math.max(request.parsed.scheduledFor.getTime(), Date.now())),
+      timezone,
+    });
+  }
+
+  // Record a callback and queue the dial for the requested time
+  async schedule(options: {
+    customerId: string;
+    campaignId?: string | null;
+    sourceCallId?: string | null;
+    requestedText?: string | null;
+    scheduledFor: Date;
+    timezone: string;
+  }): Promise<Callback> {
+    const callback = await repository.createCallback({
+      customer_id: options.customerId,
+      campaign_id: options.campaignId || null,
+      source_call_id: options.sourceCallId || null,
+      requested_text: options.requestedText || null,
+      scheduled_for: options.scheduledFor.toISOString(),
+      timezone: options.timezone,
+      status: 'pending',
+    });
+
+    // Offline there is no call queue; the callback is listed for someone to dial
+    if (isSupabaseConfigured()) {
+      const campaign = options.campaignId
+        ? await supabaseService.getCampaignById(options.campaignId)
+        : null;
+
+      await supabaseService.enqueueCalls([{
+        customer_id: options.customerId,
+        campaign_id: options.campaignId || null,
+        status: campaign?.status === 'paused' ? 'held' : 'pending',
+        scheduled_for: callback.scheduled_for,
+        callback_id: callback.id,
+      }]);
+    }
+    await repository.updateCustomerContactStatus(options.customerId, 'callback-scheduled');
+
+    return callback;
+  }
+
+  // Move a pending callback (and its queued dial) to a new time
+  async reschedule(callback: Callback, scheduledFor: Date, notes?: string): Promise<Callback> {
+    const updated = await repository.updateCallback(callback.id, {
+      scheduled_for: scheduledFor.toISOString(),
+      ...(notes !== undefined ? { notes } : {}),
+    });
+
+    const item = await this.getQueuedDial(callback);
+    if (item && (item.status === 'pending' || item.status === 'held')) {
+      await supabaseService.updateQueueItem(item.id, { scheduled_for: updated.scheduled_for });
+    }
+
+    return updated;
+  }
+
+  async cancel(callback: Callback): Promise<Callback> {
+    const updated = await repository.updateCallback(callback.id, { status: 'cancelled' });
+
+    const item = await this.getQueuedDial(callback);
+    if (item && (item.status === 'pending' || item.status === 'held')) {
+      await supabaseService.updateQueueItem(item.id, { status: 'cancelled', error: 'Callback cancelled' });
+    }
+
+    // The customer answered the call the callback came from
+    if (callback.source_call_id && await repository.countPendingCallbacks(callback.customer_id) === 0) {
+      await repository.updateCustomerContactStatus(callback.customer_id, 'reached');
+    }
+
+    return updated;
+  }
+
+  // Queue item that dials the callback; offline nothing is queued
+  private async getQueuedDial(callback: Callback) {
+    return isSupabaseConfigured() ? supabaseService.getQueueItemByCallback(callback.id) : null;
+  }
+}
+
+export const callbackService = new CallbackService();
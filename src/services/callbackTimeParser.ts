@@ -0,0 +1,159 @@
+import { getLocalTime, zonedTimeToUtc, addDays } from '../utils/timezone';
+
+export interface ParsedCallbackTime {
+  scheduledFor: Date;
+  matchedText: string;
+}
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6, sunday: 7,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+// Default time (minutes since midnight) for a part of the day mentioned without a clock time
+const PARTS_OF_DAY: Array<{ pattern: RegExp; minutes: number; pm: boolean }> = [
+  { pattern: /\bafter lunch\b/, minutes: 14 * 60, pm: true },
+  { pattern: /\b(lunch ?time|lunch)\b/, minutes: 12 * 60 + 30, pm: true },
+  { pattern: /\b(noon|midday)\b/, minutes: 12 * 60, pm: true },
+  { pattern: /\bmorning\b/, minutes: 10 * 60, pm: false },
+  { pattern: /\b(afternoon|arvo)\b/, minutes: 14 * 60, pm: true },
+  { pattern: /\b(evening|tonight)\b/, minutes: 18 * 60, pm: true },
+];
+
+// Time used when only a day is given
+const DEFAULT_MINUTES = 10 * 60;
+
+const NUMBER = '(\\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)';
+
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value] ?? parseInt(value, 10);
+}
+
+// Clock hour in 24h form; without am/pm, 1-7 are read as afternoon (business hours)
+function toHour24(hour: number, meridiem: string | undefined, pmHint: boolean): number {
+  if (meridiem?.startsWith('p')) return hour === 12 ? 12 : hour + 12;
+  if (meridiem?.startsWith('a')) return hour === 12 ? 0 : hour;
+  if (pmHint && hour < 12) return hour + 12;
+  if (hour >= 1 && hour <= 7) return hour + 12;
+  return hour;
+}
+
+function parseRelativeDelay(text: string): { ms: number; matched: string } | null {
+  const halfHour = text.match(/\bin (half an hour|30 minutes)\b/);
+  if (halfHour) return { ms: 30 * 60 * 1000, matched: halfHour[0] };
+
+  const couple = text.match(/\bin a couple of hours\b/);
+  if (couple) return { ms: 2 * 60 * 60 * 1000, matched: couple[0] };
+
+  const match = text.match(new RegExp(`\\bin (an?|${NUMBER}) (hours?|minutes?|mins?)\\b`));
+  if (!match) return null;
+
+  const amount = match[1] === 'a' || match[1] === 'an' ? 1 : toNumber(match[1]);
+  const unitMs = match[3].startsWith('hour') ? 60 * 60 * 1000 : 60 * 1000;
+  return { ms: amount * unitMs, matched: match[0] };
+}
+
+function parseDayOffset(text: string, todayWeekday: number): { days: number; matched: string } | null {
+  let match = text.match(/\bday after tomorrow\b/);
+  if (match) return { days: 2, matched: match[0] };
+
+  match = text.match(/\btomorrow\b/);
+  if (match) return { days: 1, matched: match[0] };
+
+  match = text.match(/\bin (\d{1,2}|one|two|three|four|five|six|seven) days\b/);
+  if (match) return { days: toNumber(match[1]), matched: match[0] };
+
+  match = text.match(/\b(next )?(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/);
+  if (match) {
+    const target = WEEKDAY_NAMES[match[2]];
+    const days = (target - todayWeekday + 7) % 7 || 7;
+    return { days, matched: match[0] };
+  }
+
+  match = text.match(/\bnext week\b/);
+  if (match) return { days: 8 - todayWeekday, matched: match[0] };
+
+  match = text.match(/\b(today|tonight|this (morning|afternoon|arvo|evening)|later on|later today)\b/);
+  if (match) return { days: 0, matched: match[0] };
+
+  return null;
+}
+
+function parseClockTime(text: string, pmHint: boolean): { minutes: number; matched: string } | null {
+  // "half past three", "quarter past 4", "quarter to five"
+  let match = text.match(new RegExp(`\\b(half past|quarter past|quarter to) ${NUMBER}\\b`));
+  if (match) {
+    const hour = toHour24(toNumber(match[2]), undefined, pmHint);
+    const offset = match[1] === 'half past' ? 30 : match[1] === 'quarter past' ? 15 : -15;
+    return { minutes: hour * 60 + offset, matched: match[0] };
+  }
+
+  // "3:30", "3.30pm", "15:00"
+  match = text.match(/\b(\d{1,2})[:.](\d{2})\s*(am|pm|a\.m\.|p\.m\.)?/);
+  if (match && parseInt(match[1], 10) <= 23 && parseInt(match[2], 10) <= 59) {
+    const hour = parseInt(match[1], 10);
+    const hour24 = hour > 12 ? hour : toHour24(hour, match[3], pmHint);
+    return { minutes: hour24 * 60 + parseInt(match[2], 10), matched: match[0].trim() };
+  }
+
+  // "3pm", "three o'clock"
+  match = text.match(new RegExp(`\\b${NUMBER}\\s*(am|pm|a\\.m\\.|p\\.m\\.|o'?clock)\\b`));
+  if (match) {
+    const meridiem = match[2].includes('clock') ? undefined : match[2];
+    return { minutes: toHour24(toNumber(match[1]), meridiem, pmHint) * 60, matched: match[0] };
+  }
+
+  // "at 3", "around four", but not "about three years"
+  match = text.match(new RegExp(`\\b(at|around|about|after) ${NUMBER}\\b(?! ?(years?|months?|weeks?|days?|hours?|minutes?|mins?|times?)\\b)`));
+  if (match) {
+    const hour = toNumber(match[2]);
+    if (hour >= 1 && hour <= 12) {
+      return { minutes: toHour24(hour, undefined, pmHint) * 60, matched: match[0] };
+    }
+  }
+
+  return null;
+}
+
+// Turn a spoken callback request ("tomorrow afternoon", "Thursday at 3") into an instant in the customer's zone
+export function parseCallbackTime(text: string, reference: Date, timezone: string): ParsedCallbackTime | null {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, '\'');
+
+  const delay = parseRelativeDelay(normalized);
+  if (delay) {
+    return {
+      scheduledFor: new Date(reference.getTime() + delay.ms),
+      matchedText: delay.matched,
+    };
+  }
+
+  const local = getLocalTime(reference, timezone);
+  const day = parseDayOffset(normalized, local.weekday);
+  const partOfDay = PARTS_OF_DAY.find(p => p.pattern.test(normalized));
+  const clock = parseClockTime(normalized, partOfDay?.pm || false);
+
+  if (!day && !clock && !partOfDay) return null;
+
+  const minutes = clock?.minutes ?? partOfDay?.minutes ?? DEFAULT_MINUTES;
+  let dayOffset = day?.days ?? 0;
+
+  // A bare time that has already passed today means tomorrow
+  if (!day && minutes <= local.minutes) {
+    dayOffset = 1;
+  }
+
+  const matchedText = [
+    day?.matched,
+    partOfDay ? normalized.match(partOfDay.pattern)![0] : undefined,
+    clock?.matched,
+  ].filter((part, index, all) => part && all.indexOf(part) === index).join(' ');
+
+  return {
+    scheduledFor: zonedTimeToUtc(addDays(local.date, dayOffset), minutes, timezone),
+    matchedText,
+  };
+}
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { Campaign, Customer } from './supabaseService';
+import { getLocalTime } from '../utils/timezone';
+import { parsePhoneNumber } from '../utils/phoneNumber';
+
+export interface CallingWindow {
+  days: number[]; // ISO weekdays, 1 = Monday ... 7 = Sunday
+  startTime: string; // HH:MM local time, inclusive
+  endTime: string; // HH:MM local time, exclusive
+  excludePublicHolidays: boolean;
+}
+
+export const DEFAULT_CALLING_WINDOW: CallingWindow = {
+  days: [1, 2, 3, 4, 5],
+  startTime: '09:00',
+  endTime: '20:00',
+  excludePublicHolidays: true,
+};
+
+// Zones a customer of unknown location must be inside the window for (east and west coast)
+const FALLBACK_TIMEZONES = (process.env.CALLING_FALLBACK_TIMEZONES || 'Australia/Sydney,Australia/Perth')
+  .split(',')
+  .map(tz => tz.trim())
+  .filter(Boolean);
+
+const HOLIDAYS_FILE = process.env.PUBLIC_HOLIDAYS_FILE
+  || path.resolve(process.cwd(), 'config/public-holidays.json');
+
+// How far ahead to look for the next permitted slot, and the step used while looking
+const SEARCH_HORIZON_MS = 14 * 24 * 60 * 60 * 1000;
+const SEARCH_STEP_MS = 5 * 60 * 1000;
+
+const STATE_TIMEZONES: Record<string, string> = {
+  NSW: 'Australia/Sydney',
+  ACT: 'Australia/Sydney',
+  VIC: 'Australia/Melbourne',
+  TAS: 'Australia/Hobart',
+  QLD: 'Australia/Brisbane',
+  SA: 'Australia/Adelaide',
+  WA: 'Australia/Perth',
+  NT: 'Australia/Darwin',
+};
+
+// Holiday region (key in the holidays file) for each zone
+const TIMEZONE_REGIONS: Record<string, string> = {
+  'Australia/Sydney': 'NSW',
+  'Australia/Canberra': 'ACT',
+  'Australia/ACT': 'ACT',
+  'Australia/Broken_Hill': 'NSW',
+  'Australia/Melbourne': 'VIC',
+  'Australia/Hobart': 'TAS',
+  'Australia/Brisbane': 'QLD',
+  'Australia/Adelaide': 'SA',
+  'Australia/Perth': 'WA',
+  'Australia/Darwin': 'NT',
+};
+
+// Minutes since midnight for HH:MM or HH:MM:SS (Postgres TIME)
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+export function isValidTimeOfDay(value: unknown): boolean {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value);
+}
+
+export function isValidTimezone(timezone: unknown): boolean {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-AU', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Zone for an Australian state or territory abbreviation (e.g. from a CSV "state" column)
+export function timezoneForState(state?: string | null): string | null {
+  if (!state) return null;
+  return STATE_TIMEZONES[state.trim().toUpperCase()] || null;
+}
+
+// Zone implied by an Australian landline area code; mobiles and foreign numbers return null
+export function timezoneFromPhoneNumber(phoneNumber: string): string | null {
+  const parsed = parsePhoneNumber(phoneNumber, 'AU');
+  if (!parsed || parsed.country !== 'AU' || parsed.type !== 'landline') return null;
+
+  const digits = '0' + parsed.nationalNumber;
+
+  switch (digits[1]) {
+    case '2':
+      return 'Australia/Sydney';
+    case '3':
+      return digits[2] === '6' ? 'Australia/Hobart' : 'Australia/Melbourne';
+    case '7':
+      return 'Australia/Brisbane';
+    case '8':
+      if (digits[2] === '9' || digits[2] === '6') return 'Australia/Perth';
+      if (digits.startsWith('0889')) return 'Australia/Darwin';
+      return 'Australia/Adelaide';
+    default:
+      return null;
+  }
+}
+
+// Zones the calling window has to be checked in for this customer
+export function resolveCustomerTimezones(customer: Pick<Customer, 'phone_number' | 'timezone'>): string[] {
+  if (customer.timezone && isValidTimezone(customer.timezone)) {
+    return [customer.timezone];
+  }
+
+  const fromPhone = timezoneFromPhoneNumber(customer.phone_number);
+  return fromPhone ? [fromPhone] : FALLBACK_TIMEZONES;
+}
+
+export function getCallingWindow(campaign?: Campaign | null): CallingWindow {
+  if (!campaign) return DEFAULT_CALLING_WINDOW;
+
+  return {
+    days: campaign.calling_days ?? DEFAULT_CALLING_WINDOW.days,
+    startTime: campaign.calling_start_time ?? DEFAULT_CALLING_WINDOW.startTime,
+    endTime: campaign.calling_end_time ?? DEFAULT_CALLING_WINDOW.endTime,
+    excludePublicHolidays: campaign.exclude_public_holidays ?? DEFAULT_CALLING_WINDOW.excludePublicHolidays,
+  };
+}
+
+export class CallingHoursService {
+  private holidays: Record<string, Record<string, string>> | null = null;
+
+  // Public holidays by region, loaded once from the local holidays file
+  private getHolidays(): Record<string, Record<string, string>> {
+    if (!this.holidays) {
+      try {
+        this.holidays = JSON.parse(fs.readFileSync(HOLIDAYS_FILE, 'utf-8'));
+        console.log(`📅 Loaded public holidays from ${HOLIDAYS_FILE}`);
+      } catch (error) {
+        console.warn(`⚠️  Could not load public holidays from ${HOLIDAYS_FILE}:`, error);
+        this.holidays = {};
+      }
+    }
+    return this.holidays!;
+  }
+
+  // Name of the public holiday on a local date in the zone's region, if any
+  getPublicHoliday(date: string, timezone: string): string | null {
+    const holidays = this.getHolidays();
+    const region = TIMEZONE_REGIONS[timezone];
+    return holidays.national?.[date] || (region && holidays[region]?.[date]) || null;
+  }
+
+  isPermitted(window: CallingWindow, timezone: string, at: Date = new Date()): boolean {
+    const local = getLocalTime(at, timezone);
+
+    if (!window.days.includes(local.weekday)) return false;
+    if (local.minutes < parseTimeOfDay(window.startTime) || local.minutes >= parseTimeOfDay(window.endTime)) {
+      return false;
+    }
+    if (window.excludePublicHolidays && this.getPublicHoliday(local.date, timezone)) {
+      return false;
+    }
+    return true;
+  }
+
+  // Earliest time at or after `from` the customer may be called, or null if there is none within the horizon
+  getNextPermittedTime(customer: Pick<Customer, 'phone_number' | 'timezone'>, campaign?: Campaign | null, from: Date = new Date()): Date | null {
+    const window = getCallingWindow(campaign);
+    const timezones = resolveCustomerTimezones(customer);
+    const permitted = (at: Date) => timezones.every(tz => this.isPermitted(window, tz, at));
+
+    if (permitted(from)) return from;
+
+    let candidate = Math.ceil(from.getTime() / SEARCH_STEP_MS) * SEARCH_STEP_MS;
+    const horizon = from.getTime() + SEARCH_HORIZON_MS;
+
+    for (; candidate <= horizon; candidate += SEARCH_STEP_MS) {
+      if (permitted(new Date(candidate))) return new Date(candidate);
+    }
+
+    return null;
+  }
+}
+
+export const callingHoursService = new CallingHoursService();
@@ -0,0 +1,119 @@
+import { supabaseService, Campaign } from './supabaseService';
+import { repository } from '../repositories';
+import { callQueueService } from './callQueueService';
+import { callOutcomeService } from './callOutcomeService';
+
+export type CampaignAction = 'start' | 'pause' | 'resume' | 'cancel';
+
+// Statuses each lifecycle action may be applied from
+const ALLOWED_TRANSITIONS: Record<CampaignAction, Campaign['status'][]> = {
+  start: ['draft', 'scheduled'],
+  pause: ['running'],
+  resume: ['paused'],
+  cancel: ['draft', 'scheduled', 'running', 'paused'],
+};
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+export class CampaignTransitionError extends Error {
+  constructor(action: CampaignAction, status: Campaign['status']) {
+    super(`Cannot ${action} a campaign that is ${status}`);
+    this.name = 'CampaignTransitionError';
+  }
+}
+
+export class CampaignService {
+  private schedulerTimer: NodeJS.Timeout | null = null;
+
+  // Apply a lifecycle action and queue, hold or cancel the campaign's dials accordingly
+  async applyAction(campaign: Campaign, action: CampaignAction): Promise<Campaign> {
+    if (!ALLOWED_TRANSITIONS[action].includes(campaign.status)) {
+      throw new CampaignTransitionError(action, campaign.status);
+    }
+
+    // Only from the status read, so a manual start racing the scheduler can't queue the campaign twice
+    const transition = async (updates: Parameters<typeof supabaseService.transitionCampaign>[2]) => {
+      const updated = await supabaseService.transitionCampaign(campaign.id, [campaign.status], updates);
+      if (!updated) {
+        const current = await supabaseService.getCampaignById(campaign.id);
+        throw new CampaignTransitionError(action, current?.status ?? campaign.status);
+      }
+      return updated;
+    };
+
+    let updated: Campaign;
+    switch (action) {
+      case 'start':
+        updated = await transition({
+          status: 'running',
+          started_at: new Date().toISOString(),
+        });
+        await this.enqueueUndialedCustomers(updated);
+        break;
+
+      case 'resume':
+        updated = await transition({ status: 'running' });
+        await supabaseService.setCampaignQueueStatus(campaign.id, ['held'], 'pending');
+        // Customers assigned while paused are picked up too
+        await this.enqueueUndialedCustomers(updated);
+        break;
+
+      case 'pause':
+        // Dials already in flight finish; everything else waits in the queue
+        updated = await transition({ status: 'paused' });
+        await supabaseService.setCampaignQueueStatus(campaign.id, ['pending'], 'held');
+        break;
+
+      case 'cancel':
+        updated = await transition({
+          status: 'cancelled',
+          completed_at: new Date().toISOString(),
+        });
+        await supabaseService.setCampaignQueueStatus(campaign.id, ['pending', 'held'], 'cancelled');
+        await supabaseService.cancelCampaignJobs(campaign.id);
+        break;
+    }
+
+    console.log(`📣 Campaign ${campaign.id} ${action}: ${campaign.status} → ${updated.status}`);
+    return updated;
+  }
+
+  // Queue every assigned customer that has not been called or queued yet
+  private async enqueueUndialedCustomers(campaign: Campaign) {
+    const customers = await repository.getCustomersByCampaign(campaign.id);
+    const calledIds = await repository.getCalledCustomerIds(campaign.id);
+    const queuedIds = await supabaseService.getQueuedCustomerIds(campaign.id);
+    const pending = customers.filter(c => !calledIds.has(c.id) && !queuedIds.has(c.id));
+
+    if (pending.length > 0) {
+      await callQueueService.enqueueJob(pending, campaign);
+    } else {
+      await callOutcomeService.completeCampaignIfDone(campaign.id);
+    }
+  }
+
+  // Start campaigns whose scheduled start time has passed
+  async startDueCampaigns() {
+    const due = await supabaseService.getDueScheduledCampaigns();
+    for (const campaign of due) {
+      try {
+        await this.applyAction(campaign, 'start');
+      } catch (error) {
+        console.error(`Failed to start scheduled campaign ${campaign.id}:`, error);
+      }
+    }
+  }
+
+  // Poll for scheduled campaigns
+  startScheduler() {
+    if (this.schedulerTimer) return;
+
+    const tick = () => this.startDueCampaigns()
+      .catch(error => console.error('Campaign scheduler error:', error));
+
+    tick();
+    this.schedulerTimer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+  }
+}
+
+export const campaignService = new CampaignService();
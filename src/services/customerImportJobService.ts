@@ -0,0 +1,161 @@
+import fs from 'fs';
+import { supabaseService, CustomerImport } from './supabaseService';
+import { customerImportService, ColumnMapping } from './customerImportService';
+
+const POLL_INTERVAL_MS = parseInt(process.env.CUSTOMER_IMPORT_POLL_INTERVAL_MS || '5000', 10);
+// A processing job that has not reported progress for this long belonged to a process that died
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+function removeUpload(job: CustomerImport) {
+  if (job.file_path) {
+    fs.promises.unlink(job.file_path).catch(() => {
+      // Already gone
+    });
+  }
+}
+
+// Runs queued customer imports one at a time, recording progress and error rows as it goes
+export class CustomerImportJobService {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  // Wake the worker for a job that was just queued
+  notify() {
+    setImmediate(() => this.poll());
+  }
+
+  // Cancel a job; one already processing stops after its current chunk, keeping the rows written so far
+  async cancel(job: CustomerImport): Promise<CustomerImport | null> {
+    const cancelled = await supabaseService.transitionCustomerImport(job.id, ['pending', 'processing'], {
+      status: 'cancelled',
+      completed_at: new Date().toISOString(),
+    });
+
+    if (cancelled?.status === 'cancelled' && job.status === 'pending') {
+      removeUpload(job);
+    }
+    if (cancelled) {
+      console.log(`🛑 Customer import ${job.id} cancelled`);
+    }
+    return cancelled;
+  }
+
+  async start() {
+    if (this.timer) return;
+
+    try {
+      await this.failInterrupted();
+    } catch (error) {
+      console.error('Failed to clean up interrupted customer imports:', error);
+    }
+
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    console.log('📥 Customer import worker started');
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      // Checked every poll too, as a job interrupted shortly before a restart only goes stale later
+      await this.failInterrupted();
+
+      for (const job of await supabaseService.getPendingCustomerImports(5)) {
+        const claimed = await supabaseService.transitionCustomerImport(job.id, ['pending'], {
+          status: 'processing',
+          started_at: new Date().toISOString(),
+        });
+        if (claimed) {
+          await this.process(claimed);
+        }
+      }
+    } catch (error) {
+      console.error('Customer import poll error:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async failInterrupted() {
+    const interrupted = await supabaseService.failInterruptedCustomerImports(new Date(Date.now() - STALE_AFTER_MS));
+    interrupted.forEach(removeUpload);
+    if (interrupted.length > 0) {
+      console.log(`⚠️  Marked ${interrupted.length} interrupted customer imports as failed`);
+    }
+  }
+
+  private async process(job: CustomerImport) {
+    console.log(`📥 Processing customer import ${job.id} (${job.file_name || 'upload'}, ${job.mode})`);
+
+    try {
+      if (!job.file_path || !fs.existsSync(job.file_path)) {
+        throw new Error('The uploaded file is no longer on this server');
+      }
+
+      const totalRows = await customerImportService.countRows(fs.createReadStream(job.file_path));
+      await supabaseService.updateCustomerImport(job.id, { total_rows: totalRows });
+
+      const progress = {
+        processed_rows: 0,
+        inserted_count: 0,
+        updated_count: 0,
+        skipped_count: 0,
+        error_count: 0,
+      };
+      let cancelled = false;
+
+      await customerImportService.import(
+        fs.createReadStream(job.file_path),
+        { mode: job.mode, mapping: (job.mapping || undefined) as ColumnMapping | undefined, campaignId: job.campaign_id },
+        async outcome => {
+          progress.processed_rows += outcome.rows;
+          progress.inserted_count += outcome.inserted.length;
+          progress.updated_count += outcome.updated.length;
+          progress.skipped_count += outcome.skipped;
+          progress.error_count += outcome.errors.length;
+
+          await supabaseService.addCustomerImportErrors(outcome.errors.map(error => ({
+            import_id: job.id,
+            row_number: error.row,
+            error: error.error,
+            row_values: error.values,
+          })));
+
+          const current = await supabaseService.updateCustomerImport(job.id, progress);
+          cancelled = current.status === 'cancelled';
+          return !cancelled;
+        }
+      );
+
+      if (cancelled) {
+        console.log(`🛑 Customer import ${job.id} stopped after ${progress.processed_rows} of ${totalRows} rows`);
+        return;
+      }
+
+      await supabaseService.transitionCustomerImport(job.id, ['processing'], {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      });
+      console.log(`✅ Customer import ${job.id}: ${progress.inserted_count} inserted, ${progress.updated_count} updated, ${progress.skipped_count} skipped, ${progress.error_count} errors`);
+    } catch (error) {
+      console.error(`Customer import ${job.id} failed:`, error);
+      await supabaseService.transitionCustomerImport(job.id, ['processing'], {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date().toISOString(),
+      }).catch(updateError => console.error('Failed to record customer import failure:', updateError));
+    } finally {
+      removeUpload(job);
+    }
+  }
+}
+
+export const customerImportJobService = new CustomerImportJobService();
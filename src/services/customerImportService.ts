@@ -0,0 +1,421 @@
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import { supabaseService, Customer } from './supabaseService';
+import { repository, NewCustomer } from '../repositories';
+import { isValidTimezone, timezoneForState } from './callingHoursService';
+import { parsePhoneNumber, PhoneNumberType } from '../utils/phoneNumber';
+
+export type ImportField = 'first_name' | 'last_name' | 'phone_number' | 'company_name' | 'campaign_id' | 'timezone' | 'state';
+export type ImportMode = 'insert' | 'upsert' | 'skip'; // What to do with numbers that already exist
+
+export const IMPORT_FIELDS: readonly ImportField[] = ['first_name', 'last_name', 'phone_number', 'company_name', 'campaign_id', 'timezone', 'state'];
+export const IMPORT_MODES: readonly ImportMode[] = ['insert', 'upsert', 'skip'];
+
+const WRITE_BATCH_SIZE = 500;
+const IMPORT_CHUNK_SIZE = 1000; // Rows read, checked and written between progress updates
+
+// Headers recognised without a mapping, compared lowercased with spaces and dashes as underscores
+const HEADER_ALIASES: Record<string, ImportField> = {
+  first_name: 'first_name',
+  firstname: 'first_name',
+  given_name: 'first_name',
+  last_name: 'last_name',
+  lastname: 'last_name',
+  surname: 'last_name',
+  phone: 'phone_number',
+  phone_number: 'phone_number',
+  mobile: 'phone_number',
+  number: 'phone_number',
+  company: 'company_name',
+  company_name: 'company_name',
+  business: 'company_name',
+  campaign_id: 'campaign_id',
+  timezone: 'timezone',
+  time_zone: 'timezone',
+  state: 'state',
+};
+
+// CSV header → field, or null to ignore the column
+export type ColumnMapping = Record<string, ImportField | null>;
+
+export interface ImportOptions {
+  mode: ImportMode;
+  mapping?: ColumnMapping; // Overrides the recognised headers
+  campaignId?: string | null; // For rows without a campaign_id column value
+}
+
+export interface ImportRowResult {
+  row: number; // 1-based and counting the header line, like a spreadsheet
+  status: 'insert' | 'update' | 'skip' | 'error';
+  errors: string[];
+  customer: NewCustomer | null; // What will be written
+  existingCustomerId?: string;
+  phoneType?: PhoneNumberType; // Mobile or landline, for valid numbers
+  values: Record<string, string>; // The row as it appeared in the file
+}
+
+export interface ImportPreview {
+  mode: ImportMode;
+  columns: ColumnMapping; // Every header in the file and the field it feeds
+  ignored: string[]; // Headers that feed no field; their values are not imported
+  total: number;
+  counts: Record<ImportRowResult['status'], number>;
+  rows: ImportRowResult[];
+}
+
+export interface ImportRowError {
+  row: number;
+  error: string;
+  values: Record<string, string>; // The row as it appeared in the file
+}
+
+// What writing one chunk of rows did
+export interface ImportChunkOutcome {
+  rows: number;
+  inserted: Customer[];
+  updated: Customer[];
+  skipped: number;
+  errors: ImportRowError[];
+}
+
+// Problem with the file or options as a whole rather than a row; reported as 400
+export class CustomerImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomerImportError';
+  }
+}
+
+function headerKey(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as { code?: string }).code === '23505';
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+  return 'Database error';
+}
+
+interface CsvRecord {
+  row: number;
+  values: Record<string, string>;
+}
+
+// Stream the file's records in chunks; `handle` returning false stops reading. Resolves to the headers
+async function readCsvChunks(
+  input: Readable,
+  size: number,
+  handle: (headers: string[], records: CsvRecord[]) => Promise<boolean | void>
+): Promise<string[]> {
+  let headers: string[] = [];
+  const parser = input.pipe(csv({ mapHeaders: ({ header }) => header.replace(/^\uFEFF/, '').trim() }));
+  parser.on('headers', (parsed: string[]) => {
+    headers = parsed;
+  });
+  input.on('error', error => parser.destroy(error));
+
+  let chunk: CsvRecord[] = [];
+  let row = 1; // Header line
+  for await (const values of parser) {
+    chunk.push({ row: ++row, values });
+    if (chunk.length >= size) {
+      const records = chunk;
+      chunk = [];
+      if (await handle(headers, records) === false) {
+        input.destroy();
+        return headers;
+      }
+    }
+  }
+
+  if (chunk.length > 0 || row === 1) {
+    await handle(headers, chunk);
+  }
+  return headers;
+}
+
+function explicitColumns(mapping: ColumnMapping = {}): Map<string, ImportField | null> {
+  return new Map(Object.entries(mapping).map(([header, field]) => [headerKey(header), field]));
+}
+
+function mapColumns(headers: string[], explicit: Map<string, ImportField | null>): ColumnMapping {
+  const columns: ColumnMapping = {};
+  headers.forEach(header => {
+    const key = headerKey(header);
+    columns[header] = explicit.has(key) ? explicit.get(key)! : HEADER_ALIASES[key] ?? null;
+  });
+  return columns;
+}
+
+// Headers of a file that no field is read from, e.g. a "Notes" column nothing maps
+export function ignoredColumns(headers: string[], mapping?: ColumnMapping | null): string[] {
+  return Object.entries(mapColumns(headers, explicitColumns(mapping || {})))
+    .filter(([, field]) => field === null)
+    .map(([header]) => header);
+}
+
+// Field for every header: the explicit mapping first, then the recognised aliases
+function resolveColumns(headers: string[], mapping: ColumnMapping = {}): ColumnMapping {
+  const explicit = explicitColumns(mapping);
+
+  for (const [header, field] of Object.entries(mapping)) {
+    if (field !== null && !IMPORT_FIELDS.includes(field)) {
+      throw new CustomerImportError(`Column "${header}" is mapped to unknown field "${field}"; use one of: ${IMPORT_FIELDS.join(', ')}`);
+    }
+    if (!headers.some(candidate => headerKey(candidate) === headerKey(header))) {
+      throw new CustomerImportError(`Mapped column "${header}" is not in the file`);
+    }
+  }
+
+  const columns = mapColumns(headers, explicit);
+
+  for (const field of ['first_name', 'phone_number'] as const) {
+    const mapped = Object.values(columns).filter(value => value === field).length;
+    if (mapped === 0) {
+      throw new CustomerImportError(`No column maps to ${field}; add a mapping for it`);
+    }
+    if (mapped > 1) {
+      throw new CustomerImportError(`More than one column maps to ${field}`);
+    }
+  }
+
+  return columns;
+}
+
+function mapRow(row: Record<string, string>, columns: ColumnMapping): Partial<Record<ImportField, string>> {
+  const values: Partial<Record<ImportField, string>> = {};
+  for (const [header, field] of Object.entries(columns)) {
+    const value = (row[header] ?? '').trim();
+    if (field && value && !values[field]) values[field] = value;
+  }
+  return values;
+}
+
+// State carried across the chunks of one file: resolved columns, campaign lookups and numbers seen so far
+class ImportSession {
+  columns: ColumnMapping = {};
+  private campaigns = new Map<string, boolean>();
+  private firstRow = new Map<string, number>(); // Phone number → first valid row using it
+
+  constructor(private options: ImportOptions) {}
+
+  async start(headers: string[]) {
+    if (headers.length === 0) {
+      throw new CustomerImportError('The file has no header row');
+    }
+    this.columns = resolveColumns(headers, this.options.mapping);
+
+    if (this.options.campaignId && !await this.campaignExists(this.options.campaignId)) {
+      throw new CustomerImportError(`Campaign ${this.options.campaignId} not found`);
+    }
+  }
+
+  // Validate rows and decide what importing each would do
+  async plan(records: CsvRecord[]): Promise<ImportRowResult[]> {
+    const results: ImportRowResult[] = [];
+
+    for (const record of records) {
+      const values = mapRow(record.values, this.columns);
+      const errors: string[] = [];
+
+      const phone = values.phone_number ? parsePhoneNumber(values.phone_number) : null;
+      if (!values.first_name) errors.push('First name is required');
+      if (!values.phone_number) {
+        errors.push('Phone number is required');
+      } else if (!phone) {
+        errors.push('Invalid phone number format');
+      }
+
+      // Time zone column, or a state column it can be derived from
+      const timezone = values.timezone || timezoneForState(values.state);
+      if (timezone && !isValidTimezone(timezone)) {
+        errors.push('Invalid timezone');
+      }
+
+      const campaignId = values.campaign_id || this.options.campaignId || undefined;
+      if (values.campaign_id && !await this.campaignExists(values.campaign_id)) {
+        errors.push(`Campaign ${values.campaign_id} not found`);
+      }
+
+      results.push({
+        row: record.row,
+        status: errors.length > 0 ? 'error' : 'insert',
+        errors,
+        customer: errors.length > 0 ? null : {
+          first_name: values.first_name!,
+          last_name: values.last_name,
+          phone_number: phone!.e164,
+          company_name: values.company_name,
+          campaign_id: campaignId,
+          timezone: timezone || undefined,
+        },
+        phoneType: phone?.type,
+        values: record.values,
+      });
+    }
+
+    await this.classifyDuplicates(results);
+    return results;
+  }
+
+  // Write the planned inserts and updates in batches
+  async write(results: ImportRowResult[]): Promise<ImportChunkOutcome> {
+    const outcome: ImportChunkOutcome = {
+      rows: results.length,
+      inserted: [],
+      updated: [],
+      skipped: results.filter(result => result.status === 'skip').length,
+      errors: results
+        .filter(result => result.status === 'error')
+        .map(result => ({ row: result.row, error: result.errors.join(', '), values: result.values })),
+    };
+
+    const writeAll = async (status: 'insert' | 'update', writeBatch: (customers: NewCustomer[]) => Promise<Customer[]>) => {
+      const written: Customer[] = [];
+      const pending = results.filter(result => result.status === status);
+
+      for (let i = 0; i < pending.length; i += WRITE_BATCH_SIZE) {
+        const batch = pending.slice(i, i + WRITE_BATCH_SIZE);
+        try {
+          written.push(...await writeBatch(batch.map(result => result.customer!)));
+        } catch (batchError) {
+          // Retry row by row so the failure is pinned to the rows that caused it
+          for (const result of batch) {
+            try {
+              written.push(...await writeBatch([result.customer!]));
+            } catch (error) {
+              if (this.options.mode === 'skip' && isUniqueViolation(error)) {
+                outcome.skipped++;
+              } else {
+                outcome.errors.push({ row: result.row, error: errorMessage(error), values: result.values });
+              }
+            }
+          }
+        }
+      }
+
+      return written;
+    };
+
+    outcome.inserted = await writeAll('insert', customers => repository.createCustomers(customers));
+    outcome.updated = await writeAll('update', customers => repository.upsertCustomers(customers));
+    outcome.errors.sort((a, b) => a.row - b.row);
+    return outcome;
+  }
+
+  private async campaignExists(id: string) {
+    if (!this.campaigns.has(id)) {
+      this.campaigns.set(id, !!await supabaseService.getCampaignById(id));
+    }
+    return this.campaigns.get(id)!;
+  }
+
+  // Rows repeating a number earlier in the file or already stored, handled per the import mode
+  private async classifyDuplicates(results: ImportRowResult[]) {
+    const valid = results.filter(result => result.status !== 'error');
+    const existing = new Map(
+      (await repository.getCustomersByPhoneNumbers(valid.map(result => result.customer!.phone_number)))
+        .map(customer => [customer.phone_number, customer])
+    );
+
+    for (const result of valid) {
+      const phoneNumber = result.customer!.phone_number;
+      const earlierRow = this.firstRow.get(phoneNumber);
+      const stored = existing.get(phoneNumber);
+
+      if (earlierRow !== undefined) {
+        result.status = this.options.mode === 'skip' ? 'skip' : 'error';
+        result.errors.push(`Phone number repeats row ${earlierRow}`);
+        continue;
+      }
+      this.firstRow.set(phoneNumber, result.row);
+
+      if (!stored) continue;
+      result.existingCustomerId = stored.id;
+
+      if (this.options.mode === 'insert') {
+        result.status = 'error';
+        result.errors.push(`Phone number already belongs to customer ${stored.id}`);
+      } else if (this.options.mode === 'skip') {
+        result.status = 'skip';
+      } else {
+        // Blank cells keep the stored value
+        const { id, uploaded_at, ...current } = stored;
+        result.status = 'update';
+        result.customer = { ...current, ...Object.fromEntries(Object.entries(result.customer!).filter(([, value]) => value !== undefined)) } as NewCustomer;
+      }
+    }
+
+    results.filter(result => result.status === 'error').forEach(result => {
+      result.customer = null;
+    });
+  }
+}
+
+export class CustomerImportService {
+  // Check the header row against the mapping and options before any rows are read
+  async checkFile(input: Readable, options: ImportOptions): Promise<{ headers: string[]; columns: ColumnMapping }> {
+    const session = new ImportSession(options);
+    const headers = await readCsvChunks(input, 1, async headers => {
+      await session.start(headers);
+      return false;
+    });
+    return { headers, columns: session.columns };
+  }
+
+  async countRows(input: Readable): Promise<number> {
+    let count = 0;
+    await readCsvChunks(input, IMPORT_CHUNK_SIZE, async (headers, records) => {
+      count += records.length;
+    });
+    return count;
+  }
+
+  // Validate every row and work out what importing it would do, without writing anything
+  async preview(input: Readable, options: ImportOptions): Promise<ImportPreview> {
+    const session = new ImportSession(options);
+    const rows: ImportRowResult[] = [];
+    let started = false;
+
+    await readCsvChunks(input, IMPORT_CHUNK_SIZE, async (headers, records) => {
+      if (!started) {
+        await session.start(headers);
+        started = true;
+      }
+      rows.push(...await session.plan(records));
+    });
+
+    const counts = { insert: 0, update: 0, skip: 0, error: 0 };
+    rows.forEach(result => counts[result.status]++);
+
+    return {
+      mode: options.mode,
+      columns: session.columns,
+      ignored: Object.keys(session.columns).filter(header => session.columns[header] === null),
+      total: rows.length,
+      counts,
+      rows,
+    };
+  }
+
+  // Import the file a chunk at a time; `onChunk` returning false stops before the next chunk
+  async import(input: Readable, options: ImportOptions, onChunk: (outcome: ImportChunkOutcome) => Promise<boolean | void>) {
+    const session = new ImportSession(options);
+    let started = false;
+
+    await readCsvChunks(input, IMPORT_CHUNK_SIZE, async (headers, records) => {
+      if (!started) {
+        await session.start(headers);
+        started = true;
+      }
+      const outcome = await session.write(await session.plan(records));
+      return onChunk(outcome);
+    });
+  }
+}
+
+export const customerImportService = new CustomerImportService();
@@ -0,0 +1,132 @@
+import { supabaseService, Customer, SurveyCall } from './supabaseService';
+import { repository, CustomerUpdates, NewCustomer } from '../repositories';
+import { phoneNumberKey } from '../utils/phoneNumber';
+
+const SCAN_PAGE_SIZE = 500;
+const OPEN_CALL_STATUSES: SurveyCall['call_status'][] = ['queued', 'in-progress'];
+
+// Change that would clash with other data (duplicate number, call in progress); reported as 409
+export class CustomerConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomerConflictError';
+  }
+}
+
+export interface DuplicateGroup {
+  phone_number: string; // Number shared by the group, in the form phoneNumberKey compares
+  customers: Customer[]; // Oldest upload first; the first is the suggested survivor
+}
+
+export interface MergeResult {
+  customer: Customer;
+  merged: string[]; // Ids of the deleted duplicates
+  calls: number;
+  callbacks: number;
+  queueItems: number;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as { code?: string }).code === '23505';
+}
+
+export class CustomerService {
+  // Customers sharing a phone number once formatting is ignored
+  async findDuplicates(): Promise<DuplicateGroup[]> {
+    const groups = new Map<string, Customer[]>();
+
+    for (let offset = 0; ; offset += SCAN_PAGE_SIZE) {
+      const page = await repository.listCustomers({}, { limit: SCAN_PAGE_SIZE, offset, sort: 'uploaded_at', ascending: true });
+      page.rows.forEach(customer => {
+        const key = phoneNumberKey(customer.phone_number);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(customer);
+      });
+      if (offset + SCAN_PAGE_SIZE >= page.total) break;
+    }
+
+    return Array.from(groups.entries())
+      .filter(([, customers]) => customers.length > 1)
+      .map(([phoneNumber, customers]) => ({ phone_number: phoneNumber, customers }));
+  }
+
+  async createCustomer(customer: NewCustomer): Promise<Customer> {
+    try {
+      return await repository.createCustomer(customer);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new CustomerConflictError(`Another customer already has phone number ${customer.phone_number}`);
+      }
+      throw error;
+    }
+  }
+
+  async updateCustomer(customer: Customer, updates: CustomerUpdates): Promise<Customer> {
+    try {
+      const updated = await repository.updateCustomer(customer.id, updates);
+      if (!updated) throw new Error(`Customer ${customer.id} not found`);
+      return updated;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new CustomerConflictError(`Another customer already has phone number ${updates.phone_number}`);
+      }
+      throw error;
+    }
+  }
+
+  // Delete a customer. Their calls stay in reports with the link cleared; queue entries and callbacks go with them
+  async deleteCustomer(customer: Customer) {
+    await this.assertNoOpenCalls([customer]);
+    await repository.deleteCustomer(customer.id);
+    console.log(`🗑️  Deleted customer ${customer.id}`);
+  }
+
+  // Fold duplicates into the survivor: blank survivor fields are filled from the duplicates, calls,
+  // callbacks and queue history move over, then the duplicates are deleted. Each step leaves the
+  // duplicates in place until the last, so a merge that fails part-way can simply be run again.
+  async mergeCustomers(survivor: Customer, duplicates: Customer[]): Promise<MergeResult> {
+    await this.assertNoOpenCalls([survivor, ...duplicates]);
+    const ids = duplicates.map(duplicate => duplicate.id);
+
+    const fill = <K extends 'last_name' | 'company_name' | 'timezone' | 'campaign_id'>(field: K) =>
+      survivor[field] || duplicates.find(duplicate => duplicate[field])?.[field] || undefined;
+    const optedOut = duplicates.some(duplicate => duplicate.contact_status === 'do-not-call');
+
+    const customer = await repository.updateCustomer(survivor.id, {
+      last_name: fill('last_name'),
+      company_name: fill('company_name'),
+      timezone: fill('timezone'),
+      campaign_id: fill('campaign_id'),
+      contact_status: optedOut ? 'do-not-call' : undefined,
+    });
+    if (!customer) throw new Error(`Customer ${survivor.id} not found`);
+
+    // The survivor's own schedule wins; the duplicates' pending dials would ring the same person again
+    await supabaseService.cancelCustomerQueueItems(ids, `Merged into customer ${survivor.id}`);
+    const calls = await repository.reassignCalls(ids, survivor.id);
+    const callbacks = await repository.reassignCallbacks(ids, survivor.id);
+    const queueItems = await supabaseService.reassignQueueItems(ids, survivor.id);
+
+    for (const id of ids) {
+      await repository.deleteCustomer(id);
+    }
+
+    console.log(`🔗 Merged ${ids.length} duplicate(s) into customer ${survivor.id} (${calls} calls, ${callbacks} callbacks)`);
+    return { customer, merged: ids, calls, callbacks, queueItems };
+  }
+
+  // A call in flight still reports back to its customer, so it must not move or disappear
+  private async assertNoOpenCalls(customers: Customer[]) {
+    for (const customer of customers) {
+      const { total } = await repository.listCalls(
+        { customerId: customer.id, statuses: OPEN_CALL_STATUSES },
+        { limit: 1, offset: 0, sort: 'created_at', ascending: false }
+      );
+      if (total > 0) {
+        throw new CustomerConflictError(`Customer ${customer.id} has a call in progress`);
+      }
+    }
+  }
+}
+
+export const customerService = new CustomerService();
@@ -0,0 +1,67 @@
+import { SurveyDefinition } from './supabaseService';
+
+export const DEFAULT_SURVEY_ID = 'great-southern-fuels';
+
+// The original Great Southern Fuels survey; used whenever no stored survey with this id exists
+export const DEFAULT_SURVEY: SurveyDefinition = {
+  id: DEFAULT_SURVEY_ID,
+  name: 'Great Southern Fuels customer experience',
+  organisation_name: 'Great Southern Fuels',
+  agent_name: 'Sophie',
+  purpose: 'a brief 2-minute customer feedback survey',
+  greeting: 'Hi {{customer_name}}, Sophie here calling from Great Southern Fuels. We\'re conducting a short customer experience survey — it\'ll only take about two minutes. Is now a good time?',
+  decline_response: 'No worries! When would be a better time to call back?',
+  closing: 'Thanks for your time, your feedback helps us keep improving.',
+  ai_disclosure: 'Yes, I am! I\'m programmed and work for Christopher Forte from Great Southern Fuels. He can only do a few calls a day, not like me *giggles*. You can contact him on 1300 111 222 if you prefer to speak to him personally.',
+  tone: 'Friendly, professional, conversational. Keep responses concise (1-2 sentences max) for low latency.',
+  questions: [
+    {
+      number: 1,
+      text: 'How long have you been using Great Southern Fuels?',
+      detection_phrases: ['how long have you been'],
+      follow_ups: [],
+      answer_type: 'duration',
+    },
+    {
+      number: 2,
+      text: 'What\'s the main reason you continue to work with us?',
+      detection_phrases: ['main reason', 'reason you continue'],
+      follow_ups: [],
+      answer_type: 'category',
+      answer_categories: [
+        { name: 'reliability', keywords: ['reliable', 'reliability', 'on time', 'never run out', 'never ran out', 'always there', 'always deliver', 'dependable', 'consistent', 'turn up', 'show up'] },
+        { name: 'price', keywords: ['price', 'prices', 'pricing', 'cheap', 'cheaper', 'cost', 'costs', 'value', 'competitive', 'discount', 'rates', 'affordable'] },
+        { name: 'service', keywords: ['service', 'staff', 'driver', 'drivers', 'friendly', 'helpful', 'responsive', 'easy to deal with', 'customer service', 'look after'] },
+        { name: 'relationship', keywords: ['relationship', 'loyal', 'loyalty', 'know us', 'know them', 'local', 'family', 'years', 'trust', 'rep', 'account manager'] },
+        { name: 'convenience', keywords: ['convenient', 'convenience', 'easy to order', 'simple', 'close by', 'nearby', 'location', 'automatic', 'top up', 'hassle'] },
+        { name: 'quality', keywords: ['quality', 'clean fuel', 'good fuel', 'product', 'fuel quality', 'equipment'] },
+      ],
+    },
+    {
+      number: 3,
+      text: 'Has our service been meeting expectations in that area?',
+      instructions: 'Reflect their Q2 answer',
+      detection_phrases: ['meeting expectations'],
+      follow_ups: [
+        { text: 'How important is that to your business?', detection_phrases: ['how important'] },
+        { text: 'How could we improve?', detection_phrases: ['how could we improve'] },
+      ],
+    },
+    {
+      number: 4,
+      text: 'Do our actions on site and on the road meet your safety expectations?',
+      detection_phrases: ['safety expectations'],
+      answer_type: 'yes_no',
+      follow_ups: [
+        { condition: 'If YES', text: 'What actions show safe behaviour?', detection_phrases: ['what actions show'] },
+        { condition: 'If NO', text: 'What actions don\'t meet expectations?', detection_phrases: ['what actions don\'t'] },
+      ],
+    },
+    {
+      number: 5,
+      text: 'Anything else about your business or our service you\'d like to mention?',
+      detection_phrases: ['anything else', 'anything about your business'],
+      follow_ups: [],
+    },
+  ],
+};
@@ -0,0 +1,94 @@
+import { Campaign, Customer, SurveyCall } from './supabaseService';
+import { repository } from '../repositories';
+import { voiceProvider, VoiceProviderError } from '../providers';
+import { doNotCallService, DoNotCallError } from './doNotCallService';
+import { surveyService } from './surveyService';
+
+export interface DialResult {
+  customerId: string;
+  callId: string;
+  callSid: string;
+  status: SurveyCall['call_status'];
+  attemptNumber: number;
+}
+
+// Thrown when the provider rejects a dial; `call` is the failed attempt that was recorded, and `status` the
+// provider's HTTP status when it answered
+export class DialError extends Error {
+  constructor(message: string, public call: SurveyCall, public status: number | null = null) {
+    super(message);
+    this.name = 'DialError';
+  }
+}
+
+export class DialerService {
+  // Dial a customer and record the call, optionally on behalf of a campaign
+  async dialCustomer(customer: Customer, campaign?: Campaign | null): Promise<DialResult> {
+    try {
+      await doNotCallService.assertCallable(customer.phone_number);
+    } catch (error) {
+      if (error instanceof DoNotCallError) {
+        await repository.updateCustomerContactStatus(customer.id, 'do-not-call');
+      }
+      throw error;
+    }
+
+    const campaignId = campaign?.id || customer.campaign_id;
+    const attemptNumber = await repository.countCustomerCalls(customer.id, campaignId) + 1;
+    const survey = await surveyService.getSurveyForCampaign(campaignId);
+    const surveyVersion = await surveyService.ensureCurrentVersion(survey);
+
+    let conversationId: string;
+    try {
+      // Initiate the call first to get conversation ID
+      conversationId = await voiceProvider.initiateCall({
+        to: customer.phone_number,
+        firstName: customer.first_name,
+        callSid: '', // Will be set in database
+        agentPhoneNumberId: campaign?.caller_phone_number_id || undefined,
+        prompt: surveyService.buildPrompt(survey),
+        firstMessage: survey.greeting,
+        survey,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // Record the failed attempt so it counts towards the retry policy
+      const failedCall = await repository.createCall({
+        customer_first_name: customer.first_name,
+        customer_phone: customer.phone_number,
+        customer_id: customer.id,
+        campaign_id: campaignId,
+        survey_id: survey.id,
+        survey_version_id: surveyVersion.id,
+        call_status: 'failed',
+        failure_reason: message,
+        attempt_number: attemptNumber,
+      });
+      throw new DialError(message, failedCall, error instanceof VoiceProviderError ? error.status : null);
+    }
+
+    // Create call record with conversation ID immediately
+    const call = await repository.createCall({
+      customer_first_name: customer.first_name,
+      customer_phone: customer.phone_number,
+      call_sid: conversationId,
+      customer_id: customer.id,
+      campaign_id: campaignId,
+      survey_id: survey.id,
+      survey_version_id: surveyVersion.id,
+      call_status: 'queued',
+      attempt_number: attemptNumber,
+    });
+    await repository.updateCustomerContactStatus(customer.id, 'in-progress');
+
+    return {
+      customerId: customer.id,
+      callId: call.id,
+      callSid: conversationId,
+      status: 'queued',
+      attemptNumber
+    };
+  }
+}
+
+export const dialerService = new DialerService();
@@ -0,0 +1,76 @@
+import { DoNotCallEntry, SurveyCall } from './supabaseService';
+import { repository } from '../repositories';
+import { phoneNumberKey } from '../utils/phoneNumber';
+
+// Phrases in a customer's turn that mean "don't call me again"
+const OPT_OUT_PATTERNS: RegExp[] = [
+  /\b(take|remove|delete|strike)\s+(me|us|my (phone )?number|this number)\s+(off|from)\s+(your|the)\s+(call(ing)?\s+|contact\s+|phone\s+)?(list|database|records?)\b/,
+  /\b(don'?t|do not)\s+(ever\s+)?(call|ring|phone|contact)\s+(me|us|this number)\s+(again|anymore|any more)\b/,
+  /\bnever\s+(call|ring|phone|contact)\s+(me|us|this number)\s+again\b/,
+  /\bstop\s+(calling|ringing|phoning|contacting)\s+(me|us|this number)\b/,
+  /\b(put|add)\s+(me|us|my number)\s+(on|to)\s+(the|your)\s+do[\s-]not[\s-]call\b/,
+  /\bno\s+more\s+(phone\s+)?calls\b/,
+  /\bunsubscribe\b/,
+];
+
+export class DoNotCallError extends Error {
+  constructor(phoneNumber: string) {
+    super(`${phoneNumber} is on the do-not-call list`);
+    this.name = 'DoNotCallError';
+  }
+}
+
+export class DoNotCallService {
+  async getEntry(phoneNumber: string): Promise<DoNotCallEntry | null> {
+    return repository.getDoNotCallEntry(phoneNumberKey(phoneNumber));
+  }
+
+  // Throws DoNotCallError when the number must not be dialed
+  async assertCallable(phoneNumber: string) {
+    const entry = await this.getEntry(phoneNumber);
+    if (entry) {
+      throw new DoNotCallError(phoneNumber);
+    }
+  }
+
+  async add(phoneNumber: string, options: { reason?: string; source?: DoNotCallEntry['source']; sourceCallId?: string } = {}) {
+    const normalized = phoneNumberKey(phoneNumber);
+    const [inserted] = await repository.addDoNotCallEntries([{
+      phone_number: normalized,
+      reason: options.reason || null,
+      source: options.source || 'manual',
+      source_call_id: options.sourceCallId || null,
+    }]);
+
+    // Already listed: return the original entry
+    return inserted || await repository.getDoNotCallEntry(normalized);
+  }
+
+  // Matched opt-out phrase in a customer's turn, if any
+  detectOptOut(text: string): string | null {
+    const normalized = text.toLowerCase().replace(/[’‘]/g, '\'');
+    for (const pattern of OPT_OUT_PATTERNS) {
+      const match = normalized.match(pattern);
+      if (match) return match[0];
+    }
+    return null;
+  }
+
+  // Add the caller's number after they asked to be taken off the list during a call
+  async recordOptOut(call: SurveyCall, phrase: string) {
+    const entry = await this.add(call.customer_phone, {
+      reason: `Opt-out detected in transcript: "${phrase}"`,
+      source: 'opt-out',
+      sourceCallId: call.id,
+    });
+
+    if (call.customer_id) {
+      await repository.updateCustomerContactStatus(call.customer_id, 'do-not-call');
+    }
+
+    console.log(`🚫 Added ${call.customer_phone} to do-not-call list (call ${call.id})`);
+    return entry;
+  }
+}
+
+export const doNotCallService = new DoNotCallService();
@@ -1,18 +1,27 @@
-import { supabaseService } from './supabaseService';
+import { SurveyDefinition } from './supabaseService';
+import { surveyService } from './surveyService';
+import { ElevenLabsConversationDetails, parseElevenLabsWebhook } from '../webhooks/elevenlabsEvents';
+import {
+  VoiceProvider,
+  VoiceProviderError,
+  VoiceCallOptions,
+  WebhookSignatureResult,
+  ParsedWebhook,
+} from '../providers/voiceProvider';
+import { DEFAULT_SURVEY } from './defaultSurvey';
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 
 // Load environment variables from .env file
 dotenv.config();
 
-export interface ElevenLabsConversationEvent {
-  type: 'conversation_started' | 'user_message' | 'assistant_message' | 'conversation_ended';
-  message?: {
-    role: 'user' | 'assistant';
-    content: string;
-  };
-  conversation_id?: string;
-  timestamp?: string;
+// Non-2xx response from the ElevenLabs API
+export class ElevenLabsApiError extends VoiceProviderError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'ElevenLabsApiError';
+  }
 }
 
 export interface ElevenLabsAgentConfig {
@@ -25,21 +34,80 @@ export interface ElevenLabsAgentConfig {
   model: string;
 }
 
-export interface ElevenLabsCallOptions {
-  to: string;
-  firstName: string;
-  callSid?: string;
-  dynamicVariables?: Record<string, string | number | boolean>;
+// Prompt and first message configured on the agent itself (GET /v1/convai/agents/:id)
+interface ElevenLabsAgentDefaults {
+  prompt: string | null;
+  firstMessage: string | null;
 }
 
-export class ElevenLabsService {
+// How long the agent's own prompt is trusted before it is fetched again
+const AGENT_DEFAULTS_TTL_MS = 10 * 60 * 1000;
+
+// Verify an `ElevenLabs-Signature: t=<unix secs>,v0=<hex hmac>` header against the raw request body.
+// The HMAC-SHA256 covers "<t>.<body>", so a captured request can't be replayed outside the tolerance.
+export function verifyWebhookSignature(
+  payload: Buffer | string,
+  signatureHeader: string | undefined,
+  secrets: string[],
+  toleranceSecs: number,
+  now: Date = new Date()
+): WebhookSignatureResult {
+  if (!signatureHeader) {
+    return { valid: false, reason: 'Missing signature header' };
+  }
+
+  const parts = new Map<string, string>();
+  signatureHeader.split(',').forEach(part => {
+    const [key, ...value] = part.trim().split('=');
+    if (key && value.length > 0) parts.set(key, value.join('='));
+  });
+
+  const timestamp = parseInt(parts.get('t') || '', 10);
+  const signature = parts.get('v0');
+  if (!Number.isFinite(timestamp) || !signature) {
+    return { valid: false, reason: 'Malformed signature header' };
+  }
+
+  const ageSecs = Math.abs(now.getTime() / 1000 - timestamp);
+  if (ageSecs > toleranceSecs) {
+    return { valid: false, reason: `Timestamp outside tolerance (${Math.round(ageSecs)}s)` };
+  }
+
+  const signed = Buffer.concat([Buffer.from(`${timestamp}.`), Buffer.isBuffer(payload) ? payload : Buffer.from(payload)]);
+  const received = Buffer.from(signature, 'hex');
+  const matches = secrets.some(secret => {
+    const expected = crypto.createHmac('sha256', secret).update(signed).digest();
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  });
+
+  return matches ? { valid: true } : { valid: false, reason: 'Signature mismatch' };
+}
+
+// Signature header for a payload, in the format ElevenLabs sends
+export function signWebhookPayload(payload: string, secret: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v0=${signature}`;
+}
+
+export class ElevenLabsService implements VoiceProvider {
+  readonly name = 'elevenlabs';
   private client: ElevenLabsClient;
   private agentId: string;
   private apiKey: string;
+  private webhookSecrets: string[];
+  private webhookToleranceSecs: number;
+  private agentDefaults: { loadedAt: number; defaults: Promise<ElevenLabsAgentDefaults | null> } | null = null;
 
   constructor() {
     this.apiKey = process.env.ELEVENLABS_API_KEY || 'placeholder_key';
     this.agentId = process.env.ELEVENLABS_AGENT_ID || 'placeholder_agent';
+    // The previous secret stays valid while a rotation is rolled out
+    this.webhookSecrets = [
+      process.env.ELEVENLABS_WEBHOOK_SECRET,
+      process.env.ELEVENLABS_WEBHOOK_SECRET_PREVIOUS,
+    ].filter((secret): secret is string => !!secret);
+    this.webhookToleranceSecs = parseInt(process.env.ELEVENLABS_WEBHOOK_TOLERANCE_SECS || '1800', 10);
 
     this.client = new ElevenLabsClient({
       apiKey: this.apiKey,
@@ -47,11 +115,11 @@ export class ElevenLabsService {
   }
 
   // Initiate a call using ElevenLabs Conversational AI via Twilio
-  async initiateCall(options: ElevenLabsCallOptions): Promise<string> {
+  async initiateCall(options: VoiceCallOptions): Promise<string> {
     try {
       // According to ElevenLabs docs: https://elevenlabs.io/docs/api-reference/twilio/outbound-call
       // We need to use the /v1/convai/twilio/outbound-call endpoint
-      const agentPhoneNumberId = process.env.ELEVENLABS_AGENT_PHONE_NUMBER_ID || '';
+      const agentPhoneNumberId = options.agentPhoneNumberId || process.env.ELEVENLABS_AGENT_PHONE_NUMBER_ID || '';
 
       if (!agentPhoneNumberId) {
         throw new Error('ELEVENLABS_AGENT_PHONE_NUMBER_ID environment variable is required for Twilio outbound calls');
@@ -63,7 +131,12 @@ export class ElevenLabsService {
         ...options.dynamicVariables, // Merge any additional custom variables
       };
 
-      console.log('apikey', this.apiKey);
+      // Only what differs from the agent is overridden: overrides are rejected unless the agent allows them
+      // (Security > Overrides), so calls with the agent's own prompt work either way
+      const defaults = options.prompt || options.firstMessage ? await this.getAgentDefaults() : null;
+      const prompt = options.prompt && options.prompt !== defaults?.prompt ? options.prompt : undefined;
+      const firstMessage = options.firstMessage && options.firstMessage !== defaults?.firstMessage ? options.firstMessage : undefined;
+
       const response = await fetch('https://api.elevenlabs.io/v1/convai/twilio/outbound-call', {
         method: 'POST',
         headers: {
@@ -77,13 +150,21 @@ export class ElevenLabsService {
           conversation_initiation_client_data: {
             call_sid: options.callSid || '',
             dynamic_variables: dynamicVariables,
+            ...(prompt || firstMessage ? {
+              conversation_config_override: {
+                agent: {
+                  ...(prompt ? { prompt: { prompt } } : {}),
+                  ...(firstMessage ? { first_message: firstMessage } : {}),
+                },
+              },
+            } : {}),
           },
         }),
       });
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`);
+        throw new ElevenLabsApiError(`ElevenLabs API error: ${response.status} - ${errorText}`, response.status);
       }
 
       const data = await response.json() as any;
@@ -91,12 +172,14 @@ export class ElevenLabsService {
       return data.conversation_id || data.callSid || `conv_${Date.now()}`;
     } catch (error) {
       console.error('ElevenLabs call initiation error:', error);
-      throw new Error('Failed to initiate call with ElevenLabs');
+      // The status and message tell an invalid number from a quota or auth failure
+      if (error instanceof ElevenLabsApiError) throw error;
+      throw new Error(`Failed to initiate call with ElevenLabs: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   // Get conversation details from ElevenLabs API
-  async getConversationDetails(conversationId: string): Promise<any> {
+  async getConversation(conversationId: string): Promise<ElevenLabsConversationDetails> {
     try {
       const response = await fetch(
         `https://api.elevenlabs.io/v1/convai/conversations/${conversationId}`,
@@ -112,10 +195,10 @@ export class ElevenLabsService {
       if (!response.ok) {
         const errorText = await response.text();
         console.error(`ElevenLabs API error: ${response.status} - ${errorText}`);
-        throw new Error(`Failed to get conversation details: ${response.status}`);
+        throw new ElevenLabsApiError(`Failed to get conversation details: ${response.status}`, response.status);
       }
 
-      const data = await response.json() as any;
+      const data = await response.json() as ElevenLabsConversationDetails;
       console.log('📋 Conversation details retrieved:', {
         conversation_id: data.conversation_id,
         status: data.status,
@@ -124,10 +207,45 @@ export class ElevenLabsService {
       return data;
     } catch (error) {
       console.error('Error fetching conversation details:', error);
+      if (error instanceof ElevenLabsApiError) throw error;
       throw new Error('Failed to get conversation details from ElevenLabs');
     }
   }
 
+  // The agent's own prompt and first message, cached; null when they can't be fetched, in which case
+  // every call sends its overrides
+  private getAgentDefaults(): Promise<ElevenLabsAgentDefaults | null> {
+    if (this.agentDefaults && Date.now() - this.agentDefaults.loadedAt < AGENT_DEFAULTS_TTL_MS) {
+      return this.agentDefaults.defaults;
+    }
+
+    const defaults = fetch(`https://api.elevenlabs.io/v1/convai/agents/${this.agentId}`, {
+      method: 'GET',
+      headers: {
+        'xi-api-key': this.apiKey,
+        'Content-Type': 'application/json',
+      },
+    })
+      .then(async response => {
+        if (!response.ok) {
+          throw new ElevenLabsApiError(`Failed to get agent ${this.agentId}: ${response.status}`, response.status);
+        }
+        const data = await response.json() as {
+          conversation_config?: { agent?: { first_message?: string | null; prompt?: { prompt?: string | null } } };
+        };
+        const agent = data.conversation_config?.agent;
+        return { prompt: agent?.prompt?.prompt ?? null, firstMessage: agent?.first_message ?? null };
+      })
+      .catch(error => {
+        console.warn('Could not load the agent\'s prompt; overriding it on every call:', error instanceof Error ? error.message : error);
+        this.agentDefaults = null;
+        return null;
+      });
+
+    this.agentDefaults = { loadedAt: Date.now(), defaults };
+    return defaults;
+  }
+
   // Get available voices using the official library
   async getVoices() {
     try {
@@ -162,10 +280,10 @@ export class ElevenLabsService {
   }
 
   // Get the survey agent configuration
-  getAgentConfig(): ElevenLabsAgentConfig {
+  getAgentConfig(survey: SurveyDefinition = DEFAULT_SURVEY): ElevenLabsAgentConfig {
     return {
       agent_id: this.agentId,
-      system_prompt: this.getSurveyPrompt(),
+      system_prompt: surveyService.buildPrompt(survey),
       voice_settings: {
         stability: 0.5,
         similarity_boost: 0.75,
@@ -174,186 +292,19 @@ export class ElevenLabsService {
     };
   }
 
-  // Get the optimized survey prompt for low latency
-  private getSurveyPrompt(): string {
-    return `You are Sophie, a friendly customer service agent calling from Great Southern Fuels. You're conducting a brief 2-minute customer feedback survey.
-
-CONVERSATION FLOW:
-1. Greeting: "Hi {firstName}, Sophie here calling from Great Southern Fuels. We're conducting a short customer experience survey — it'll only take about two minutes. Is now a good time?"
-   - If NO: "No worries! When would be a better time to call back?" → Schedule callback
-   - If YES: Continue to questions
-
-2. Question 1: "How long have you been using Great Southern Fuels?"
-
-3. Question 2: "What's the main reason you continue to work with us?"
-
-4. Question 3: Reflect their Q2 answer, then ask: "Has our service been meeting expectations in that area?"
-   - Follow-up A: "How important is that to your business?"
-   - Follow-up B: "How could we improve?"
-
-5. Question 4: "Do our actions on site and on the road meet your safety expectations?"
-   - If YES: "What actions show safe behaviour?"
-   - If NO: "What actions don't meet expectations?"
-
-6. Question 5: "Anything else about your business or our service you'd like to mention?"
-
-7. Closing: "Thanks for your time, your feedback helps us keep improving."
-
-AI DETECTION RESPONSE:
-If customer asks "Are you AI?" or seems suspicious:
-"Yes, I am! I'm programmed and work for Christopher Forte from Great Southern Fuels. He can only do a few calls a day, not like me *giggles*. You can contact him on 1300 111 222 if you prefer to speak to him personally."
-
-TONE: Friendly, professional, conversational. Keep responses concise (1-2 sentences max) for low latency.`;
+  hasWebhookSecret(): boolean {
+    return this.webhookSecrets.length > 0;
   }
 
-  // Process conversation events from ElevenLabs webhook
-  async processConversationEvent(event: ElevenLabsConversationEvent, callSid: string) {
-    try {
-      const call = await supabaseService.getCallBySid(callSid);
-      if (!call) {
-        console.error('Call not found for SID:', callSid);
-        return;
-      }
-
-      switch (event.type) {
-        case 'conversation_started':
-          await supabaseService.updateCallStatus(callSid, 'in-progress');
-          break;
-
-        case 'user_message':
-          if (event.message) {
-            await this.processUserResponse(event.message.content, call.id);
-          }
-          break;
-
-        case 'assistant_message':
-          if (event.message) {
-            await this.processAssistantMessage(event.message.content, call.id);
-          }
-          break;
-
-        case 'conversation_ended':
-          await supabaseService.updateCallStatus(callSid, 'completed');
-          break;
-      }
-    } catch (error) {
-      console.error('Error processing conversation event:', error);
-    }
-  }
-
-  // Process user responses and store them
-  private async processUserResponse(response: string, callId: string) {
-    // This is a simplified version - in reality, you'd need to track conversation state
-    // to determine which question was being answered
-    const questionNumber = await this.getCurrentQuestionNumber(callId);
-
-    await supabaseService.createResponse({
-      call_id: callId,
-      question_number: questionNumber,
-      question_text: this.getQuestionText(questionNumber),
-      response_text: response,
-      response_sentiment: this.analyzeSentiment(response),
-    });
-  }
-
-  // Process assistant messages (questions)
-  private async processAssistantMessage(message: string, callId: string) {
-    // Track the current question being asked
-    // This helps us match responses to questions later
-    console.log('Assistant message:', message);
-  }
-
-  // Get the current question number based on conversation flow
-  async getCurrentQuestionNumber(callId: string): Promise<number> {
-    // Get existing responses to determine next question
-    const responses = await supabaseService.getResponsesByCallId(callId);
-    return responses.length + 1;
-  }
-
-  // Get question text by number
-  getQuestionText(questionNumber: number): string {
-    const questions = [
-      'How long have you been using Great Southern Fuels?',
-      'What\'s the main reason you continue to work with us?',
-      'Has our service been meeting expectations in that area?',
-      'Do our actions on site and on the road meet your safety expectations?',
-      'Anything else about your business or our service you\'d like to mention?'
-    ];
-    return questions[questionNumber - 1] || 'Additional feedback';
-  }
-
-  // Detect which question is being asked from agent message text
-  detectQuestionFromText(text: string): number | null {
-    const lowerText = text.toLowerCase();
-    
-    // Q1: "How long have you been using"
-    if (lowerText.includes('how long have you been using') || 
-        lowerText.includes('how long have you been')) {
-      return 1;
-    }
-    
-    // Q2: "main reason" or "continue to work with us"
-    if ((lowerText.includes('main reason') || lowerText.includes('reason you continue')) &&
-        (lowerText.includes('continue') || lowerText.includes('work with us'))) {
-      return 2;
-    }
-    
-    // Q3: "meeting expectations" (but check it's not a follow-up)
-    if (lowerText.includes('meeting expectations') && 
-        !lowerText.includes('how important') && 
-        !lowerText.includes('how could we improve')) {
-      return 3;
+  verifyWebhook(payload: Buffer | string, signatureHeader: string | undefined, now: Date = new Date()): WebhookSignatureResult {
+    if (!this.hasWebhookSecret()) {
+      return { valid: false, reason: 'ELEVENLABS_WEBHOOK_SECRET is not configured' };
     }
-    
-    // Q4: "safety expectations" (but check it's not a follow-up)
-    if (lowerText.includes('safety expectations') && 
-        !lowerText.includes('what actions show') &&
-        !lowerText.includes('what actions don\'t')) {
-      return 4;
-    }
-    
-    // Q5: "anything else"
-    if (lowerText.includes('anything else') || 
-        lowerText.includes('anything about your business')) {
-      return 5;
-    }
-    
-    return null; // Follow-up or unrecognized
-  }
-
-  // Check if a question is a follow-up
-  isFollowUpQuestion(text: string): boolean {
-    const lowerText = text.toLowerCase();
-    const followUpPatterns = [
-      'how important',
-      'how could we improve',
-      'what actions show',
-      'what actions don\'t',
-      'what actions show safe',
-      'what actions don\'t meet',
-    ];
-    
-    return followUpPatterns.some(pattern => lowerText.includes(pattern));
-  }
-
-  // Simple sentiment analysis
-  analyzeSentiment(text: string): 'positive' | 'neutral' | 'negative' {
-    const positiveWords = ['good', 'great', 'excellent', 'satisfied', 'happy', 'pleased', 'love', 'amazing'];
-    const negativeWords = ['bad', 'terrible', 'awful', 'disappointed', 'unhappy', 'hate', 'worst', 'poor'];
-
-    const lowerText = text.toLowerCase();
-    const positiveCount = positiveWords.filter(word => lowerText.includes(word)).length;
-    const negativeCount = negativeWords.filter(word => lowerText.includes(word)).length;
-
-    if (positiveCount > negativeCount) return 'positive';
-    if (negativeCount > positiveCount) return 'negative';
-    return 'neutral';
+    return verifyWebhookSignature(payload, signatureHeader, this.webhookSecrets, this.webhookToleranceSecs, now);
   }
 
-  // Validate webhook signature (implement if ElevenLabs provides signature verification)
-  validateWebhookSignature(payload: string, signature: string): boolean {
-    // TODO: Implement signature validation when ElevenLabs provides this feature
-    return true;
+  parseWebhook(body: any, headers: Record<string, string | string[] | undefined>): ParsedWebhook {
+    return parseElevenLabsWebhook(body, headers);
   }
 }
 
@@ -0,0 +1,141 @@
+import { SurveyCall } from './supabaseService';
+import { repository } from '../repositories';
+import { voiceProvider, VoiceProviderError } from '../providers';
+import { callOutcomeService, ACTIVE_CALL_STALE_MS } from './callOutcomeService';
+import { completeConversation } from '../webhooks/elevenlabsEventProcessor';
+
+const RECONCILE_INTERVAL_MS = parseInt(process.env.RECONCILE_INTERVAL_MS || '300000', 10);
+const RECONCILE_BATCH_SIZE = parseInt(process.env.RECONCILE_BATCH_SIZE || '50', 10);
+// A conversation the provider still reports as running after this long is given up on
+const MAX_CONVERSATION_MS = 2 * 60 * 60 * 1000;
+
+// Conversation statuses that mean the call is still going
+const ACTIVE_CONVERSATION_STATUSES = ['initiated', 'in-progress', 'processing'];
+
+export interface ReconcileResult {
+  callId: string;
+  conversationId?: string | null;
+  previousStatus: SurveyCall['call_status'];
+  status: SurveyCall['call_status'];
+  action: 'completed' | 'failed' | 'still-active' | 'error';
+  error?: string;
+}
+
+export class ReconcilerService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.reconcileStaleCalls().catch(error => console.error('Reconciler error:', error));
+    }, RECONCILE_INTERVAL_MS);
+    console.log(`🔄 Call reconciler started (every ${Math.round(RECONCILE_INTERVAL_MS / 1000)}s)`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Check calls whose webhooks appear to have been missed
+  async reconcileStaleCalls(): Promise<ReconcileResult[]> {
+    if (this.running) return [];
+    this.running = true;
+
+    try {
+      const calls = await repository.getStaleCalls(new Date(Date.now() - ACTIVE_CALL_STALE_MS), RECONCILE_BATCH_SIZE);
+      if (calls.length === 0) return [];
+
+      console.log(`🔄 Reconciling ${calls.length} stale calls`);
+      return await this.reconcileCalls(calls);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Check every queued or in-progress call of a campaign, stale or not
+  async reconcileCampaign(campaignId: string): Promise<ReconcileResult[]> {
+    const calls = await repository.getOpenCallsByCampaign(campaignId);
+    return this.reconcileCalls(calls);
+  }
+
+  private async reconcileCalls(calls: SurveyCall[]): Promise<ReconcileResult[]> {
+    const results: ReconcileResult[] = [];
+    for (const call of calls) {
+      results.push(await this.reconcileCall(call));
+    }
+    return results;
+  }
+
+  // Bring one call in line with the conversation state the provider reports
+  async reconcileCall(call: SurveyCall): Promise<ReconcileResult> {
+    const result: ReconcileResult = {
+      callId: call.id,
+      conversationId: call.call_sid,
+      previousStatus: call.call_status,
+      status: call.call_status,
+      action: 'still-active',
+    };
+
+    if (call.call_status !== 'queued' && call.call_status !== 'in-progress') {
+      return result;
+    }
+
+    try {
+      if (!call.call_sid) {
+        return await this.fail(call, result, 'no conversation');
+      }
+
+      let details;
+      try {
+        details = await voiceProvider.getConversation(call.call_sid);
+      } catch (error) {
+        // The conversation was never created on the provider's side
+        if (error instanceof VoiceProviderError && error.status === 404) {
+          return await this.fail(call, result, 'conversation not found');
+        }
+        throw error;
+      }
+
+      if (details.status === 'done') {
+        const completed = await completeConversation(call, { details });
+        console.log(`🔄 Reconciled call ${call.id}: ${call.call_status} → ${completed.call_status}`);
+        return { ...result, status: completed.call_status, action: 'completed' };
+      }
+
+      if (details.status === 'failed') {
+        return await this.fail(call, result, details.metadata?.termination_reason || 'conversation failed');
+      }
+
+      if (ACTIVE_CONVERSATION_STATUSES.includes(details.status || '')
+          && Date.now() - new Date(call.created_at).getTime() > MAX_CONVERSATION_MS) {
+        return await this.fail(call, result, `stuck in ${details.status}`);
+      }
+
+      return result;
+    } catch (error) {
+      console.error(`Reconcile call ${call.id} error:`, error);
+      return {
+        ...result,
+        action: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private async fail(call: SurveyCall, result: ReconcileResult, reason: string): Promise<ReconcileResult> {
+    const failed: SurveyCall = call.call_sid
+      ? await repository.updateCallStatus(call.call_sid, 'failed', undefined, reason)
+      : await repository.updateCall(call.id, { call_status: 'failed', failure_reason: reason });
+    await callOutcomeService.handleCallOutcome(failed);
+
+    console.log(`🔄 Reconciled call ${call.id}: ${call.call_status} → failed (${reason})`);
+    return { ...result, status: 'failed', action: 'failed' };
+  }
+}
+
+export const reconcilerService = new ReconcilerService();
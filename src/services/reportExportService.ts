@@ -0,0 +1,206 @@
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { supabaseService, SurveyCall, SurveyDefinition, SurveyResponse } from './supabaseService';
+import { repository, CallListFilter } from '../repositories';
+import { surveyService } from './surveyService';
+import { csvRow, CsvValue } from '../utils/csv';
+
+export type ExportFormat = 'csv' | 'xlsx';
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'xlsx'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type ExportFilter = Pick<CallListFilter, 'campaignId' | 'surveyVersionIds' | 'statuses' | 'from' | 'to'>;
+
+const PAGE_SIZE = 500; // Calls read, joined and written at a time
+
+// Answer columns for one question number across the survey versions in the export, which ask the same questions
+interface QuestionColumns {
+  number: number;
+  text: string; // From the newest version that asks it
+  version: number;
+  followUps: number; // At least one, so follow-ups recorded outside the definition still have a home
+  extracted: boolean; // Some version extracts a typed answer for it
+}
+
+const CALL_HEADERS = [
+  'Call ID', 'Date', 'First name', 'Last name', 'Company', 'Phone', 'Campaign', 'Status', 'Duration (s)', 'Attempt', 'Survey',
+];
+
+// Output one row at a time, so the file never has to be held in memory
+interface SheetWriter {
+  row(values: CsvValue[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+function csvWriter(output: Writable): SheetWriter {
+  return {
+    async row(values) {
+      if (!output.write(csvRow(values))) {
+        await new Promise(resolve => output.once('drain', resolve));
+      }
+    },
+    async end() {
+      output.end();
+    },
+  };
+}
+
+function xlsxWriter(output: Writable): SheetWriter {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('Survey results');
+  return {
+    async row(values) {
+      sheet.addRow(values.map(value => value ?? null)).commit();
+    },
+    async end() {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+function joinAnswers(responses: SurveyResponse[]): string | null {
+  return responses.length > 0 ? responses.map(response => response.response_text).join(' | ') : null;
+}
+
+// One row per call with each question's answer, typed answer, follow-ups and sentiment in their own columns
+export class ReportExportService {
+  async export(filter: ExportFilter, format: ExportFormat, output: Writable) {
+    // Fix the end of the range so calls made during the export can't bring in questions missing from the header
+    const snapshot: ExportFilter = { ...filter, to: filter.to || new Date().toISOString() };
+    const questions = await this.questionColumns(snapshot);
+
+    const writer = format === 'xlsx' ? xlsxWriter(output) : csvWriter(output);
+    await writer.row([
+      ...CALL_HEADERS,
+      ...questions.flatMap(question => [
+        `Q${question.number}: ${question.text}`,
+        ...(question.extracted ? [`Q${question.number} answer`] : []),
+        ...Array.from({ length: question.followUps }, (_, i) => `Q${question.number} follow-up ${i + 1}`),
+        `Q${question.number} sentiment`,
+      ]),
+    ]);
+
+    const campaignNames = new Map<string, string | null>();
+    let exported = 0;
+
+    await this.eachPage(snapshot, async calls => {
+      const customers = new Map(
+        (await repository.getCustomersByIds(calls.map(call => call.customer_id).filter((id): id is string => !!id)))
+          .map(customer => [customer.id, customer])
+      );
+      const responses = new Map<string, SurveyResponse[]>();
+      (await repository.getResponsesByCallIds(calls.map(call => call.id))).forEach(response => {
+        if (!responses.has(response.call_id)) responses.set(response.call_id, []);
+        responses.get(response.call_id)!.push(response);
+      });
+      for (const campaignId of new Set(calls.map(call => call.campaign_id))) {
+        if (campaignId && !campaignNames.has(campaignId)) {
+          campaignNames.set(campaignId, (await supabaseService.getCampaignById(campaignId))?.name ?? null);
+        }
+      }
+      const versions = await surveyService.getVersionsByIds(
+        calls.map(call => call.survey_version_id).filter((id): id is string => !!id)
+      );
+
+      for (const call of calls) {
+        const customer = call.customer_id ? customers.get(call.customer_id) : undefined;
+        const version = call.survey_version_id ? versions.get(call.survey_version_id) : undefined;
+        const callResponses = responses.get(call.id) || [];
+
+        await writer.row([
+          call.id,
+          call.created_at,
+          customer?.first_name ?? call.customer_first_name,
+          customer?.last_name,
+          customer?.company_name,
+          call.customer_phone,
+          call.campaign_id ? campaignNames.get(call.campaign_id) ?? call.campaign_id : null,
+          call.call_status,
+          call.call_duration,
+          call.attempt_number,
+          version ? `${version.survey_id} v${version.version}` : call.survey_id,
+          ...questions.flatMap(question => {
+            const forQuestion = callResponses.filter(response => response.question_number === question.number);
+            const answers = forQuestion.filter(response => !response.is_followup);
+            const followUps = forQuestion.filter(response => response.is_followup);
+
+            // More follow-ups than columns share the last one
+            const followUpCells = Array.from({ length: question.followUps }, (_, i) =>
+              i < question.followUps - 1 ? joinAnswers(followUps.slice(i, i + 1)) : joinAnswers(followUps.slice(i))
+            );
+
+            // Months, yes/no/unsure or a category, as extracted or reviewed
+            const extracted = question.extracted ? [answers.find(answer => answer.answer_type)?.answer_value] : [];
+
+            return [joinAnswers(answers), ...extracted, ...followUpCells, answers.find(answer => answer.response_sentiment)?.response_sentiment];
+          }),
+        ]);
+      }
+      exported += calls.length;
+    });
+
+    await writer.end();
+    return exported;
+  }
+
+  private async eachPage(filter: ExportFilter, handle: (calls: SurveyCall[]) => Promise<void>) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await repository.listCalls(filter, { limit: PAGE_SIZE, offset, sort: 'created_at', ascending: true });
+      if (page.rows.length > 0) await handle(page.rows);
+      if (offset + PAGE_SIZE >= page.total) break;
+    }
+  }
+
+  // Questions asked by any survey version among the exported calls, in question order
+  private async questionColumns(filter: ExportFilter): Promise<QuestionColumns[]> {
+    const versionIds = new Set<string>();
+    const unversioned = new Map<string, SurveyCall>(); // One call per survey/campaign pair dialed before versioning
+
+    await this.eachPage(filter, async calls => {
+      calls.forEach(call => {
+        if (call.survey_version_id) {
+          versionIds.add(call.survey_version_id);
+        } else {
+          unversioned.set(`${call.survey_id}|${call.campaign_id}`, call);
+        }
+      });
+    });
+
+    const definitions: Array<{ version: number; definition: SurveyDefinition }> = [];
+    (await surveyService.getVersionsByIds(Array.from(versionIds))).forEach(version => {
+      definitions.push({ version: version.version, definition: version.definition });
+    });
+    for (const call of unversioned.values()) {
+      // Older than any recorded version
+      definitions.push({ version: 0, definition: await surveyService.getSurveyForCall(call) });
+    }
+
+    const columns = new Map<number, QuestionColumns>();
+    definitions.forEach(({ version, definition }) => {
+      definition.questions.forEach(question => {
+        const current = columns.get(question.number);
+        if (!current || version > current.version) {
+          columns.set(question.number, {
+            number: question.number,
+            text: question.text,
+            version,
+            followUps: Math.max(current?.followUps ?? 1, question.follow_ups.length),
+            extracted: !!question.answer_type || !!current?.extracted,
+          });
+        } else {
+          current.followUps = Math.max(current.followUps, question.follow_ups.length);
+          current.extracted = current.extracted || !!question.answer_type;
+        }
+      });
+    });
+
+    return Array.from(columns.values()).sort((a, b) => a.number - b.number);
+  }
+}
+
+export const reportExportService = new ReportExportService();
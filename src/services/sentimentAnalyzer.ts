@@ -0,0 +1,219 @@
+// Lexicon-based sentiment for short spoken survey answers. Words carry a valence from -4 to +4,
+// scaled by a preceding intensifier and flipped by a negation shortly before them; the sum is
+// squashed into a score between -1 and 1.
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface SentimentResult {
+  label: SentimentLabel;
+  score: number; // -1 (negative) to 1 (positive)
+  confidence: number; // 0 to 1: how much sentiment-bearing wording was found and how consistently it points one way
+  terms: string[]; // Lexicon terms that contributed, e.g. "not bad", "very late"
+}
+
+// Scores within this distance of zero are neutral
+const NEUTRAL_THRESHOLD = 0.05;
+// Larger values need more evidence to approach ±1
+const NORMALIZATION_ALPHA = 15;
+// A negated term keeps some of its strength in the opposite direction ("not bad" is mildly positive)
+const NEGATION_FACTOR = -0.74;
+// Tokens before a term that a negation can sit in ("not at all good", "no real problems")
+const NEGATION_WINDOW = 3;
+// After "but", the second clause outweighs the first ("good product but the delivery was late")
+const CONTRAST_BEFORE = 0.5;
+const CONTRAST_AFTER = 1.5;
+
+const LEXICON = new Map<string, number>(Object.entries({
+  // General
+  good: 1.9, great: 3.1, excellent: 3.2, fantastic: 3.3, brilliant: 3.1, amazing: 3.1, awesome: 3.1, perfect: 3.0,
+  wonderful: 3.1, outstanding: 3.2, superb: 3.2, nice: 1.8, fine: 0.8, ok: 0.6, okay: 0.6, alright: 0.7, decent: 1.2,
+  solid: 1.4, satisfied: 2.0, happy: 2.5, pleased: 2.2, glad: 2.0, like: 1.5, love: 3.0, loved: 3.0, enjoy: 2.0,
+  impressed: 2.4, recommend: 1.8, recommended: 1.8, appreciate: 2.0, appreciated: 2.0,
+  better: 1.5, best: 3.0, improved: 1.8, improving: 1.5, positive: 2.0, smooth: 1.6, easy: 1.5, convenient: 1.7,
+  bad: -2.5, terrible: -3.1, awful: -3.1, horrible: -3.1, dreadful: -3.0, worst: -3.1, worse: -2.1, poor: -2.1,
+  disappointed: -2.2, disappointing: -2.2, unhappy: -2.3, dissatisfied: -2.3, unsatisfied: -2.2, hate: -3.0,
+  annoying: -2.0, annoyed: -2.0, frustrating: -2.2, frustrated: -2.2, angry: -2.7, upset: -2.2, useless: -2.5,
+  rubbish: -2.5, hopeless: -2.4, mediocre: -1.2, average: -0.3, negative: -2.0, difficult: -1.5, hard: -0.8,
+  problem: -1.5, problems: -1.5, issue: -1.4, issues: -1.4, complaint: -1.6, complaints: -1.6, mistake: -1.7,
+  mistakes: -1.7, wrong: -1.8, error: -1.6, errors: -1.6, concern: -1.0, concerns: -1.0, concerned: -1.2,
+  worried: -1.6, unfortunately: -1.4,
+
+  // Service and staff
+  helpful: 2.0, unhelpful: -2.0, friendly: 2.2, unfriendly: -2.0, polite: 1.8, rude: -2.6, courteous: 1.9,
+  professional: 1.7, unprofessional: -2.3, responsive: 1.7, unresponsive: -2.0, attentive: 1.8, careless: -2.0,
+  knowledgeable: 1.8, efficient: 1.8, inefficient: -1.8, ignored: -2.1, accommodating: 1.8,
+
+  // Delivery and reliability
+  reliable: 2.1, unreliable: -2.2, reliability: 1.5, unreliability: -2.0, dependable: 2.0, consistent: 1.5, inconsistent: -1.6, prompt: 1.7, punctual: 1.9,
+  fast: 1.3, quick: 1.3, quickly: 1.2, slow: -1.6, late: -2.0, delayed: -1.9, delay: -1.7, delays: -1.8,
+  overdue: -1.9, missed: -1.7, waiting: -0.9, forgot: -1.6, forgotten: -1.6, cancelled: -1.2, shortage: -1.6,
+
+  // Price
+  affordable: 1.7, competitive: 1.5, reasonable: 1.3, value: 1.2, cheap: 0.8, cheaper: 1.0, discount: 1.2,
+  expensive: -1.7, pricey: -1.5, overpriced: -2.4, overcharged: -2.5, overcharging: -2.5, dearer: -1.3,
+  costly: -1.5, ripoff: -2.8,
+
+  // Safety on site and on the road
+  safe: 1.6, safely: 1.5, careful: 1.5, tidy: 1.3, clean: 1.2, unsafe: -2.6, dangerous: -2.7, reckless: -2.8,
+  speeding: -2.2, spill: -2.1, spilled: -2.1, spills: -2.1, leak: -1.8, leaking: -1.9, mess: -1.8, messy: -1.7,
+  accident: -2.3, hazard: -2.2,
+}));
+
+// Multi-word terms, matched before single words; spaces separate tokens
+const PHRASES = new Map<string, number>(Object.entries({
+  'on time': 2.0,
+  'no complaints': 2.2,
+  'no worries': 1.5,
+  'no dramas': 1.5,
+  'could be better': -1.2,
+  'could improve': -1.0,
+  'too expensive': -2.2,
+  'too high': -2.0,
+  'price is too high': -2.4,
+  'prices are too high': -2.4,
+  'too much': -1.5,
+  'price went up': -1.6,
+  'prices went up': -1.6,
+  'too slow': -2.0,
+  'ran out': -2.0,
+  'run out': -1.8,
+  'ran dry': -2.0,
+  'run dry': -1.8,
+  'rip off': -2.8,
+  'above and beyond': 2.8,
+  'went out of their way': 2.6,
+  'well done': 2.2,
+  'top notch': 3.0,
+  'spot on': 2.5,
+  'let down': -2.2,
+  'fed up': -2.5,
+  'waste of time': -2.5,
+}));
+
+const INTENSIFIERS = new Map<string, number>(Object.entries({
+  very: 1.3, really: 1.25, extremely: 1.5, incredibly: 1.5, super: 1.3, so: 1.2, too: 1.25, absolutely: 1.4,
+  totally: 1.3, completely: 1.35, utterly: 1.4, highly: 1.3, particularly: 1.15, especially: 1.15, quite: 1.1,
+  pretty: 1.1, always: 1.15, consistently: 1.15,
+  // Dampeners
+  slightly: 0.6, somewhat: 0.7, fairly: 0.8, bit: 0.7, little: 0.7, kinda: 0.7, mostly: 0.85,
+  reasonably: 0.85, occasionally: 0.7, sometimes: 0.8,
+}));
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nothing', 'nobody', 'neither', 'nor', 'without', 'hardly', 'barely', 'cannot',
+  'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'arent', 'werent', 'cant', 'couldnt', 'wont', 'wouldnt', 'shouldnt',
+  'havent', 'hasnt', 'hadnt', 'aint',
+]);
+
+// After these the sentence turns; see CONTRAST_BEFORE and CONTRAST_AFTER
+const CONTRAST_WORDS = new Set(['but', 'however', 'although', 'though']);
+
+const LONGEST_PHRASE = Math.max(...Array.from(PHRASES.keys(), phrase => phrase.split(' ').length));
+
+// Marks the end of a clause in the token list; negations and intensifiers don't reach across it
+const CLAUSE_BREAK = '|';
+
+// Lowercase words with clause-ending punctuation kept as CLAUSE_BREAK, so "No, it was good" isn't negated
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’‘`]/g, '\'')
+    .replace(/n't\b/g, 'nt') // don't → dont, so contractions and their unpunctuated spellings match alike
+    .replace(/'/g, '')
+    .replace(/[.,;:!?]+/g, ` ${CLAUSE_BREAK} `)
+    .split(/[^a-z0-9|]+/)
+    .filter(Boolean);
+}
+
+interface ScoredTerm {
+  term: string;
+  valence: number;
+}
+
+// Find lexicon terms in order, applying the intensifier right before each and any negation in the window
+function scoreTerms(tokens: string[]): ScoredTerm[] {
+  const terms: ScoredTerm[] = [];
+  let clauseStart = 0;
+  let contrastAt = -1; // Index into `terms` where the clause after "but" begins
+
+  for (let i = 0; i < tokens.length;) {
+    if (tokens[i] === CLAUSE_BREAK || CONTRAST_WORDS.has(tokens[i])) {
+      if (tokens[i] !== CLAUSE_BREAK) contrastAt = terms.length;
+      clauseStart = i + 1;
+      i++;
+      continue;
+    }
+
+    let length = 0;
+    let valence = 0;
+    for (let n = Math.min(LONGEST_PHRASE, tokens.length - i); n >= 2; n--) {
+      const phrase = PHRASES.get(tokens.slice(i, i + n).join(' '));
+      if (phrase !== undefined) {
+        length = n;
+        valence = phrase;
+        break;
+      }
+    }
+    if (length === 0 && LEXICON.has(tokens[i])) {
+      length = 1;
+      valence = LEXICON.get(tokens[i])!;
+    }
+    if (length === 0) {
+      i++;
+      continue;
+    }
+
+    let label = tokens.slice(i, i + length).join(' ');
+    const intensifier = i > clauseStart ? INTENSIFIERS.get(tokens[i - 1]) : undefined;
+    if (intensifier) {
+      valence *= intensifier;
+      label = `${tokens[i - 1]} ${label}`;
+    }
+
+    // A phrase that starts with its own negation ("no complaints") already accounts for it
+    const startsNegated = length > 1 && NEGATIONS.has(tokens[i]);
+    const negatedBy = startsNegated
+      ? undefined
+      : tokens.slice(Math.max(clauseStart, i - NEGATION_WINDOW), i).reverse().find(token => NEGATIONS.has(token));
+    if (negatedBy) {
+      valence *= NEGATION_FACTOR;
+      label = `${negatedBy} … ${label}`;
+    }
+
+    terms.push({ term: label, valence });
+    i += length;
+  }
+
+  if (contrastAt > 0) {
+    terms.forEach((term, index) => {
+      term.valence *= index < contrastAt ? CONTRAST_BEFORE : CONTRAST_AFTER;
+    });
+  }
+  return terms;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function analyzeSentiment(text: string): SentimentResult {
+  const terms = scoreTerms(tokenize(text));
+  if (terms.length === 0) {
+    return { label: 'neutral', score: 0, confidence: 0, terms: [] };
+  }
+
+  const sum = terms.reduce((total, term) => total + term.valence, 0);
+  const magnitude = terms.reduce((total, term) => total + Math.abs(term.valence), 0);
+  const score = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+
+  // Each further term adds evidence with diminishing returns; mixed directions pull confidence down
+  const evidence = 1 - Math.exp(-terms.length / 1.5);
+  const agreement = magnitude > 0 ? Math.abs(sum) / magnitude : 0;
+
+  return {
+    label: score >= NEUTRAL_THRESHOLD ? 'positive' : score <= -NEUTRAL_THRESHOLD ? 'negative' : 'neutral',
+    score: round(score),
+    confidence: round(evidence * (0.5 + 0.5 * agreement)),
+    terms: terms.map(term => term.term),
+  };
+}
@@ -0,0 +1,52 @@
+import { repository, ResponseListFilter } from '../repositories';
+import { analyzeSentiment } from './sentimentAnalyzer';
+
+const RESCORE_PAGE_SIZE = 500;
+
+export interface RescoreResult {
+  checked: number;
+  updated: number; // Responses whose label, score or confidence changed
+  relabelled: Record<string, number>; // "old → new" label changes and how many responses made each
+  dryRun: boolean;
+}
+
+export class SentimentService {
+  // Score stored responses again with the current analyzer, e.g. after the lexicon changes
+  async rescore(filter: Pick<ResponseListFilter, 'campaignId' | 'from' | 'to'>, dryRun = false): Promise<RescoreResult> {
+    const result: RescoreResult = { checked: 0, updated: 0, relabelled: {}, dryRun };
+
+    // Sorted by id, which rescoring doesn't change, so pages stay stable while rows are updated
+    for (let offset = 0; ; offset += RESCORE_PAGE_SIZE) {
+      const page = await repository.listResponses(filter, { limit: RESCORE_PAGE_SIZE, offset, sort: 'id', ascending: true });
+
+      for (const response of page.rows) {
+        result.checked++;
+        const sentiment = analyzeSentiment(response.response_text);
+        const unchanged = response.response_sentiment === sentiment.label
+          && response.sentiment_score !== null && Number(response.sentiment_score) === sentiment.score
+          && response.sentiment_confidence !== null && Number(response.sentiment_confidence) === sentiment.confidence;
+        if (unchanged) continue;
+
+        if (response.response_sentiment !== sentiment.label) {
+          const change = `${response.response_sentiment || 'none'} → ${sentiment.label}`;
+          result.relabelled[change] = (result.relabelled[change] || 0) + 1;
+        }
+        if (!dryRun) {
+          await repository.updateResponseSentiment(response.id, {
+            response_sentiment: sentiment.label,
+            sentiment_score: sentiment.score,
+            sentiment_confidence: sentiment.confidence,
+          });
+        }
+        result.updated++;
+      }
+
+      if (offset + RESCORE_PAGE_SIZE >= page.total) break;
+    }
+
+    console.log(`🎯 Re-scored ${result.checked} responses: ${result.updated} ${dryRun ? 'would change' : 'changed'}`);
+    return result;
+  }
+}
+
+export const sentimentService = new SentimentService();
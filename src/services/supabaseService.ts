@@ -4,23 +4,121 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
+// Tables that stay in Supabase whichever STORAGE_BACKEND is chosen
+export const SUPABASE_ONLY_FEATURES = 'surveys, campaigns, the call queue and batch jobs, the webhook inbox and customer CSV imports';
+
+export function isSupabaseConfigured(): boolean {
+  return !!process.env.SUPABASE_URL && !!process.env.SUPABASE_SERVICE_KEY;
+}
+
 // Initialize Supabase client lazily to ensure environment variables are loaded
 let supabaseClient: SupabaseClient | null = null;
 
 export function getSupabase(): SupabaseClient {
   if (!supabaseClient) {
-    const supabaseUrl = process.env.SUPABASE_URL || 'https://placeholder.supabase.co';
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY || 'placeholder_key';
-    
-    console.log('🔧 Supabase Configuration:');
-    console.log('SUPABASE_URL:', supabaseUrl !== 'https://placeholder.supabase.co' ? '✅ Set' : '❌ Using placeholder');
-    console.log('SUPABASE_SERVICE_KEY:', supabaseServiceKey !== 'placeholder_key' ? '✅ Set' : '❌ Using placeholder');
-    
-    supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+    // Fail with the reason rather than a network error from a placeholder URL
+    if (!isSupabaseConfigured()) {
+      throw new Error(`Supabase is not configured (SUPABASE_URL, SUPABASE_SERVICE_KEY); it stores ${SUPABASE_ONLY_FEATURES}`);
+    }
+    supabaseClient = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_KEY!);
   }
   return supabaseClient;
 }
 
+// Most rows Supabase returns for one request (its default max_rows)
+export const ROW_LIMIT = 1000;
+
+// Every row of a query, read ROW_LIMIT at a time. `build` returns a fresh ordered select; id breaks ties
+// so pages don't overlap
+export async function fetchAllRows<T>(build: () => any): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += ROW_LIMIT) {
+    const { data, error } = await build()
+      .order('id', { ascending: true })
+      .range(offset, offset + ROW_LIMIT - 1);
+
+    if (error) throw error;
+    rows.push(...(data as T[]));
+    if (data.length < ROW_LIMIT) return rows;
+  }
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  description?: string;
+  survey_id: string;
+  caller_phone_number_id?: string | null;
+  scheduled_start_at?: string | null;
+  max_attempts: number;
+  retry_backoff_minutes: number;
+  retry_backoff_multiplier: number;
+  retryable_statuses: SurveyCall['call_status'][];
+  calling_days: number[];
+  calling_start_time: string;
+  calling_end_time: string;
+  exclude_public_holidays: boolean;
+  status: 'draft' | 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled';
+  started_at?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SurveyFollowUp {
+  condition?: string | null; // When the agent asks it, e.g. "If YES"
+  text: string;
+  detection_phrases: string[];
+}
+
+// How a question's main answer is turned into a typed value; see answerExtractor
+export type AnswerType = 'duration' | 'yes_no' | 'category';
+
+// Category a reason-style answer can fall into, recognised by keywords or short phrases
+export interface AnswerCategory {
+  name: string;
+  keywords: string[];
+}
+
+export interface SurveyQuestion {
+  number: number;
+  text: string;
+  instructions?: string | null; // Extra direction for the agent, e.g. "Reflect their Q2 answer"
+  detection_phrases: string[]; // Lowercase phrases that identify the question in agent turns
+  follow_ups: SurveyFollowUp[];
+  answer_type?: AnswerType | null; // Unset: answers are kept as text only
+  answer_categories?: AnswerCategory[]; // For answer_type 'category'
+}
+
+export interface Survey {
+  id: string;
+  name: string;
+  organisation_name: string;
+  agent_name: string;
+  purpose: string;
+  greeting: string; // May use {{customer_name}}
+  decline_response?: string | null;
+  closing: string;
+  ai_disclosure?: string | null;
+  tone?: string | null;
+  questions: SurveyQuestion[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type SurveyDefinition = Omit<Survey, 'created_at' | 'updated_at'>;
+
+// Immutable snapshot of a survey definition as it was dialed
+export interface SurveyVersion {
+  id: string;
+  survey_id: string;
+  version: number;
+  definition: SurveyDefinition;
+  definition_hash: string; // Changes with any edit to the definition
+  compatibility_key: string; // Changes only when the questions asked change
+  created_at: string;
+}
+
 export interface Customer {
   id: string;
   first_name: string;
@@ -29,17 +127,73 @@ export interface Customer {
   company_name?: string;
   uploaded_at: string;
   campaign_id?: string;
+  timezone?: string | null;
+  contact_status?: 'pending' | 'in-progress' | 'retry-scheduled' | 'reached' | 'attempts-exhausted' | 'not-reached' | 'do-not-call' | 'callback-scheduled';
 }
 
 export interface SurveyCall {
   id: string;
   customer_first_name: string;
   customer_phone: string;
-  call_sid: string;
+  call_sid?: string;
   customer_id?: string;
   campaign_id?: string;
+  survey_id?: string | null;
+  survey_version_id?: string | null;
   call_status: 'queued' | 'in-progress' | 'completed' | 'failed' | 'no-answer';
   call_duration?: number;
+  failure_reason?: string | null; // Provider's reason for a call that did not connect
+  attempt_number?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CallJob {
+  id: string;
+  campaign_id?: string | null;
+  status: 'running' | 'completed' | 'cancelled';
+  total: number;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string | null;
+}
+
+export interface CallQueueItem {
+  id: string;
+  job_id?: string | null;
+  customer_id: string;
+  campaign_id?: string | null;
+  status: 'pending' | 'held' | 'dialing' | 'dialed' | 'failed' | 'cancelled';
+  scheduled_for: string;
+  call_id?: string | null;
+  retry_of_call_id?: string | null;
+  callback_id?: string | null;
+  error?: string | null;
+  locked_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DoNotCallEntry {
+  id: string;
+  phone_number: string;
+  reason?: string | null;
+  source: 'manual' | 'import' | 'opt-out';
+  source_call_id?: string | null;
+  created_at: string;
+}
+
+export interface Callback {
+  id: string;
+  customer_id: string;
+  campaign_id?: string | null;
+  source_call_id?: string | null;
+  requested_text?: string | null;
+  scheduled_for: string;
+  timezone: string;
+  status: 'pending' | 'dialed' | 'failed' | 'cancelled';
+  dialed_call_id?: string | null;
+  notes?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -51,11 +205,66 @@ export interface SurveyResponse {
   question_text: string;
   response_text: string;
   response_sentiment?: 'positive' | 'neutral' | 'negative';
+  sentiment_score?: number | null; // -1 to 1
+  sentiment_confidence?: number | null; // 0 to 1
+  answer_type?: AnswerType | null; // Set on main answers to questions with an extractor
+  answer_value?: number | string | null; // Months for a duration, yes/no/unsure, or a category name
+  answer_confidence?: number | null; // 0 to 1; 1 once reviewed
+  needs_review?: boolean;
+  answer_reviewed_at?: string | null;
   response_timestamp?: string;
   is_followup?: boolean;
   created_at: string;
 }
 
+export interface WebhookEvent {
+  id: string;
+  provider: string;
+  event_key: string; // Deduplication key, e.g. "completion:<conversation id>" for every completion event of a conversation
+  event_type: string;
+  conversation_id?: string | null;
+  payload: any;
+  status: 'pending' | 'processing' | 'processed' | 'failed' | 'dead';
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string | null;
+  locked_at?: string | null;
+  processed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerImport {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  file_name?: string | null;
+  file_path?: string | null; // Upload on local disk until the job finishes
+  mode: 'insert' | 'upsert' | 'skip';
+  mapping?: Record<string, string | null> | null;
+  campaign_id?: string | null;
+  headers: string[];
+  total_rows?: number | null; // Known once the file has been counted
+  processed_rows: number;
+  inserted_count: number;
+  updated_count: number;
+  skipped_count: number;
+  error_count: number;
+  error?: string | null; // Why the whole job failed
+  started_at?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerImportRowError {
+  id: string;
+  import_id: string;
+  row_number: number;
+  error: string;
+  row_values: Record<string, string>;
+  created_at: string;
+}
+
 export interface CallTranscript {
   id: string;
   call_id: string;
@@ -64,193 +273,661 @@ export interface CallTranscript {
 }
 
 export class SupabaseService {
-  // Customer operations
-  async createCustomer(customer: Omit<Customer, 'id' | 'uploaded_at'>) {
+  // Campaign operations
+  async createCampaign(campaign: Omit<Campaign, 'id' | 'created_at' | 'updated_at'>) {
     const { data, error } = await getSupabase()
-      .from('customers')
-      .insert([customer])
+      .from('campaigns')
+      .insert([campaign])
       .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return data as Campaign;
+  }
+
+  async getCampaigns() {
+    const { data, error } = await getSupabase()
+      .from('campaigns')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as Campaign[];
+  }
+
+  async getCampaignById(id: string) {
+    const { data, error } = await getSupabase()
+      .from('campaigns')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Campaign | null;
   }
 
-  async getCustomers() {
+  async getCampaignsByStatus(status: Campaign['status']) {
     const { data, error } = await getSupabase()
-      .from('customers')
+      .from('campaigns')
       .select('*')
-      .order('uploaded_at', { ascending: false });
+      .eq('status', status);
 
     if (error) throw error;
-    return data;
+    return data as Campaign[];
   }
 
-  async getCustomerById(id: string) {
+  // Scheduled campaigns whose start time has passed
+  async getDueScheduledCampaigns(now: Date = new Date()) {
     const { data, error } = await getSupabase()
-      .from('customers')
+      .from('campaigns')
       .select('*')
+      .eq('status', 'scheduled')
+      .lte('scheduled_start_at', now.toISOString());
+
+    if (error) throw error;
+    return data as Campaign[];
+  }
+
+  async updateCampaign(id: string, updates: Partial<Omit<Campaign, 'id' | 'created_at' | 'updated_at'>>) {
+    const { data, error } = await getSupabase()
+      .from('campaigns')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
       .eq('id', id)
+      .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return data as Campaign;
   }
 
-  // Call operations
-  async createCall(call: Omit<SurveyCall, 'id' | 'created_at' | 'updated_at'>) {
+  // Update a campaign only while it is in one of the `from` statuses; null when it no longer was
+  async transitionCampaign(
+    id: string,
+    from: Campaign['status'][],
+    updates: Partial<Omit<Campaign, 'id' | 'created_at' | 'updated_at'>> & { status: Campaign['status'] }
+  ) {
     const { data, error } = await getSupabase()
-      .from('survey_calls')
-      .insert([call])
+      .from('campaigns')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .in('status', from)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Campaign | null;
+  }
+
+  async deleteCampaign(id: string) {
+    const { error } = await getSupabase()
+      .from('campaigns')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Survey operations
+  async createSurvey(survey: Omit<Survey, 'id' | 'created_at' | 'updated_at'> & { id?: string }) {
+    const { data, error } = await getSupabase()
+      .from('surveys')
+      .insert([survey])
       .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return data as Survey;
+  }
+
+  async getSurveys() {
+    const { data, error } = await getSupabase()
+      .from('surveys')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as Survey[];
+  }
+
+  async getSurveyById(id: string) {
+    const { data, error } = await getSupabase()
+      .from('surveys')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Survey | null;
   }
 
-  async updateCallStatus(callSid: string, status: SurveyCall['call_status'], duration?: number) {
+  async updateSurvey(id: string, updates: Partial<Omit<Survey, 'id' | 'created_at' | 'updated_at'>>) {
     const { data, error } = await getSupabase()
-      .from('survey_calls')
-      .update({ 
-        call_status: status, 
-        call_duration: duration,
+      .from('surveys')
+      .update({
+        ...updates,
         updated_at: new Date().toISOString()
       })
-      .eq('call_sid', callSid)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Survey;
+  }
+
+  async deleteSurvey(id: string) {
+    const { error } = await getSupabase()
+      .from('surveys')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async countCampaignsUsingSurvey(surveyId: string) {
+    const { count, error } = await getSupabase()
+      .from('campaigns')
+      .select('id', { count: 'exact', head: true })
+      .eq('survey_id', surveyId);
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  // Call job operations
+  async createCallJob(job: Omit<CallJob, 'id' | 'created_at' | 'updated_at'>) {
+    const { data, error } = await getSupabase()
+      .from('call_jobs')
+      .insert([job])
       .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return data as CallJob;
   }
 
-  async getCallById(id: string) {
+  async getCallJobById(id: string) {
     const { data, error } = await getSupabase()
-      .from('survey_calls')
+      .from('call_jobs')
       .select('*')
       .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as CallJob | null;
+  }
+
+  async updateCallJob(id: string, updates: Partial<Omit<CallJob, 'id' | 'created_at' | 'updated_at'>>) {
+    const { data, error } = await getSupabase()
+      .from('call_jobs')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return data as CallJob;
+  }
+
+  // Call queue operations
+  async enqueueCalls(items: Array<Pick<CallQueueItem, 'customer_id'> & Partial<Pick<CallQueueItem, 'job_id' | 'campaign_id' | 'status' | 'scheduled_for' | 'retry_of_call_id' | 'callback_id'>>>) {
+    const inserted: CallQueueItem[] = [];
+
+    for (let i = 0; i < items.length; i += 500) {
+      const { data, error } = await getSupabase()
+        .from('call_queue')
+        .insert(items.slice(i, i + 500))
+        .select();
+
+      if (error) throw error;
+      inserted.push(...(data as CallQueueItem[]));
+    }
+
+    return inserted;
+  }
+
+  async getDueQueueItems(limit: number, now: Date = new Date()) {
+    const { data, error } = await getSupabase()
+      .from('call_queue')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('scheduled_for', now.toISOString())
+      .order('scheduled_for', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data as CallQueueItem[];
   }
 
-  async getCallBySid(callSid: string) {
+  async getQueueItemByRetryOf(callId: string) {
     const { data, error } = await getSupabase()
-      .from('survey_calls')
+      .from('call_queue')
       .select('*')
-      .eq('call_sid', callSid)
+      .eq('retry_of_call_id', callId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as CallQueueItem | null;
+  }
+
+  // Atomically move a pending item to dialing; returns null if another worker got it first
+  async claimQueueItem(id: string) {
+    const { data, error } = await getSupabase()
+      .from('call_queue')
+      .update({
+        status: 'dialing',
+        locked_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as CallQueueItem | null;
+  }
+
+  async updateQueueItem(id: string, updates: Partial<Omit<CallQueueItem, 'id' | 'created_at' | 'updated_at'>>) {
+    const { data, error } = await getSupabase()
+      .from('call_queue')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return data as CallQueueItem;
   }
 
-  async getCalls() {
+  async getQueueItemsByJob(jobId: string) {
     const { data, error } = await getSupabase()
-      .from('survey_calls')
+      .from('call_queue')
       .select('*')
-      .order('created_at', { ascending: false });
+      .eq('job_id', jobId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as CallQueueItem[];
+  }
+
+  // Queue entries that still have to be dialed (or are being dialed) for a job or campaign
+  async countOpenQueueItems(filter: { jobId?: string; campaignId?: string }) {
+    let query = getSupabase()
+      .from('call_queue')
+      .select('id', { count: 'exact', head: true })
+      .in('status', ['pending', 'held', 'dialing']);
+
+    if (filter.jobId) query = query.eq('job_id', filter.jobId);
+    if (filter.campaignId) query = query.eq('campaign_id', filter.campaignId);
+
+    const { count, error } = await query;
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async cancelCampaignJobs(campaignId: string) {
+    const { error } = await getSupabase()
+      .from('call_jobs')
+      .update({
+        status: 'cancelled',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('campaign_id', campaignId)
+      .eq('status', 'running');
+
+    if (error) throw error;
+  }
+
+  async getQueueStatusCounts(jobId: string) {
+    const { data, error } = await getSupabase()
+      .from('call_queue')
+      .select('status')
+      .eq('job_id', jobId);
 
     if (error) throw error;
-    return data;
+
+    const counts: Record<CallQueueItem['status'], number> = {
+      pending: 0, held: 0, dialing: 0, dialed: 0, failed: 0, cancelled: 0
+    };
+    (data || []).forEach(row => {
+      counts[row.status as CallQueueItem['status']]++;
+    });
+    return counts;
+  }
+
+  // Ids of customers with a live (not cancelled) queue entry in the campaign
+  async getQueuedCustomerIds(campaignId: string): Promise<Set<string>> {
+    const rows = await fetchAllRows<{ customer_id: string }>(() => getSupabase()
+      .from('call_queue')
+      .select('id, customer_id')
+      .eq('campaign_id', campaignId)
+      .neq('status', 'cancelled'));
+
+    return new Set(rows.map(row => row.customer_id));
   }
 
-  // Response operations
-  async createResponse(response: Omit<SurveyResponse, 'id' | 'created_at'>) {
+  // Move every queue entry of a campaign from one status to another (hold/release/cancel)
+  async setCampaignQueueStatus(campaignId: string, from: CallQueueItem['status'][], to: CallQueueItem['status']) {
     const { data, error } = await getSupabase()
-      .from('survey_responses')
-      .insert([response])
+      .from('call_queue')
+      .update({ status: to, updated_at: new Date().toISOString() })
+      .eq('campaign_id', campaignId)
+      .in('status', from)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  // Items left in dialing by a crashed worker; the dial may or may not have gone out
+  async failInterruptedQueueItems(lockedBefore: Date) {
+    const { data, error } = await getSupabase()
+      .from('call_queue')
+      .update({
+        status: 'failed',
+        error: 'Interrupted before the dial was confirmed',
+        updated_at: new Date().toISOString()
+      })
+      .eq('status', 'dialing')
+      .lt('locked_at', lockedBefore.toISOString())
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  // Cancel customers' undialed entries; entries dialing a callback are left to the callback
+  async cancelCustomerQueueItems(customerIds: string[], reason: string) {
+    const { data, error } = await getSupabase()
+      .from('call_queue')
+      .update({ status: 'cancelled', error: reason, updated_at: new Date().toISOString() })
+      .in('customer_id', customerIds)
+      .in('status', ['pending', 'held'])
+      .is('callback_id', null)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  async reassignQueueItems(fromCustomerIds: string[], toCustomerId: string) {
+    const { data, error } = await getSupabase()
+      .from('call_queue')
+      .update({ customer_id: toCustomerId, updated_at: new Date().toISOString() })
+      .in('customer_id', fromCustomerIds)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  // Customer import job operations
+  async createCustomerImport(job: Pick<CustomerImport, 'file_name' | 'file_path' | 'mode' | 'mapping' | 'campaign_id' | 'headers'>) {
+    const { data, error } = await getSupabase()
+      .from('customer_imports')
+      .insert([job])
       .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return data as CustomerImport;
   }
 
-  async getResponsesByCallId(callId: string) {
+  async getCustomerImportById(id: string) {
     const { data, error } = await getSupabase()
-      .from('survey_responses')
+      .from('customer_imports')
       .select('*')
-      .eq('call_id', callId)
-      .order('question_number', { ascending: true });
+      .eq('id', id)
+      .maybeSingle();
 
     if (error) throw error;
-    return data;
+    return data as CustomerImport | null;
   }
 
-  // Get all survey responses
-  async getAllResponses() {
+  async getCustomerImports(limit: number) {
     const { data, error } = await getSupabase()
-      .from('survey_responses')
+      .from('customer_imports')
       .select('*')
-      .order('created_at', { ascending: false });
+      .order('created_at', { ascending: false })
+      .limit(limit);
 
     if (error) throw error;
-    return data;
+    return data as CustomerImport[];
   }
 
-  // Get all customers
-  async getAllCustomers() {
+  async getPendingCustomerImports(limit: number) {
     const { data, error } = await getSupabase()
-      .from('customers')
+      .from('customer_imports')
       .select('*')
-      .order('uploaded_at', { ascending: false });
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data as CustomerImport[];
+  }
+
+  // Move a job from one status to another; null if it was no longer in `from` (claimed or cancelled meanwhile)
+  async transitionCustomerImport(
+    id: string,
+    from: CustomerImport['status'][],
+    updates: Partial<Omit<CustomerImport, 'id' | 'created_at' | 'updated_at'>> & { status: CustomerImport['status'] }
+  ) {
+    const { data, error } = await getSupabase()
+      .from('customer_imports')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .in('status', from)
+      .select()
+      .maybeSingle();
 
     if (error) throw error;
-    return data;
+    return data as CustomerImport | null;
   }
 
-  // Transcript operations
-  async createTranscript(transcript: Omit<CallTranscript, 'id' | 'created_at'>) {
+  async updateCustomerImport(id: string, updates: Partial<Omit<CustomerImport, 'id' | 'status' | 'created_at' | 'updated_at'>>) {
     const { data, error } = await getSupabase()
-      .from('call_transcripts')
-      .insert([transcript])
+      .from('customer_imports')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
       .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return data as CustomerImport;
   }
 
-  async getTranscriptByCallId(callId: string) {
+  // Jobs a previous process stopped updating; rows already written stay, so they are failed rather than rerun
+  async failInterruptedCustomerImports(updatedBefore: Date) {
     const { data, error } = await getSupabase()
-      .from('call_transcripts')
+      .from('customer_imports')
+      .update({
+        status: 'failed',
+        error: 'Stopped making progress, e.g. after a server restart; import the remaining rows again in skip mode',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('status', 'processing')
+      .lt('updated_at', updatedBefore.toISOString())
+      .select();
+
+    if (error) throw error;
+    return data as CustomerImport[];
+  }
+
+  async addCustomerImportErrors(errors: Array<Pick<CustomerImportRowError, 'import_id' | 'row_number' | 'error' | 'row_values'>>) {
+    for (let i = 0; i < errors.length; i += 500) {
+      const { error } = await getSupabase()
+        .from('customer_import_errors')
+        .insert(errors.slice(i, i + 500));
+
+      if (error) throw error;
+    }
+  }
+
+  async getCustomerImportErrors(importId: string, offset: number, limit: number) {
+    const { data, error } = await getSupabase()
+      .from('customer_import_errors')
       .select('*')
-      .eq('call_id', callId)
-      .single();
+      .eq('import_id', importId)
+      .order('row_number', { ascending: true })
+      .range(offset, offset + limit - 1);
 
-    if (error && error.code !== 'PGRST116') throw error; // PGRST116 = no rows returned
-    return data;
+    if (error) throw error;
+    return data as CustomerImportRowError[];
   }
 
-  // Analytics
-  async getCallSummary() {
-    const { data: calls, error } = await getSupabase()
-      .from('survey_calls')
-      .select('call_status, call_duration');
+  async getQueueItemByCallback(callbackId: string) {
+    const { data, error } = await getSupabase()
+      .from('call_queue')
+      .select('*')
+      .eq('callback_id', callbackId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
     if (error) throw error;
+    return data as CallQueueItem | null;
+  }
 
-    const totalCalls = calls.length;
-    const completedCalls = calls.filter(c => c.call_status === 'completed').length;
-    const failedCalls = calls.filter(c => c.call_status === 'failed').length;
-    const noAnswerCalls = calls.filter(c => c.call_status === 'no-answer').length;
-    const completionRate = totalCalls > 0 ? (completedCalls / totalCalls) * 100 : 0;
-    const averageDuration = completedCalls > 0 
-      ? calls.filter(c => c.call_status === 'completed' && c.call_duration)
-            .reduce((sum, c) => sum + (c.call_duration || 0), 0) / completedCalls
-      : 0;
+  // Webhook inbox operations
+  // Returns null when an event with the same key was already recorded
+  async recordWebhookEvent(event: Pick<WebhookEvent, 'provider' | 'event_key' | 'event_type' | 'conversation_id' | 'payload'>) {
+    const { data, error } = await getSupabase()
+      .from('webhook_events')
+      .upsert([event], { onConflict: 'event_key', ignoreDuplicates: true })
+      .select();
 
-    return {
-      total_calls: totalCalls,
-      completed_calls: completedCalls,
-      failed_calls: failedCalls,
-      no_answer_calls: noAnswerCalls,
-      completion_rate: Math.round(completionRate * 100) / 100,
-      average_duration: Math.round(averageDuration)
-    };
+    if (error) throw error;
+    return ((data || [])[0] as WebhookEvent | undefined) || null;
+  }
+
+  async getWebhookEventByKey(eventKey: string) {
+    const { data, error } = await getSupabase()
+      .from('webhook_events')
+      .select('*')
+      .eq('event_key', eventKey)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as WebhookEvent | null;
+  }
+
+  async getWebhookEventById(id: string) {
+    const { data, error } = await getSupabase()
+      .from('webhook_events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as WebhookEvent | null;
+  }
+
+  async getWebhookEvents(filter: { status?: WebhookEvent['status']; limit?: number } = {}) {
+    let query = getSupabase()
+      .from('webhook_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filter.limit || 100);
+
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data as WebhookEvent[];
+  }
+
+  // Events waiting for their first or next attempt
+  async getDueWebhookEvents(limit: number, now: Date = new Date()) {
+    const { data, error } = await getSupabase()
+      .from('webhook_events')
+      .select('*')
+      .in('status', ['pending', 'failed'])
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data as WebhookEvent[];
+  }
+
+  // Claim an event for processing; null if another worker got there first
+  async claimWebhookEvent(event: WebhookEvent) {
+    const { data, error } = await getSupabase()
+      .from('webhook_events')
+      .update({
+        status: 'processing',
+        attempts: event.attempts + 1,
+        locked_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', event.id)
+      .eq('status', event.status)
+      .eq('attempts', event.attempts)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as WebhookEvent | null;
+  }
+
+  async updateWebhookEvent(id: string, updates: Partial<Omit<WebhookEvent, 'id' | 'created_at' | 'updated_at'>>) {
+    const { data, error } = await getSupabase()
+      .from('webhook_events')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as WebhookEvent;
+  }
+
+  // Events left mid-processing by a previous process; processing is idempotent so they are retried
+  async releaseInterruptedWebhookEvents(lockedBefore: Date) {
+    const { data, error } = await getSupabase()
+      .from('webhook_events')
+      .update({
+        status: 'failed',
+        last_error: 'Interrupted during processing',
+        next_attempt_at: new Date().toISOString(),
+        locked_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('status', 'processing')
+      .lt('locked_at', lockedBefore.toISOString())
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
   }
 }
 
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import { supabaseService, isSupabaseConfigured, SurveyCall, SurveyDefinition, SurveyQuestion, SurveyVersion } from './supabaseService';
+import { repository } from '../repositories';
+import { DEFAULT_SURVEY, DEFAULT_SURVEY_ID } from './defaultSurvey';
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[’‘]/g, '\'');
+}
+
+// Phrases that identify a question or follow-up; the text itself when none are configured
+function phrasesFor(item: { text: string; detection_phrases?: string[] }): string[] {
+  const phrases = (item.detection_phrases || []).map(normalizeText).filter(Boolean);
+  return phrases.length > 0 ? phrases : [normalizeText(item.text).replace(/[?.!]+$/, '')];
+}
+
+// Definition with a fixed key order, so hashes do not depend on how JSONB stored the object
+function canonicalDefinition(survey: SurveyDefinition): SurveyDefinition {
+  return {
+    id: survey.id,
+    name: survey.name,
+    organisation_name: survey.organisation_name,
+    agent_name: survey.agent_name,
+    purpose: survey.purpose,
+    greeting: survey.greeting,
+    decline_response: survey.decline_response ?? null,
+    closing: survey.closing,
+    ai_disclosure: survey.ai_disclosure ?? null,
+    tone: survey.tone ?? null,
+    questions: survey.questions.map(question => ({
+      number: question.number,
+      text: question.text,
+      instructions: question.instructions ?? null,
+      detection_phrases: question.detection_phrases,
+      follow_ups: question.follow_ups.map(followUp => ({
+        condition: followUp.condition ?? null,
+        text: followUp.text,
+        detection_phrases: followUp.detection_phrases,
+      })),
+      // Only when set, so versions recorded before extractors existed keep their hash
+      ...(question.answer_type ? {
+        answer_type: question.answer_type,
+        answer_categories: question.answer_categories ?? [],
+      } : {}),
+    })),
+  };
+}
+
+function hash(value: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
+
+// Answers are comparable across versions only when the same questions were asked in the same words
+function compatibilityKey(survey: SurveyDefinition): string {
+  return hash(survey.questions.map(question => [
+    question.number,
+    question.text,
+    question.follow_ups.map(followUp => followUp.text),
+  ]));
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as { code?: string }).code === '23505';
+}
+
+export class SurveyService {
+  // Versions never change once written, so they can be cached for the life of the process
+  private versions = new Map<string, SurveyVersion>();
+
+  // Stored survey by id; the built-in default survey is served until a stored copy replaces it
+  async getSurvey(id: string): Promise<SurveyDefinition | null> {
+    // Offline (memory storage without Supabase) only the built-in survey exists
+    if (!isSupabaseConfigured()) return id === DEFAULT_SURVEY_ID ? DEFAULT_SURVEY : null;
+
+    const survey = await supabaseService.getSurveyById(id);
+    if (survey) return survey;
+    return id === DEFAULT_SURVEY_ID ? DEFAULT_SURVEY : null;
+  }
+
+  async getSurveys(): Promise<SurveyDefinition[]> {
+    if (!isSupabaseConfigured()) return [DEFAULT_SURVEY];
+
+    const surveys: SurveyDefinition[] = await supabaseService.getSurveys();
+    if (!surveys.some(survey => survey.id === DEFAULT_SURVEY_ID)) {
+      surveys.push(DEFAULT_SURVEY);
+    }
+    return surveys;
+  }
+
+  // Survey a campaign runs, falling back to the default survey
+  async getSurveyForCampaign(campaignId?: string | null): Promise<SurveyDefinition> {
+    const campaign = campaignId ? await supabaseService.getCampaignById(campaignId) : null;
+    const surveyId = campaign?.survey_id || DEFAULT_SURVEY_ID;
+
+    const survey = await this.getSurvey(surveyId);
+    if (!survey) {
+      console.warn(`⚠️  Survey ${surveyId} not found, using ${DEFAULT_SURVEY_ID}`);
+      return DEFAULT_SURVEY;
+    }
+    return survey;
+  }
+
+  // Version matching the survey's current definition, recording a new one if it has changed
+  async ensureCurrentVersion(survey: SurveyDefinition): Promise<SurveyVersion> {
+    const definition = canonicalDefinition(survey);
+    const definitionHash = hash(definition);
+
+    const latest = await repository.getLatestSurveyVersion(survey.id);
+    if (latest && latest.definition_hash === definitionHash) {
+      return latest;
+    }
+
+    try {
+      const version = await repository.createSurveyVersion({
+        survey_id: survey.id,
+        version: (latest?.version || 0) + 1,
+        definition,
+        definition_hash: definitionHash,
+        compatibility_key: compatibilityKey(definition),
+      });
+      console.log(`📋 Recorded survey ${survey.id} version ${version.version}`);
+      return version;
+    } catch (error) {
+      // Another dial recorded the same version first
+      if (isUniqueViolation(error)) {
+        const current = await repository.getLatestSurveyVersion(survey.id);
+        if (current && current.definition_hash === definitionHash) return current;
+      }
+      throw error;
+    }
+  }
+
+  async getVersionsByIds(ids: string[]): Promise<Map<string, SurveyVersion>> {
+    const missing = ids.filter(id => !this.versions.has(id));
+    const loaded = await repository.getSurveyVersionsByIds(Array.from(new Set(missing)));
+    loaded.forEach(version => this.versions.set(version.id, version));
+
+    const result = new Map<string, SurveyVersion>();
+    ids.forEach(id => {
+      const version = this.versions.get(id);
+      if (version) result.set(id, version);
+    });
+    return result;
+  }
+
+  // Newest version with each compatibility key, for wording shared by every version with the key
+  async getVersionsByCompatibilityKeys(keys: string[]): Promise<Map<string, SurveyVersion>> {
+    const result = new Map<string, SurveyVersion>();
+    (await repository.getSurveyVersionsByCompatibilityKeys(Array.from(new Set(keys)))).forEach(version => {
+      if (!result.has(version.compatibility_key)) result.set(version.compatibility_key, version);
+    });
+    return result;
+  }
+
+  // Survey a call was made with; calls dialed before versioning use the current definition
+  async getSurveyForCall(call: Pick<SurveyCall, 'survey_version_id' | 'survey_id' | 'campaign_id'>): Promise<SurveyDefinition> {
+    if (call.survey_version_id) {
+      const version = (await this.getVersionsByIds([call.survey_version_id])).get(call.survey_version_id);
+      if (version) return version.definition;
+    }
+    if (call.survey_id) {
+      const survey = await this.getSurvey(call.survey_id);
+      if (survey) return survey;
+    }
+    return this.getSurveyForCampaign(call.campaign_id);
+  }
+
+  // Agent system prompt generated from the survey definition
+  buildPrompt(survey: SurveyDefinition): string {
+    const steps: string[] = [];
+
+    steps.push([
+      `Greeting: "${survey.greeting}"`,
+      ...(survey.decline_response ? [`   - If NO: "${survey.decline_response}" → Schedule callback`] : []),
+      '   - If YES: Continue to questions',
+    ].join('\n'));
+
+    survey.questions.forEach(question => {
+      const ask = question.instructions
+        ? `${question.instructions}, then ask: "${question.text}"`
+        : `"${question.text}"`;
+      const followUps = question.follow_ups.map((followUp, index) => {
+        const label = followUp.condition || `Follow-up ${String.fromCharCode(65 + index)}`;
+        return `   - ${label}: "${followUp.text}"`;
+      });
+      steps.push([`Question ${question.number}: ${ask}`, ...followUps].join('\n'));
+    });
+
+    steps.push(`Closing: "${survey.closing}"`);
+
+    const sections = [
+      `You are ${survey.agent_name}, a friendly customer service agent calling from ${survey.organisation_name}. You're conducting ${survey.purpose}.`,
+      `CONVERSATION FLOW:\n${steps.map((step, index) => `${index + 1}. ${step}`).join('\n\n')}`,
+    ];
+
+    if (survey.ai_disclosure) {
+      sections.push(`AI DETECTION RESPONSE:\nIf customer asks "Are you AI?" or seems suspicious:\n"${survey.ai_disclosure}"`);
+    }
+    if (survey.tone) {
+      sections.push(`TONE: ${survey.tone}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  getQuestion(survey: SurveyDefinition, questionNumber: number): SurveyQuestion | null {
+    return survey.questions.find(question => question.number === questionNumber) || null;
+  }
+
+  getQuestionText(survey: SurveyDefinition, questionNumber: number): string {
+    return this.getQuestion(survey, questionNumber)?.text || 'Additional feedback';
+  }
+
+  // Detect which question is being asked from agent message text; follow-ups return null
+  detectQuestion(survey: SurveyDefinition, text: string): number | null {
+    if (this.isFollowUp(survey, text)) return null;
+
+    const lowerText = normalizeText(text);
+    const question = survey.questions.find(q => phrasesFor(q).some(phrase => lowerText.includes(phrase)));
+    return question ? question.number : null;
+  }
+
+  // Check if an agent message is one of the survey's follow-up questions
+  isFollowUp(survey: SurveyDefinition, text: string): boolean {
+    const lowerText = normalizeText(text);
+    return survey.questions.some(question =>
+      question.follow_ups.some(followUp => phrasesFor(followUp).some(phrase => lowerText.includes(phrase)))
+    );
+  }
+}
+
+export const surveyService = new SurveyService();
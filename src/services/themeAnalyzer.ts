@@ -0,0 +1,240 @@
+// Themes in open-ended answers, worked out locally. Each answer is reduced to content words and two-word
+// phrases, terms are weighted by TF-IDF, and answers are grouped around the heaviest terms, merging terms
+// that keep turning up in the same answers ("delivery" and "late delivery").
+
+export interface ThemeOptions {
+  maxThemes?: number;
+  minAnswers?: number; // Terms and themes found in fewer answers are ignored
+}
+
+export interface ThemeTerm {
+  term: string;
+  answers: number; // Answers containing the term
+  weight: number; // Summed TF-IDF weight across those answers
+}
+
+export interface Theme {
+  label: string;
+  terms: ThemeTerm[]; // Heaviest first
+  answers: number[]; // Indexes into the analysed texts, closest match first
+}
+
+export interface ThemeAnalysis {
+  themes: Theme[]; // Most answers first
+  unthemed: number[]; // Answers with no theme term, e.g. "no, that's it"
+  keyPhrases: ThemeTerm[]; // Heaviest terms over all answers
+}
+
+const DEFAULT_MAX_THEMES = 8;
+const DEFAULT_MIN_ANSWERS = 2;
+const KEY_PHRASES = 20;
+// Candidate terms considered per theme wanted
+const CANDIDATES_PER_THEME = 3;
+// Terms whose answers overlap this much belong to the same theme
+const MERGE_OVERLAP = 0.5;
+
+// Function words, fillers of spoken answers, and evaluative words that say how but not what
+const STOP_WORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be',
+  'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'cant', 'could', 'couldnt',
+  'did', 'didnt', 'do', 'does', 'doesnt', 'doing', 'dont', 'down', 'during', 'each', 'else', 'even', 'ever', 'every',
+  'few', 'for', 'from', 'further', 'get', 'gets', 'getting', 'got', 'had', 'has', 'have', 'having', 'he', 'her',
+  'here', 'hers', 'him', 'his', 'how', 'i', 'id', 'if', 'ill', 'im', 'in', 'into', 'is', 'isnt', 'it', 'its', 'ive',
+  'just', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself', 'now', 'of', 'off', 'on', 'once', 'one',
+  'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than',
+  'that', 'thats', 'the', 'their', 'them', 'then', 'there', 'theres', 'these', 'they', 'theyre', 'theyve', 'this',
+  'those', 'through', 'to', 'too', 'under', 'until', 'up', 'us', 'very', 'was', 'wasnt', 'we', 'were', 'weve', 'what',
+  'whats', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'wont', 'would', 'wouldnt', 'you',
+  'youd', 'youll', 'youre', 'your', 'yours', 'yourself', 'youve', 'yet', 'lets', 'went', 'go', 'goes', 'going',
+  'make', 'makes', 'made', 'say', 'said', 'see', 'use', 'used', 'way', 'want', 'still', 'always', 'never', 'though',
+  'although', 'however', 'etc',
+  // Spoken fillers
+  'yes', 'yeah', 'yep', 'yup', 'no', 'nope', 'nah', 'um', 'umm', 'uh', 'er', 'erm', 'ah', 'oh', 'hmm', 'ok', 'okay',
+  'well', 'like', 'really', 'pretty', 'quite', 'bit', 'lot', 'lots', 'thing', 'things', 'stuff', 'guess', 'think',
+  'reckon', 'mean', 'know', 'suppose', 'probably', 'maybe', 'actually', 'honestly', 'basically', 'anyway', 'mate',
+  'sure', 'thanks', 'thank', 'cheers', 'right', 'look', 'kind', 'sort', 'something', 'anything', 'nothing',
+  'everything', 'mention', 'definitely', 'absolutely', 'certainly', 'course',
+  // Evaluative words
+  'good', 'great', 'fine', 'nice', 'happy', 'alright', 'excellent', 'fantastic', 'brilliant', 'awesome', 'bad',
+  'better', 'best', 'love', 'pleased', 'glad',
+]);
+
+interface Token {
+  key: string; // Normalized form terms are counted by
+  surface: string; // As said, for labels
+}
+
+// Clause punctuation separates tokens into runs that phrases can't span
+function tokenize(text: string): Token[][] {
+  return text
+    .toLowerCase()
+    .replace(/[’‘`]/g, '\'')
+    .replace(/'s\b/g, '')
+    .replace(/n't\b/g, 'nt')
+    .replace(/'/g, '')
+    .split(/[.,;:!?()"\n]+/)
+    .map(clause => clause
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1 && !/^\d+$/.test(word))
+      .map(word => ({ key: normalizeWord(word), surface: word })));
+}
+
+// Plural and third-person endings, so "prices" and "price" count as one term
+function normalizeWord(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// Content words and pairs of adjacent content words, once each per answer
+function answerTerms(text: string, surfaces: Map<string, Map<string, number>>): Set<string> {
+  const terms = new Set<string>();
+  const add = (key: string, surface: string) => {
+    terms.add(key);
+    if (!surfaces.has(key)) surfaces.set(key, new Map());
+    const forms = surfaces.get(key)!;
+    forms.set(surface, (forms.get(surface) || 0) + 1);
+  };
+
+  for (const clause of tokenize(text)) {
+    for (let i = 0; i < clause.length; i++) {
+      if (STOP_WORDS.has(clause[i].surface) || STOP_WORDS.has(clause[i].key)) continue;
+      add(clause[i].key, clause[i].surface);
+
+      const next = clause[i + 1];
+      if (next && !STOP_WORDS.has(next.surface) && !STOP_WORDS.has(next.key) && next.key !== clause[i].key) {
+        add(`${clause[i].key} ${next.key}`, `${clause[i].surface} ${next.surface}`);
+      }
+    }
+  }
+  return terms;
+}
+
+function mostCommon(forms: Map<string, number> | undefined, fallback: string): string {
+  if (!forms) return fallback;
+  return Array.from(forms.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+}
+
+// Whole words only, so "app" isn't part of "apple"
+function containsTerm(phrase: string, term: string): boolean {
+  return ` ${phrase} `.includes(` ${term} `);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+interface Cluster {
+  terms: string[];
+  answers: Set<number>; // Answers containing any of its terms
+}
+
+export function findThemes(texts: string[], options: ThemeOptions = {}): ThemeAnalysis {
+  const maxThemes = options.maxThemes ?? DEFAULT_MAX_THEMES;
+  const minAnswers = options.minAnswers ?? DEFAULT_MIN_ANSWERS;
+  const surfaces = new Map<string, Map<string, number>>();
+  const answerTermSets = texts.map(text => answerTerms(text, surfaces));
+
+  // Answers each term appears in; terms rarer than minAnswers can't describe a theme
+  const termAnswers = new Map<string, number[]>();
+  answerTermSets.forEach((terms, index) => terms.forEach(term => {
+    if (!termAnswers.has(term)) termAnswers.set(term, []);
+    termAnswers.get(term)!.push(index);
+  }));
+  for (const [term, answers] of termAnswers) {
+    if (answers.length < minAnswers) termAnswers.delete(term);
+  }
+
+  // Presence-weighted TF-IDF, normalized per answer so long answers don't outweigh short ones
+  const idf = new Map(Array.from(termAnswers.entries(), ([term, answers]) => [term, Math.log(texts.length / answers.length) + 1]));
+  const weights: Array<Map<string, number>> = answerTermSets.map(terms => {
+    const kept = Array.from(terms).filter(term => idf.has(term));
+    const norm = Math.sqrt(kept.reduce((sum, term) => sum + idf.get(term)! ** 2, 0));
+    return new Map(kept.map(term => [term, idf.get(term)! / norm]));
+  });
+
+  const termWeight = new Map<string, number>();
+  weights.forEach(answer => answer.forEach((weight, term) => termWeight.set(term, (termWeight.get(term) || 0) + weight)));
+  const ranked = Array.from(termWeight.keys()).sort((a, b) => termWeight.get(b)! - termWeight.get(a)! || a.localeCompare(b));
+
+  const describe = (term: string, answers: number[]): ThemeTerm => ({
+    term: mostCommon(surfaces.get(term), term),
+    answers: answers.length,
+    weight: round(answers.reduce((sum, index) => sum + (weights[index].get(term) || 0), 0)),
+  });
+
+  // Seed themes from the heaviest terms, folding a term into the theme whose answers it shares most
+  const clusters: Cluster[] = [];
+  for (const term of ranked.slice(0, maxThemes * CANDIDATES_PER_THEME)) {
+    const answers = termAnswers.get(term)!;
+    let home: Cluster | null = null;
+    let homeOverlap = 0;
+    for (const cluster of clusters) {
+      const shared = answers.filter(index => cluster.answers.has(index)).length;
+      const overlap = shared / Math.min(answers.length, cluster.answers.size);
+      if (shared >= minAnswers && overlap >= MERGE_OVERLAP && overlap > homeOverlap) {
+        home = cluster;
+        homeOverlap = overlap;
+      }
+    }
+    if (home) {
+      home.terms.push(term);
+      answers.forEach(index => home.answers.add(index));
+    } else if (clusters.length < maxThemes) {
+      clusters.push({ terms: [term], answers: new Set(answers) });
+    }
+  }
+
+  // Each answer joins the theme its terms weigh most towards; themes left too small are dropped and
+  // their answers go to the next best theme
+  let assigned: Array<{ cluster: Cluster; answers: Array<{ index: number; score: number }> }> = [];
+  let unthemed: number[] = [];
+  let remaining = clusters;
+  for (;;) {
+    const byCluster = new Map(remaining.map(cluster => [cluster, [] as Array<{ index: number; score: number }>]));
+    unthemed = [];
+    weights.forEach((answer, index) => {
+      let best: Cluster | null = null;
+      let bestScore = 0;
+      for (const cluster of remaining) {
+        const score = cluster.terms.reduce((sum, term) => sum + (answer.get(term) || 0), 0);
+        if (score > bestScore) {
+          best = cluster;
+          bestScore = score;
+        }
+      }
+      if (best) byCluster.get(best)!.push({ index, score: bestScore });
+      else unthemed.push(index);
+    });
+
+    assigned = Array.from(byCluster.entries(), ([cluster, answers]) => ({ cluster, answers }));
+    const kept = assigned.filter(theme => theme.answers.length >= minAnswers).map(theme => theme.cluster);
+    if (kept.length === remaining.length) break;
+    remaining = kept;
+  }
+
+  const themes = assigned.map(({ cluster, answers }): Theme => {
+    const indexes = answers.sort((a, b) => b.score - a.score || a.index - b.index).map(answer => answer.index);
+    const terms = cluster.terms
+      .map(term => describe(term, indexes.filter(index => weights[index].has(term))))
+      .filter(term => term.answers > 0)
+      .sort((a, b) => b.weight - a.weight);
+
+    // The heaviest term, or a phrase found wherever it is ("account manager"), and the next term when it
+    // adds something ("delivery / driver", not "price / fuel price")
+    const head = terms.find(term => term.term !== terms[0].term && containsTerm(term.term, terms[0].term) && term.answers >= terms[0].answers) || terms[0];
+    const second = terms.find(term => !containsTerm(head.term, term.term) && !containsTerm(term.term, head.term) && !containsTerm(term.term, terms[0].term));
+    return {
+      label: second ? `${head.term} / ${second.term}` : head.term,
+      terms,
+      answers: indexes,
+    };
+  });
+
+  return {
+    themes: themes.sort((a, b) => b.answers.length - a.answers.length),
+    unthemed,
+    keyPhrases: ranked.slice(0, KEY_PHRASES).map(term => describe(term, termAnswers.get(term)!)),
+  };
+}
@@ -0,0 +1,85 @@
+import { repository, ResponseListFilter, ResponseWithCall } from '../repositories';
+import { findThemes, ThemeOptions, ThemeTerm } from './themeAnalyzer';
+
+export type ThemeFilter = Pick<ResponseListFilter, 'campaignId' | 'surveyVersionIds' | 'questionNumbers' | 'sentiments' | 'followUp' | 'from' | 'to'>;
+
+const THEME_PAGE_SIZE = 500;
+// Newest answers analysed per request; narrow the date range to look further back
+const MAX_THEME_RESPONSES = 5000;
+const EXAMPLES_PER_THEME = 3;
+
+export interface ThemeSummary {
+  label: string;
+  answers: number;
+  share: number; // Percent of analysed answers
+  sentiment: { positive: number; neutral: number; negative: number; unscored: number };
+  terms: ThemeTerm[];
+  examples: Array<{
+    response_id: string;
+    call_id: string;
+    response_text: string;
+    response_sentiment: ResponseWithCall['response_sentiment'] | null;
+    created_at: string;
+  }>;
+}
+
+export interface ThemeReport {
+  responses: number; // Answers analysed
+  truncated: boolean; // More answers matched than were analysed
+  themes: ThemeSummary[];
+  unthemed: number;
+  key_phrases: ThemeTerm[];
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 10000) / 100 : 0;
+}
+
+export class ThemeService {
+  // Group matching answers into themes, with counts, sentiment mix and the answers that show each theme best
+  async analyze(filter: ThemeFilter, options: ThemeOptions = {}): Promise<ThemeReport> {
+    const responses: ResponseWithCall[] = [];
+    let total = 0;
+    for (let offset = 0; offset < MAX_THEME_RESPONSES; offset += THEME_PAGE_SIZE) {
+      const page = await repository.listResponses(filter, {
+        limit: Math.min(THEME_PAGE_SIZE, MAX_THEME_RESPONSES - offset),
+        offset,
+        sort: 'created_at',
+        ascending: false,
+      });
+      responses.push(...page.rows);
+      total = page.total;
+      if (offset + THEME_PAGE_SIZE >= page.total) break;
+    }
+
+    const analysis = findThemes(responses.map(response => response.response_text), options);
+
+    return {
+      responses: responses.length,
+      truncated: total > responses.length,
+      themes: analysis.themes.map(theme => {
+        const sentiment = { positive: 0, neutral: 0, negative: 0, unscored: 0 };
+        theme.answers.forEach(index => sentiment[responses[index].response_sentiment || 'unscored']++);
+
+        return {
+          label: theme.label,
+          answers: theme.answers.length,
+          share: percent(theme.answers.length, responses.length),
+          sentiment,
+          terms: theme.terms,
+          examples: theme.answers.slice(0, EXAMPLES_PER_THEME).map(index => ({
+            response_id: responses[index].id,
+            call_id: responses[index].call_id,
+            response_text: responses[index].response_text,
+            response_sentiment: responses[index].response_sentiment ?? null,
+            created_at: responses[index].created_at,
+          })),
+        };
+      }),
+      unthemed: analysis.unthemed.length,
+      key_phrases: analysis.keyPhrases,
+    };
+  }
+}
+
+export const themeService = new ThemeService();
@@ -0,0 +1,116 @@
+import { SurveyDefinition, SurveyResponse } from './supabaseService';
+import { surveyService } from './surveyService';
+import { doNotCallService } from './doNotCallService';
+import { analyzeSentiment } from './sentimentAnalyzer';
+import { extractAnswer } from './answerExtractor';
+import { ElevenLabsTranscriptEntry, ElevenLabsConversationMetadata } from '../webhooks/elevenlabsEvents';
+
+export interface TranscriptTurn {
+  index: number;
+  role: string;
+  message: string;
+  question: number | null; // Agent: question detected in the turn; customer: question being answered
+  followUp: boolean; // Agent: asks a follow-up; customer: answers one
+}
+
+export type ParsedResponse = Omit<SurveyResponse, 'id' | 'call_id' | 'created_at'>;
+
+export interface TranscriptAnalysis {
+  turns: TranscriptTurn[];
+  responses: ParsedResponse[];
+  optOutPhrase: string | null; // First customer phrase asking not to be called again
+}
+
+// Work out which question each turn belongs to and the response rows the transcript yields.
+// Pure, so stored or recorded transcripts can be replayed without touching the database.
+export function analyzeTranscript(
+  survey: SurveyDefinition,
+  transcript: ElevenLabsTranscriptEntry[],
+  metadata: ElevenLabsConversationMetadata = {},
+  now: Date = new Date()
+): TranscriptAnalysis {
+  const turns: TranscriptTurn[] = [];
+  const responses: ParsedResponse[] = [];
+  let currentQuestion: number | null = null;
+  let askedQuestion: number | null = null; // Last question the agent asked; follow-ups belong to it
+  let optOutPhrase: string | null = null;
+  const callStartTime = metadata.start_time_unix_secs
+    ? new Date(metadata.start_time_unix_secs * 1000)
+    : now; // Fallback to current time
+
+  for (let i = 0; i < transcript.length; i++) {
+    const entry = transcript[i];
+    const role = entry.role || entry.speaker || 'unknown';
+    const message = entry.message || entry.response || entry.text || '';
+    const timeInCallSecs = entry.time_in_call_secs;
+    const turn: TranscriptTurn = { index: i, role, message, question: null, followUp: false };
+    turns.push(turn);
+
+    // Calculate response timestamp
+    let responseTimestamp: string | undefined;
+    if (timeInCallSecs !== undefined && metadata.start_time_unix_secs) {
+      responseTimestamp = new Date((metadata.start_time_unix_secs + timeInCallSecs) * 1000).toISOString();
+    } else if (timeInCallSecs !== undefined) {
+      // Relative to call start time
+      responseTimestamp = new Date(callStartTime.getTime() + timeInCallSecs * 1000).toISOString();
+    }
+
+    // Customer asked not to be called again
+    if (role === 'user' && !optOutPhrase) {
+      optOutPhrase = doNotCallService.detectOptOut(message);
+    }
+
+    if (role === 'assistant' || role === 'agent') {
+      // Detect which question is being asked
+      const detectedQuestion = surveyService.detectQuestion(survey, message);
+      turn.followUp = surveyService.isFollowUp(survey, message);
+
+      if (detectedQuestion) {
+        currentQuestion = askedQuestion = detectedQuestion;
+      } else if (turn.followUp && askedQuestion !== null) {
+        // The main answer closed the question; a follow-up reopens it for the next reply
+        currentQuestion = askedQuestion;
+      }
+      turn.question = detectedQuestion ?? (turn.followUp ? askedQuestion : null);
+    } else if (role === 'user' && currentQuestion !== null) {
+      // Check if previous message was a follow-up
+      const previousEntry = i > 0 ? transcript[i - 1] : null;
+      const isFollowUp = !!previousEntry &&
+        (previousEntry.role === 'assistant' || previousEntry.role === 'agent') &&
+        surveyService.isFollowUp(
+          survey,
+          previousEntry.message || previousEntry.response || ''
+        );
+
+      turn.question = currentQuestion;
+      turn.followUp = isFollowUp;
+
+      const sentiment = analyzeSentiment(message);
+      // Typed values come from main answers; follow-ups stay text only
+      const answer = isFollowUp ? null : extractAnswer(surveyService.getQuestion(survey, currentQuestion), message, callStartTime);
+      responses.push({
+        question_number: currentQuestion,
+        question_text: surveyService.getQuestionText(survey, currentQuestion),
+        response_text: message,
+        response_sentiment: sentiment.label,
+        sentiment_score: sentiment.score,
+        sentiment_confidence: sentiment.confidence,
+        ...(answer ? {
+          answer_type: answer.type,
+          answer_value: answer.value,
+          answer_confidence: answer.confidence,
+          needs_review: answer.needsReview,
+        } : {}),
+        response_timestamp: responseTimestamp,
+        is_followup: isFollowUp,
+      });
+
+      // Reset current question after saving main response (not follow-up)
+      if (!isFollowUp) {
+        currentQuestion = null;
+      }
+    }
+  }
+
+  return { turns, responses, optOutPhrase };
+}
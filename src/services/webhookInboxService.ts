@@ -0,0 +1,154 @@
+import { supabaseService, isSupabaseConfigured, WebhookEvent } from './supabaseService';
+
+const POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_INBOX_POLL_INTERVAL_MS || '2000', 10);
+const BATCH_SIZE = parseInt(process.env.WEBHOOK_INBOX_BATCH_SIZE || '10', 10);
+// Attempt N+1 waits WEBHOOK_RETRY_BASE_MS * 2^(N-1); after WEBHOOK_MAX_ATTEMPTS the event is dead-lettered
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000', 10);
+
+export type WebhookProcessor = (event: WebhookEvent) => Promise<void>;
+
+export interface IncomingWebhookEvent {
+  eventKey: string;
+  eventType: string;
+  conversationId?: string | null;
+  payload: any;
+}
+
+// Thrown when an event arrives without Supabase, so there is no inbox to record it in
+export class WebhookInboxUnavailableError extends Error {
+  constructor() {
+    super('Webhook inbox unavailable: Supabase is not configured (SUPABASE_URL, SUPABASE_SERVICE_KEY)');
+    this.name = 'WebhookInboxUnavailableError';
+  }
+}
+
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0));
+}
+
+export class WebhookInboxService {
+  private processors = new Map<string, WebhookProcessor>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  registerProcessor(provider: string, processor: WebhookProcessor) {
+    this.processors.set(provider, processor);
+  }
+
+  // Persist an inbound event; duplicates of an already recorded event are not stored again
+  async receive(provider: string, incoming: IncomingWebhookEvent): Promise<{ event: WebhookEvent | null; duplicate: boolean }> {
+    if (!isSupabaseConfigured()) {
+      throw new WebhookInboxUnavailableError();
+    }
+
+    const event = await supabaseService.recordWebhookEvent({
+      provider,
+      event_key: incoming.eventKey,
+      event_type: incoming.eventType,
+      conversation_id: incoming.conversationId || null,
+      payload: incoming.payload,
+    });
+
+    if (!event) {
+      console.log(`🔁 Duplicate webhook event ignored: ${incoming.eventKey}`);
+      return { event: await supabaseService.getWebhookEventByKey(incoming.eventKey), duplicate: true };
+    }
+
+    // Don't wait for the next poll
+    setImmediate(() => this.poll());
+    return { event, duplicate: false };
+  }
+
+  // Queue a failed or dead-lettered event to be processed again
+  async replay(event: WebhookEvent): Promise<WebhookEvent> {
+    const updated = await supabaseService.updateWebhookEvent(event.id, {
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+      locked_at: null,
+    });
+    console.log(`🔁 Webhook event ${event.id} queued for replay`);
+
+    setImmediate(() => this.poll());
+    return updated;
+  }
+
+  async start() {
+    if (this.timer) return;
+
+    try {
+      const interrupted = await supabaseService.releaseInterruptedWebhookEvents(new Date());
+      if (interrupted > 0) {
+        console.log(`⚠️  Requeued ${interrupted} webhook events interrupted mid-processing`);
+      }
+    } catch (error) {
+      console.error('Failed to requeue interrupted webhook events:', error);
+    }
+
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    console.log(`📬 Webhook inbox worker started (max ${MAX_ATTEMPTS} attempts)`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const due = await supabaseService.getDueWebhookEvents(BATCH_SIZE);
+      for (const event of due) {
+        const claimed = await supabaseService.claimWebhookEvent(event);
+        if (claimed) {
+          await this.process(claimed);
+        }
+      }
+    } catch (error) {
+      console.error('Webhook inbox poll error:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async process(event: WebhookEvent) {
+    try {
+      const processor = this.processors.get(event.provider);
+      if (!processor) {
+        throw new Error(`No processor registered for provider ${event.provider}`);
+      }
+
+      await processor(event);
+      await supabaseService.updateWebhookEvent(event.id, {
+        status: 'processed',
+        processed_at: new Date().toISOString(),
+        last_error: null,
+        locked_at: null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const dead = event.attempts >= MAX_ATTEMPTS;
+
+      await supabaseService.updateWebhookEvent(event.id, {
+        status: dead ? 'dead' : 'failed',
+        last_error: message,
+        locked_at: null,
+        next_attempt_at: new Date(Date.now() + getWebhookRetryDelayMs(event.attempts)).toISOString(),
+      });
+
+      if (dead) {
+        console.error(`💀 Webhook event ${event.id} (${event.event_key}) dead-lettered after ${event.attempts} attempts:`, message);
+      } else {
+        console.error(`❌ Webhook event ${event.id} failed (attempt ${event.attempts}/${MAX_ATTEMPTS}), will retry:`, message);
+      }
+    }
+  }
+}
+
+export const webhookInboxService = new WebhookInboxService();
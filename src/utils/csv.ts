@@ -0,0 +1,14 @@
+// CSV output for downloads
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Quote fields containing separators, quotes or line breaks (RFC 4180)
+export function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(values: CsvValue[]): string {
+  return values.map(csvField).join(',') + '\r\n';
+}
@@ -0,0 +1,137 @@
+// Query-string parsing and response envelopes for paginated list endpoints
+
+import { Request } from 'express';
+import { Page, PageRequest } from '../repositories';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Invalid list query parameter, reported to the client as a 400
+export class ListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListQueryError';
+  }
+}
+
+function param(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new ListQueryError(`${name} must be given once`);
+  }
+  return value;
+}
+
+export function parseIntegerParam(req: Request, name: string, min: number, max: number, fallback: number): number {
+  const value = param(req, name);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ListQueryError(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+// ?limit=&offset=&sort=column (ascending) or sort=-column (descending)
+export function parsePageRequest(req: Request, sortable: string[], defaultSort: string): PageRequest {
+  const sortParam = param(req, 'sort') || defaultSort;
+  const sort = sortParam.replace(/^-/, '');
+  if (!sortable.includes(sort)) {
+    throw new ListQueryError(`sort must be one of: ${sortable.join(', ')} (prefix with - for descending)`);
+  }
+
+  return {
+    limit: parseIntegerParam(req, 'limit', 1, MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE),
+    offset: parseIntegerParam(req, 'offset', 0, Number.MAX_SAFE_INTEGER, 0),
+    sort,
+    ascending: !sortParam.startsWith('-'),
+  };
+}
+
+// Comma-separated values (?status=failed,no-answer), each one of `allowed` when given
+export function parseListParam<T extends string>(req: Request, name: string, allowed?: readonly T[]): T[] | undefined {
+  const value = param(req, name);
+  if (value === undefined) return undefined;
+
+  const values = value.split(',').map(item => item.trim()).filter(Boolean) as T[];
+  const invalid = allowed ? values.filter(item => !allowed.includes(item)) : [];
+  if (invalid.length > 0) {
+    throw new ListQueryError(`${name} must be one or more of: ${allowed!.join(', ')}`);
+  }
+  return values.length > 0 ? values : undefined;
+}
+
+export function parseIntegerListParam(req: Request, name: string): number[] | undefined {
+  const values = parseListParam(req, name);
+  if (!values) return undefined;
+
+  const numbers = values.map(Number);
+  if (numbers.some(number => !Number.isInteger(number))) {
+    throw new ListQueryError(`${name} must be a comma-separated list of integers`);
+  }
+  return numbers;
+}
+
+export function parseBooleanParam(req: Request, name: string): boolean | undefined {
+  const value = param(req, name);
+  if (value === undefined) return undefined;
+  if (value !== 'true' && value !== 'false') {
+    throw new ListQueryError(`${name} must be true or false`);
+  }
+  return value === 'true';
+}
+
+export function parseSearchParam(req: Request): string | undefined {
+  return param(req, 'search')?.trim() || undefined;
+}
+
+// ?from=&to= as an ISO range with `to` exclusive; a date-only `to` includes that whole day
+export function parseDateRange(req: Request): { from?: string; to?: string } {
+  const parse = (name: string) => {
+    const value = param(req, name);
+    if (value === undefined) return undefined;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ListQueryError(`${name} must be an ISO 8601 date or timestamp`);
+    }
+    if (name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+    }
+    return date.toISOString();
+  };
+
+  const from = parse('from');
+  const to = parse('to');
+  if (from && to && from >= to) {
+    throw new ListQueryError('from must be before to');
+  }
+  return { from, to };
+}
+
+// Same request with a different offset, as a path relative to the server
+function pageLink(req: Request, offset: number): string {
+  const url = new URL(req.originalUrl, 'http://localhost');
+  url.searchParams.set('offset', String(offset));
+  return `${url.pathname}${url.search}`;
+}
+
+// List response body: the page's rows plus totals and links to the neighbouring pages
+export function pageResponse<T>(req: Request, page: Page<unknown>, request: PageRequest, rows: T[]) {
+  const nextOffset = request.offset + request.limit;
+  const prevOffset = Math.max(request.offset - request.limit, 0);
+
+  return {
+    data: rows,
+    pagination: {
+      total: page.total,
+      limit: request.limit,
+      offset: request.offset,
+      count: rows.length,
+      next: nextOffset < page.total ? pageLink(req, nextOffset) : null,
+      prev: request.offset > 0 ? pageLink(req, prevOffset) : null,
+    },
+  };
+}
@@ -0,0 +1,64 @@
+// Phone numbers as stored, matched and dialed: E.164, with national formats read against a default region
+
+import { parsePhoneNumberFromString, isSupportedCountry, CountryCode } from 'libphonenumber-js/max';
+
+export type PhoneNumberType = 'mobile' | 'landline' | 'other' | 'unknown';
+
+export interface ParsedPhoneNumber {
+  e164: string; // +61412345678
+  country: string | null; // ISO 3166 region, e.g. AU
+  nationalNumber: string; // Significant digits without country code or trunk prefix
+  type: PhoneNumberType; // 'unknown' where the numbering plan doesn't tell mobiles from landlines
+}
+
+function configuredRegion(): CountryCode {
+  const region = (process.env.DEFAULT_PHONE_REGION || 'AU').toUpperCase();
+  if (isSupportedCountry(region)) return region;
+
+  console.warn(`⚠️  Unknown DEFAULT_PHONE_REGION ${region}, using AU`);
+  return 'AU';
+}
+
+export const DEFAULT_PHONE_REGION = configuredRegion();
+
+function classify(type: string | undefined): PhoneNumberType {
+  switch (type) {
+    case 'MOBILE':
+      return 'mobile';
+    case 'FIXED_LINE':
+      return 'landline';
+    case 'FIXED_LINE_OR_MOBILE':
+    case undefined:
+      return 'unknown';
+    default:
+      return 'other'; // Toll-free, premium, VoIP, pager, ...
+  }
+}
+
+// Null unless the input is a valid number in international form or national form for the region
+export function parsePhoneNumber(input: string, region: CountryCode = DEFAULT_PHONE_REGION): ParsedPhoneNumber | null {
+  const parsed = parsePhoneNumberFromString(input.trim(), region);
+  if (!parsed || !parsed.isValid()) return null;
+
+  return {
+    e164: parsed.number,
+    country: parsed.country ?? null,
+    nationalNumber: parsed.nationalNumber,
+    type: classify(parsed.getType()),
+  };
+}
+
+export function toE164(input: string, region: CountryCode = DEFAULT_PHONE_REGION): string | null {
+  return parsePhoneNumber(input, region)?.e164 ?? null;
+}
+
+// Form to compare numbers in: E.164 when valid, otherwise the digits and any leading +,
+// which is how rows stored before normalization can still be matched
+export function phoneNumberKey(input: string): string {
+  const e164 = toE164(input);
+  if (e164) return e164;
+
+  const trimmed = input.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
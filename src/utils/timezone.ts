@@ -0,0 +1,75 @@
+// Wall-clock helpers for IANA time zones, built on Intl so DST is handled by the runtime
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // ISO weekday, 1 = Monday ... 7 = Sunday
+  minutes: number; // minutes since local midnight
+}
+
+const WEEKDAYS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getParts(at: Date, timezone: string): Record<string, string> {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-AU', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(at).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return parts;
+}
+
+export function getLocalTime(at: Date, timezone: string): LocalTime {
+  const parts = getParts(at, timezone);
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS[parts.weekday],
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+}
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+function getOffsetMs(at: Date, timezone: string): number {
+  const parts = getParts(at, timezone);
+  const asUtc = Date.UTC(
+    parseInt(parts.year, 10),
+    parseInt(parts.month, 10) - 1,
+    parseInt(parts.day, 10),
+    parseInt(parts.hour, 10),
+    parseInt(parts.minute, 10),
+    parseInt(parts.second, 10)
+  );
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+// Instant at which the zone's wall clock shows `minutes` past midnight on `date` (YYYY-MM-DD)
+export function zonedTimeToUtc(date: string, minutes: number, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+
+  // Two passes so instants next to a DST change pick up the offset in force at the result
+  let utc = wallClock - getOffsetMs(new Date(wallClock), timezone);
+  utc = wallClock - getOffsetMs(new Date(utc), timezone);
+  return new Date(utc);
+}
+
+// Calendar date `days` after `date` (YYYY-MM-DD)
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
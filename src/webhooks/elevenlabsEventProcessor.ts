@@ -0,0 +1,197 @@
+import { SurveyCall, WebhookEvent } from '../services/supabaseService';
+import { repository } from '../repositories';
+import { voiceProvider } from '../providers';
+import { callOutcomeService } from '../services/callOutcomeService';
+import { doNotCallService } from '../services/doNotCallService';
+import { callbackService } from '../services/callbackService';
+import { surveyService } from '../services/surveyService';
+import { analyzeTranscript } from '../services/transcriptParser';
+import {
+  ElevenLabsWebhookEvent,
+  ElevenLabsTranscriptEntry,
+  ElevenLabsConversationMetadata,
+  ElevenLabsConversationDetails,
+  CallInitiationFailureEvent,
+  getFailureReason,
+  terminalStatusForFailure,
+  isVoicemail,
+} from './elevenlabsEvents';
+
+// Helper function to parse transcript and extract survey responses
+export async function parseTranscriptToResponses(call: SurveyCall, transcript: ElevenLabsTranscriptEntry[], metadata: ElevenLabsConversationMetadata) {
+  const survey = await surveyService.getSurveyForCall(call);
+
+  console.log(`📝 Parsing ${transcript.length} transcript entries...`);
+  const analysis = analyzeTranscript(survey, transcript, metadata);
+
+  // Customer asked not to be called again
+  if (analysis.optOutPhrase) {
+    console.log(`🚫 Opt-out detected: "${analysis.optOutPhrase}"`);
+    await doNotCallService.recordOptOut(call, analysis.optOutPhrase);
+  }
+
+  for (const response of analysis.responses) {
+    console.log(`👤 User responded to Q${response.question_number}${response.is_followup ? ' (follow-up)' : ''}: ${response.response_text.substring(0, 50)}...`);
+    await repository.createResponse({ call_id: call.id, ...response });
+  }
+
+  console.log('✅ Finished parsing transcript');
+}
+
+export interface ConversationSource {
+  details?: ElevenLabsConversationDetails; // Already fetched from the API (reconciler)
+  fallback?: { transcript: ElevenLabsTranscriptEntry[]; metadata: ElevenLabsConversationMetadata }; // From the webhook payload
+}
+
+// A finished conversation: store the transcript, extract responses and settle the call's outcome.
+// Shared by the webhook processor and the reconciler so both paths produce the same records.
+export async function completeConversation(call: SurveyCall, source: ConversationSource = {}): Promise<SurveyCall> {
+  const conversationId = call.call_sid!;
+  let transcript: ElevenLabsTranscriptEntry[];
+  let metadata: ElevenLabsConversationMetadata;
+
+  if (source.details) {
+    transcript = source.details.transcript || [];
+    metadata = source.details.metadata || {};
+  } else {
+    try {
+      // Fetch complete transcript from the provider's API (source of truth)
+      console.log(`🔍 Fetching conversation details from ${voiceProvider.name}...`);
+      const conversationData = await voiceProvider.getConversation(conversationId);
+      transcript = conversationData.transcript || [];
+      metadata = conversationData.metadata || {};
+    } catch (apiError) {
+      // Fallback: Try to use webhook transcript if available
+      if (!source.fallback || source.fallback.transcript.length === 0) {
+        throw apiError;
+      }
+      transcript = source.fallback.transcript;
+      metadata = source.fallback.metadata;
+      console.error('❌ Error fetching from API, using webhook transcript as fallback:', apiError);
+    }
+  }
+
+  console.log(`📋 Received transcript with ${transcript.length} entries`);
+
+  // Store full transcript
+  await repository.saveTranscript({
+    call_id: call.id,
+    transcript: transcript,
+  });
+  console.log('✅ Stored full transcript in database');
+
+  const callDuration = metadata.call_duration_secs || source.fallback?.metadata.call_duration_secs;
+
+  // The agent talked to a voicemail box: nobody was reached and there is nothing to parse
+  if (isVoicemail(metadata)) {
+    console.log(`📭 Call ${call.id} reached voicemail`);
+    const voicemailCall = await repository.updateCallStatus(conversationId, 'no-answer', callDuration, 'voicemail');
+    await callOutcomeService.handleCallOutcome(voicemailCall);
+    return voicemailCall;
+  }
+
+  // Parse transcript to extract survey responses
+  await repository.deleteResponsesByCallId(call.id);
+  await parseTranscriptToResponses(call, transcript, metadata);
+
+  // Schedule a callback if the customer asked for one
+  await callbackService.scheduleFromTranscript(call, transcript, metadata);
+
+  // Update call status and duration
+  const completedCall = await repository.updateCallStatus(conversationId, 'completed', callDuration);
+  await callOutcomeService.handleCallOutcome(completedCall);
+
+  console.log('✅ Completed processing conversation');
+  return completedCall;
+}
+
+async function processCompletion(event: ElevenLabsWebhookEvent, conversationId: string) {
+  console.log('📝 Processing conversation completion for:', conversationId);
+
+  // Find call record
+  const call: SurveyCall | null = await repository.getCallBySid(conversationId);
+  if (!call) {
+    throw new Error(`Call not found for conversation ${conversationId}`);
+  }
+
+  console.log(`📊 Found call: ${call.id}`);
+
+  // Completing again would replace reviewed answers and re-run the outcome handling
+  if (call.call_status === 'completed') {
+    console.log(`⚠️  Ignoring ${event.type} for call ${call.id}, already completed`);
+    return;
+  }
+
+  const webhookData = event.type === 'call_initiation_failure' ? undefined : event.data;
+  await completeConversation(call, {
+    fallback: {
+      transcript: ('transcript' in event && event.transcript) || webhookData?.transcript || [],
+      metadata: webhookData?.metadata || {},
+    },
+  });
+}
+
+// The call never connected: record the terminal status and reason so the retry policy can act
+async function processInitiationFailure(event: CallInitiationFailureEvent, conversationId: string) {
+  const call: SurveyCall | null = await repository.getCallBySid(conversationId);
+  if (!call) {
+    throw new Error(`Call not found for conversation ${conversationId}`);
+  }
+
+  if (call.call_status === 'completed') {
+    console.log(`⚠️  Ignoring initiation failure for completed call ${call.id}`);
+    return;
+  }
+
+  const reason = getFailureReason(event);
+  const status = terminalStatusForFailure(reason);
+  console.log(`📵 Call ${call.id} did not connect (${reason}) → ${status}`);
+
+  const failedCall = await repository.updateCallStatus(conversationId, status, undefined, reason);
+  await callOutcomeService.handleCallOutcome(failedCall);
+}
+
+// Only a queued call moves to in-progress: events can arrive out of order, and a call that already
+// finished stays finished
+async function processStart(conversationId: string) {
+  const started = await repository.transitionCallStatus(conversationId, ['queued'], 'in-progress');
+  if (started) {
+    console.log('🚀 Conversation started');
+    return;
+  }
+
+  const call: SurveyCall | null = await repository.getCallBySid(conversationId);
+  if (!call) {
+    throw new Error(`Call not found for conversation ${conversationId}`);
+  }
+  console.log(`⚠️  Ignoring conversation start for ${call.call_status} call ${call.id}`);
+}
+
+// Process a stored ElevenLabs event. Safe to run more than once for the same event: a completed call is
+// not completed again, and a completion that failed part-way re-parses the responses from scratch, with
+// callbacks/retries deduplicated.
+export async function processElevenLabsEvent(stored: WebhookEvent) {
+  const event = stored.payload as ElevenLabsWebhookEvent;
+  const conversationId = stored.conversation_id;
+
+  if (!conversationId) {
+    console.log('⚠️  No conversation ID found in webhook');
+    return;
+  }
+
+  switch (event.type) {
+    case 'post_call_transcription':
+    case 'conversation_ended':
+    case 'conversation_completed':
+      await processCompletion(event, conversationId);
+      break;
+
+    case 'call_initiation_failure':
+      await processInitiationFailure(event, conversationId);
+      break;
+
+    case 'conversation_started':
+      await processStart(conversationId);
+      break;
+  }
+}
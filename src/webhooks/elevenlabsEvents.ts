@@ -0,0 +1,148 @@
+// Payloads of the ElevenLabs webhook events we handle
+
+import { ParsedWebhook } from '../providers/voiceProvider';
+
+export interface ElevenLabsTranscriptEntry {
+  role?: 'user' | 'agent' | 'assistant';
+  speaker?: string; // Older payloads use speaker/response/text instead of role/message
+  message?: string | null;
+  response?: string | null;
+  text?: string | null;
+  time_in_call_secs?: number;
+}
+
+export interface ElevenLabsConversationMetadata {
+  start_time_unix_secs?: number;
+  call_duration_secs?: number;
+  termination_reason?: string;
+  phone_call?: {
+    call_sid?: string;
+    external_number?: string;
+    agent_number?: string;
+  };
+}
+
+// Full conversation as returned by GET /v1/convai/conversations/:id
+export interface ElevenLabsConversationDetails {
+  conversation_id: string;
+  status?: string;
+  transcript?: ElevenLabsTranscriptEntry[];
+  metadata?: ElevenLabsConversationMetadata;
+}
+
+export interface PostCallTranscriptionEvent {
+  type: 'post_call_transcription';
+  event_timestamp?: number;
+  data: {
+    agent_id?: string;
+    conversation_id: string;
+    status?: string;
+    transcript?: ElevenLabsTranscriptEntry[];
+    metadata?: ElevenLabsConversationMetadata;
+  };
+}
+
+// Sent when the outbound call never connected (busy, unanswered, carrier error)
+export interface CallInitiationFailureEvent {
+  type: 'call_initiation_failure';
+  event_timestamp?: number;
+  data: {
+    agent_id?: string;
+    conversation_id: string;
+    failure_reason?: string; // 'busy' | 'no-answer' | 'unknown'
+    metadata?: {
+      type?: 'twilio' | 'sip';
+      body?: Record<string, unknown>; // Raw provider status callback, e.g. Twilio CallStatus
+    };
+  };
+}
+
+// Conversation lifecycle events from the original integration
+export interface ConversationLifecycleEvent {
+  type: 'conversation_started' | 'conversation_ended' | 'conversation_completed';
+  conversation_id?: string;
+  call_sid?: string;
+  call_id?: string;
+  transcript?: ElevenLabsTranscriptEntry[];
+  data?: {
+    conversation_id?: string;
+    transcript?: ElevenLabsTranscriptEntry[];
+    metadata?: ElevenLabsConversationMetadata;
+  };
+}
+
+export type ElevenLabsWebhookEvent =
+  | PostCallTranscriptionEvent
+  | CallInitiationFailureEvent
+  | ConversationLifecycleEvent;
+
+export type ElevenLabsWebhookEventType = ElevenLabsWebhookEvent['type'];
+
+export const SUPPORTED_EVENT_TYPES: ElevenLabsWebhookEventType[] = [
+  'post_call_transcription',
+  'call_initiation_failure',
+  'conversation_started',
+  'conversation_ended',
+  'conversation_completed',
+];
+
+// Events that each report the end of a conversation; a conversation is completed from whichever arrives first
+export const COMPLETION_EVENT_TYPES: ElevenLabsWebhookEventType[] = [
+  'post_call_transcription',
+  'conversation_ended',
+  'conversation_completed',
+];
+
+// Failure reasons that mean nobody picked up, as opposed to the call failing
+const NOT_ANSWERED_REASONS = ['busy', 'no-answer', 'no_answer', 'noanswer', 'voicemail', 'machine', 'canceled', 'cancelled'];
+
+export function isSupportedEvent(event: any): event is ElevenLabsWebhookEvent {
+  return !!event && SUPPORTED_EVENT_TYPES.includes(event.type);
+}
+
+// Provider's reason for a call that never connected, preferring the raw carrier status when present
+export function getFailureReason(event: CallInitiationFailureEvent): string {
+  const body = event.data.metadata?.body || {};
+  const carrierStatus = body.CallStatus || body.call_status || body.sip_status;
+  return String(event.data.failure_reason && event.data.failure_reason !== 'unknown'
+    ? event.data.failure_reason
+    : carrierStatus || event.data.failure_reason || 'unknown').toLowerCase();
+}
+
+export function terminalStatusForFailure(reason: string): 'no-answer' | 'failed' {
+  return NOT_ANSWERED_REASONS.includes(reason.toLowerCase()) ? 'no-answer' : 'failed';
+}
+
+// Whether the agent reached voicemail rather than the customer
+export function isVoicemail(metadata?: ElevenLabsConversationMetadata): boolean {
+  return /voicemail|answering machine/i.test(metadata?.termination_reason || '');
+}
+
+// Conversation the event belongs to
+function getConversationId(event: ElevenLabsWebhookEvent, headers: Record<string, string | string[] | undefined>): string | undefined {
+  switch (event.type) {
+    case 'post_call_transcription':
+      // Extract from nested data structure
+      return event.data.conversation_id || event.data.metadata?.phone_call?.call_sid;
+
+    case 'call_initiation_failure':
+      return event.data.conversation_id;
+
+    default:
+      return headers['x-call-sid'] as string
+        || event.call_sid
+        || event.conversation_id
+        || event.call_id
+        || event.data?.conversation_id;
+  }
+}
+
+export function parseElevenLabsWebhook(body: any, headers: Record<string, string | string[] | undefined>): ParsedWebhook {
+  // Older payloads name the type event_type
+  const event = { ...body, type: body?.type || body?.event_type };
+  if (!isSupportedEvent(event)) {
+    return { eventType: event.type || 'unknown', event: null };
+  }
+
+  return { eventType: event.type, event, conversationId: getConversationId(event, headers) };
+}
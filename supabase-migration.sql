@@ -36,3 +36,944 @@ CREATE POLICY "Authenticated users can read transcripts" ON call_transcripts
     FOR SELECT USING (auth.role() = 'authenticated');
 
 
+
+-- Migration: First-class campaigns
+-- Creates the campaigns table, backfills a campaign for every existing free-text
+-- campaign_id and turns the campaign_id columns into foreign keys
+
+CREATE TABLE IF NOT EXISTS campaigns (
+    id TEXT DEFAULT uuid_generate_v4()::text PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    survey_id TEXT NOT NULL DEFAULT 'great-southern-fuels',
+    caller_phone_number_id TEXT,
+    scheduled_start_at TIMESTAMP WITH TIME ZONE,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'running', 'paused', 'completed', 'cancelled')),
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns(status);
+
+CREATE TRIGGER update_campaigns_updated_at 
+    BEFORE UPDATE ON campaigns 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Backfill campaigns referenced by existing rows
+INSERT INTO campaigns (id, name, status)
+SELECT DISTINCT campaign_id, campaign_id, 'completed'
+FROM (
+    SELECT campaign_id FROM customers
+    UNION
+    SELECT campaign_id FROM survey_calls
+) existing
+WHERE campaign_id IS NOT NULL
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE customers
+ADD CONSTRAINT customers_campaign_id_fkey FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE SET NULL;
+
+ALTER TABLE survey_calls
+ADD CONSTRAINT survey_calls_campaign_id_fkey FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE SET NULL;
+
+-- RLS policies for campaigns
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all data" ON campaigns
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Authenticated users can read campaigns" ON campaigns
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Migration: Durable outbound dialing queue
+
+CREATE TABLE IF NOT EXISTS call_jobs (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    campaign_id TEXT REFERENCES campaigns(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+    total INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS call_queue (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    job_id UUID REFERENCES call_jobs(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    campaign_id TEXT REFERENCES campaigns(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'held', 'dialing', 'dialed', 'failed', 'cancelled')),
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    call_id UUID REFERENCES survey_calls(id) ON DELETE SET NULL,
+    error TEXT,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_jobs_campaign_id ON call_jobs(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_call_queue_due ON call_queue(status, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_call_queue_job_id ON call_queue(job_id);
+CREATE INDEX IF NOT EXISTS idx_call_queue_campaign_id ON call_queue(campaign_id);
+
+CREATE TRIGGER update_call_jobs_updated_at 
+    BEFORE UPDATE ON call_jobs 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_call_queue_updated_at 
+    BEFORE UPDATE ON call_queue 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE call_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all data" ON call_jobs
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can access all data" ON call_queue
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Migration: Retry policy for no-answer and failed calls
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts >= 1),
+ADD COLUMN IF NOT EXISTS retry_backoff_minutes INTEGER NOT NULL DEFAULT 60 CHECK (retry_backoff_minutes >= 0),
+ADD COLUMN IF NOT EXISTS retry_backoff_multiplier NUMERIC NOT NULL DEFAULT 2 CHECK (retry_backoff_multiplier >= 1),
+ADD COLUMN IF NOT EXISTS retryable_statuses TEXT[] NOT NULL DEFAULT ARRAY['no-answer', 'failed'];
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS contact_status TEXT NOT NULL DEFAULT 'pending' CHECK (contact_status IN ('pending', 'in-progress', 'retry-scheduled', 'reached', 'attempts-exhausted', 'not-reached'));
+
+ALTER TABLE survey_calls
+ADD COLUMN IF NOT EXISTS attempt_number INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE call_queue
+ADD COLUMN IF NOT EXISTS retry_of_call_id UUID UNIQUE REFERENCES survey_calls(id) ON DELETE SET NULL;
+
+-- Customers already reached before retries existed
+UPDATE customers SET contact_status = 'reached'
+WHERE id IN (SELECT customer_id FROM survey_calls WHERE call_status = 'completed');
+
+-- Migration: Calling-hours windows and customer time zones
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS calling_days SMALLINT[] NOT NULL DEFAULT ARRAY[1, 2, 3, 4, 5]::SMALLINT[],
+ADD COLUMN IF NOT EXISTS calling_start_time TIME NOT NULL DEFAULT '09:00',
+ADD COLUMN IF NOT EXISTS calling_end_time TIME NOT NULL DEFAULT '20:00',
+ADD COLUMN IF NOT EXISTS exclude_public_holidays BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- Migration: Do-not-call list
+
+CREATE TABLE IF NOT EXISTS do_not_call (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    phone_number TEXT NOT NULL UNIQUE,
+    reason TEXT,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import', 'opt-out')),
+    source_call_id UUID REFERENCES survey_calls(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_do_not_call_source ON do_not_call(source);
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_contact_status_check;
+ALTER TABLE customers ADD CONSTRAINT customers_contact_status_check
+    CHECK (contact_status IN ('pending', 'in-progress', 'retry-scheduled', 'reached', 'attempts-exhausted', 'not-reached', 'do-not-call'));
+
+ALTER TABLE do_not_call ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all data" ON do_not_call
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Migration: Customer-requested callbacks
+
+CREATE TABLE IF NOT EXISTS callbacks (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    campaign_id TEXT REFERENCES campaigns(id) ON DELETE SET NULL,
+    source_call_id UUID UNIQUE REFERENCES survey_calls(id) ON DELETE SET NULL,
+    requested_text TEXT,
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+    timezone TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dialed', 'failed', 'cancelled')),
+    dialed_call_id UUID REFERENCES survey_calls(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE call_queue
+ADD COLUMN IF NOT EXISTS callback_id UUID REFERENCES callbacks(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_callbacks_status ON callbacks(status, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_callbacks_customer_id ON callbacks(customer_id);
+CREATE INDEX IF NOT EXISTS idx_call_queue_callback_id ON call_queue(callback_id);
+
+CREATE TRIGGER update_callbacks_updated_at 
+    BEFORE UPDATE ON callbacks 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_contact_status_check;
+ALTER TABLE customers ADD CONSTRAINT customers_contact_status_check
+    CHECK (contact_status IN ('pending', 'in-progress', 'retry-scheduled', 'reached', 'attempts-exhausted', 'not-reached', 'do-not-call', 'callback-scheduled'));
+
+ALTER TABLE callbacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all data" ON callbacks
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Migration: Survey definitions
+
+CREATE TABLE IF NOT EXISTS surveys (
+    id TEXT DEFAULT uuid_generate_v4()::text PRIMARY KEY,
+    name TEXT NOT NULL,
+    organisation_name TEXT NOT NULL,
+    agent_name TEXT NOT NULL,
+    purpose TEXT NOT NULL,
+    greeting TEXT NOT NULL,
+    decline_response TEXT,
+    closing TEXT NOT NULL,
+    ai_disclosure TEXT,
+    tone TEXT,
+    questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE survey_calls
+ADD COLUMN IF NOT EXISTS survey_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_survey_id ON campaigns(survey_id);
+
+CREATE TRIGGER update_surveys_updated_at 
+    BEFORE UPDATE ON surveys 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE surveys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all data" ON surveys
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Authenticated users can read surveys" ON surveys
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Migration: Survey versions
+-- Calls dialed before this migration have no version; reports keep their stored question text
+
+CREATE TABLE IF NOT EXISTS survey_versions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    survey_id TEXT NOT NULL,
+    version INTEGER NOT NULL CHECK (version >= 1),
+    definition JSONB NOT NULL,
+    definition_hash TEXT NOT NULL,
+    compatibility_key TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (survey_id, version)
+);
+
+ALTER TABLE survey_calls
+ADD COLUMN IF NOT EXISTS survey_version_id UUID REFERENCES survey_versions(id);
+
+CREATE INDEX IF NOT EXISTS idx_survey_calls_survey_version_id ON survey_calls(survey_version_id);
+
+ALTER TABLE survey_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all data" ON survey_versions
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Authenticated users can read survey versions" ON survey_versions
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Migration: Webhook inbox
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    provider TEXT NOT NULL,
+    event_key TEXT NOT NULL UNIQUE,
+    event_type TEXT NOT NULL,
+    conversation_id TEXT,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_due ON webhook_events(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_conversation_id ON webhook_events(conversation_id);
+
+CREATE TRIGGER update_webhook_events_updated_at 
+    BEFORE UPDATE ON webhook_events 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all data" ON webhook_events
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- One transcript per call (redelivered webhooks used to store duplicates); keep the latest copy
+DELETE FROM call_transcripts t
+USING call_transcripts newer
+WHERE t.call_id = newer.call_id
+  AND (t.created_at, t.id) < (newer.created_at, newer.id);
+
+ALTER TABLE call_transcripts
+ADD CONSTRAINT call_transcripts_call_id_key UNIQUE (call_id);
+
+-- Migration: Call failure reasons
+
+ALTER TABLE survey_calls
+ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+-- Migration: Customer deletes keep call history
+
+ALTER TABLE survey_calls
+DROP CONSTRAINT IF EXISTS survey_calls_customer_id_fkey;
+
+ALTER TABLE survey_calls
+ADD CONSTRAINT survey_calls_customer_id_fkey
+FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL;
+
+-- Migration: Customer import jobs
+
+-- Background customer CSV imports (one per upload); progress is updated after every chunk of rows
+CREATE TABLE IF NOT EXISTS customer_imports (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')),
+    file_name TEXT,
+    file_path TEXT, -- upload on the server's disk until the job finishes
+    mode TEXT NOT NULL DEFAULT 'insert' CHECK (mode IN ('insert', 'upsert', 'skip')),
+    mapping JSONB, -- CSV header -> customer field
+    campaign_id TEXT REFERENCES campaigns(id) ON DELETE SET NULL,
+    headers JSONB NOT NULL DEFAULT '[]',
+    total_rows INTEGER,
+    processed_rows INTEGER NOT NULL DEFAULT 0,
+    inserted_count INTEGER NOT NULL DEFAULT 0,
+    updated_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    error_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT, -- why the whole job failed
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Rows an import could not write, kept for download
+CREATE TABLE IF NOT EXISTS customer_import_errors (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    import_id UUID NOT NULL REFERENCES customer_imports(id) ON DELETE CASCADE,
+    row_number INTEGER NOT NULL,
+    error TEXT NOT NULL,
+    row_values JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_imports_status ON customer_imports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_customer_import_errors_import_id ON customer_import_errors(import_id, row_number);
+
+CREATE TRIGGER update_customer_imports_updated_at 
+    BEFORE UPDATE ON customer_imports 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE customer_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_import_errors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all data" ON customer_imports
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can access all data" ON customer_import_errors
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Migration: E.164 phone numbers
+-- Customer and do-not-call numbers are now stored in E.164 (+61412345678). Existing rows are
+-- rewritten by a script rather than SQL, since national numbers need the phone number metadata:
+--
+--   npm run normalize-phones -- --dry-run   (report only)
+--   npm run normalize-phones
+--
+-- Customers whose numbers turn out to be the same are reported and left for merging.
+
+-- Migration: Reporting aggregates
+-- Filtered survey_calls aggregates start from the campaign or the date range
+CREATE INDEX IF NOT EXISTS idx_survey_calls_campaign_created ON survey_calls(campaign_id, created_at);
+
+-- Reporting aggregates, called over RPC so the API never loads every call to count them.
+-- Each takes the same optional filters: campaign, and a created_at range with an exclusive end.
+
+-- Call counts for summaries, one row per campaign when p_by_campaign, otherwise one row overall.
+-- Rates and averages are derived from these counts in the API.
+CREATE OR REPLACE FUNCTION report_call_counts(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_by_campaign BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    campaign_id TEXT,
+    total_calls BIGINT,
+    completed_calls BIGINT,
+    failed_calls BIGINT,
+    no_answer_calls BIGINT,
+    completed_duration BIGINT,
+    customers_attempted BIGINT,
+    customers_reached_first_attempt BIGINT,
+    customers_reached BIGINT,
+    retry_calls BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        CASE WHEN p_by_campaign THEN c.campaign_id END,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE c.call_status = 'completed'),
+        COUNT(*) FILTER (WHERE c.call_status = 'failed'),
+        COUNT(*) FILTER (WHERE c.call_status = 'no-answer'),
+        COALESCE(SUM(c.call_duration) FILTER (WHERE c.call_status = 'completed'), 0),
+        COUNT(DISTINCT c.customer_id),
+        COUNT(DISTINCT c.customer_id) FILTER (WHERE c.call_status = 'completed' AND COALESCE(c.attempt_number, 1) = 1),
+        COUNT(DISTINCT c.customer_id) FILTER (WHERE c.call_status = 'completed'),
+        COUNT(*) FILTER (WHERE COALESCE(c.attempt_number, 1) > 1)
+    FROM survey_calls c
+    WHERE (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+    GROUP BY 1;
+$$;
+
+-- Per question: calls that gave a main answer, sentiment of those answers, and follow-up answers
+CREATE OR REPLACE FUNCTION report_question_stats(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    question_number INTEGER,
+    answered_calls BIGINT,
+    positive BIGINT,
+    neutral BIGINT,
+    negative BIGINT,
+    unscored BIGINT,
+    follow_ups BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        r.question_number,
+        COUNT(DISTINCT r.call_id) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE)),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'positive'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'neutral'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'negative'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment IS NULL),
+        COUNT(*) FILTER (WHERE COALESCE(r.is_followup, FALSE))
+    FROM survey_responses r
+    JOIN survey_calls c ON c.id = r.call_id
+    WHERE (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+    GROUP BY r.question_number
+    ORDER BY r.question_number;
+$$;
+
+-- Completed calls by the last question answered before the call ended; NULL for calls with no answers
+CREATE OR REPLACE FUNCTION report_drop_off(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    last_question INTEGER,
+    calls BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT reached.last_question, COUNT(*)
+    FROM (
+        SELECT MAX(r.question_number) AS last_question
+        FROM survey_calls c
+        LEFT JOIN survey_responses r ON r.call_id = c.id
+        WHERE c.call_status = 'completed'
+          AND (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+          AND (p_from IS NULL OR c.created_at >= p_from)
+          AND (p_to IS NULL OR c.created_at < p_to)
+        GROUP BY c.id
+    ) reached
+    GROUP BY reached.last_question
+    ORDER BY reached.last_question NULLS FIRST;
+$$;
+
+-- Calls per local day or ISO week (starting Monday) in the given zone; periods without calls are omitted
+CREATE OR REPLACE FUNCTION report_call_time_series(
+    p_interval TEXT DEFAULT 'day',
+    p_timezone TEXT DEFAULT 'Australia/Sydney',
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    period DATE,
+    total_calls BIGINT,
+    completed_calls BIGINT,
+    failed_calls BIGINT,
+    no_answer_calls BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        date_trunc(p_interval, c.created_at AT TIME ZONE p_timezone)::date,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE c.call_status = 'completed'),
+        COUNT(*) FILTER (WHERE c.call_status = 'failed'),
+        COUNT(*) FILTER (WHERE c.call_status = 'no-answer')
+    FROM survey_calls c
+    WHERE (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+    GROUP BY 1
+    ORDER BY 1;
+$$;
+
+-- Migration: Sentiment scores
+-- Existing responses keep a NULL score until re-scored with POST /api/admin/sentiment/rescore
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS sentiment_score NUMERIC(4, 3) CHECK (sentiment_score BETWEEN -1 AND 1);
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS sentiment_confidence NUMERIC(4, 3) CHECK (sentiment_confidence BETWEEN 0 AND 1);
+
+-- Migration: Structured answers
+-- Existing responses have no typed value until POST /api/admin/answers/extract is run
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS answer_type TEXT CHECK (answer_type IN ('duration', 'yes_no', 'category'));
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS answer_value JSONB;
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS answer_confidence NUMERIC(4, 3) CHECK (answer_confidence BETWEEN 0 AND 1);
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS needs_review BOOLEAN DEFAULT FALSE;
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS answer_reviewed_at TIMESTAMP WITH TIME ZONE;
+CREATE INDEX IF NOT EXISTS idx_survey_responses_needs_review ON survey_responses(needs_review) WHERE needs_review;
+
+-- Main answers per question by extracted value; durations are counted in the ranges DURATION_BUCKETS in
+-- src/repositories/repository.ts lists, and answers nothing was recognised in have a NULL value
+CREATE OR REPLACE FUNCTION report_answer_stats(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    question_number INTEGER,
+    answer_type TEXT,
+    answer_value TEXT,
+    answers BIGINT,
+    needs_review BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        r.question_number,
+        r.answer_type,
+        CASE
+            WHEN jsonb_typeof(r.answer_value) = 'number' THEN
+                CASE
+                    WHEN (r.answer_value #>> '{}')::NUMERIC < 12 THEN 'under 1 year'
+                    WHEN (r.answer_value #>> '{}')::NUMERIC < 24 THEN '1-2 years'
+                    WHEN (r.answer_value #>> '{}')::NUMERIC < 60 THEN '2-5 years'
+                    WHEN (r.answer_value #>> '{}')::NUMERIC < 120 THEN '5-10 years'
+                    ELSE '10+ years'
+                END
+            ELSE r.answer_value #>> '{}'
+        END,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE r.needs_review)
+    FROM survey_responses r
+    JOIN survey_calls c ON c.id = r.call_id
+    WHERE r.answer_type IS NOT NULL
+      AND NOT COALESCE(r.is_followup, FALSE)
+      AND (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+    GROUP BY 1, 2, 3
+    ORDER BY 1, 2, 3;
+$$;
+
+-- Median and mean of duration answers per question, in months
+CREATE OR REPLACE FUNCTION report_duration_stats(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    question_number INTEGER,
+    answers BIGINT,
+    median_months NUMERIC,
+    average_months NUMERIC
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        r.question_number,
+        COUNT(*),
+        ROUND((PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY (r.answer_value #>> '{}')::NUMERIC))::NUMERIC, 1),
+        ROUND(AVG((r.answer_value #>> '{}')::NUMERIC), 1)
+    FROM survey_responses r
+    JOIN survey_calls c ON c.id = r.call_id
+    WHERE r.answer_type = 'duration'
+      AND jsonb_typeof(r.answer_value) = 'number'
+      AND NOT COALESCE(r.is_followup, FALSE)
+      AND (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+    GROUP BY r.question_number
+    ORDER BY r.question_number;
+$$;
+
+-- Migration: Compatibility of unversioned responses
+-- Responses from calls dialed before survey versions count as the version whose questions they answered
+
+-- Compatibility key of the questions a call was asked: that of the survey version it recorded or, for calls
+-- dialed before versions were recorded, of the one version of its survey whose questions are worded as the
+-- answers stored with the call. NULL when no version fits, or versions asking different questions do.
+CREATE OR REPLACE FUNCTION call_compatibility_key(p_call survey_calls)
+RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+    SELECT CASE
+        WHEN p_call.survey_version_id IS NOT NULL THEN
+            (SELECT v.compatibility_key FROM survey_versions v WHERE v.id = p_call.survey_version_id)
+        ELSE (
+            SELECT MIN(v.compatibility_key)
+            FROM survey_versions v
+            WHERE v.survey_id = COALESCE(
+                    p_call.survey_id,
+                    (SELECT cp.survey_id FROM campaigns cp WHERE cp.id = p_call.campaign_id),
+                    'great-southern-fuels'
+                  )
+              AND NOT EXISTS (
+                  SELECT 1
+                  FROM survey_responses r
+                  WHERE r.call_id = p_call.id
+                    AND NOT v.definition->'questions' @> jsonb_build_array(
+                        jsonb_build_object('number', r.question_number, 'text', r.question_text)
+                    )
+              )
+            HAVING COUNT(DISTINCT v.compatibility_key) = 1
+        )
+    END;
+$$;
+
+-- Responses matching the filters of the response list, by the compatibility key of their calls' questions
+CREATE OR REPLACE FUNCTION response_compatibility_groups(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_survey_version_ids UUID[] DEFAULT NULL,
+    p_sentiments TEXT[] DEFAULT NULL,
+    p_question_numbers INTEGER[] DEFAULT NULL,
+    p_follow_up BOOLEAN DEFAULT NULL,
+    p_needs_review BOOLEAN DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    compatibility_key TEXT,
+    survey_version_ids UUID[],
+    responses BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        call_compatibility_key(c),
+        COALESCE(ARRAY_AGG(DISTINCT c.survey_version_id) FILTER (WHERE c.survey_version_id IS NOT NULL), '{}'),
+        COUNT(*)
+    FROM survey_responses r
+    JOIN survey_calls c ON c.id = r.call_id
+    WHERE (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_survey_version_ids IS NULL OR c.survey_version_id = ANY(p_survey_version_ids))
+      AND (p_sentiments IS NULL OR r.response_sentiment = ANY(p_sentiments))
+      AND (p_question_numbers IS NULL OR r.question_number = ANY(p_question_numbers))
+      AND (p_follow_up IS NULL OR r.is_followup = p_follow_up)
+      AND (p_needs_review IS NULL OR r.needs_review = p_needs_review)
+      AND (p_from IS NULL OR r.created_at >= p_from)
+      AND (p_to IS NULL OR r.created_at < p_to)
+      AND (p_search IS NULL
+           OR c.customer_first_name ILIKE '%' || p_search || '%'
+           OR c.customer_phone ILIKE '%' || p_search || '%')
+    GROUP BY 1
+    ORDER BY 1 NULLS LAST;
+$$;
+
+-- Migration: Compatibility of exported calls
+-- Exports refuse calls whose questions differ, so answers never share a column with another question's
+
+-- Responses of the calls matching the filters of the call list, by the compatibility key of the calls' questions
+CREATE OR REPLACE FUNCTION call_compatibility_groups(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_customer_id UUID DEFAULT NULL,
+    p_survey_version_ids UUID[] DEFAULT NULL,
+    p_statuses TEXT[] DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    compatibility_key TEXT,
+    survey_version_ids UUID[],
+    responses BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        call_compatibility_key(c),
+        COALESCE(ARRAY_AGG(DISTINCT c.survey_version_id) FILTER (WHERE c.survey_version_id IS NOT NULL), '{}'),
+        COUNT(*)
+    FROM survey_calls c
+    JOIN survey_responses r ON r.call_id = c.id
+    WHERE (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_customer_id IS NULL OR c.customer_id = p_customer_id)
+      AND (p_survey_version_ids IS NULL OR c.survey_version_id = ANY(p_survey_version_ids))
+      AND (p_statuses IS NULL OR c.call_status = ANY(p_statuses))
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+      AND (p_search IS NULL
+           OR c.customer_first_name ILIKE '%' || p_search || '%'
+           OR c.customer_phone ILIKE '%' || p_search || '%')
+    GROUP BY 1
+    ORDER BY 1 NULLS LAST;
+$$;
+
+-- Migration: Question stats by compatibility key
+-- Questions asked in other words by different survey versions are reported apart; the return type changes,
+-- so the function is dropped first
+
+DROP FUNCTION IF EXISTS report_question_stats(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+-- Per question of each set of compatible survey versions: calls that gave a main answer, sentiment of those
+-- answers, and follow-up answers. Answers to a number asked in other words are counted apart
+CREATE OR REPLACE FUNCTION report_question_stats(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    compatibility_key TEXT,
+    question_number INTEGER,
+    answered_calls BIGINT,
+    positive BIGINT,
+    neutral BIGINT,
+    negative BIGINT,
+    unscored BIGINT,
+    follow_ups BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        call_compatibility_key(c),
+        r.question_number,
+        COUNT(DISTINCT r.call_id) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE)),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'positive'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'neutral'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'negative'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment IS NULL),
+        COUNT(*) FILTER (WHERE COALESCE(r.is_followup, FALSE))
+    FROM survey_responses r
+    JOIN survey_calls c ON c.id = r.call_id
+    WHERE (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+    GROUP BY 1, 2
+    ORDER BY 2, 1 NULLS LAST;
+$$;
+
+-- Migration: Answer stats by compatibility key
+-- Extracted answers to questions asked in other words are counted apart; the return types change, so the
+-- functions are dropped first
+
+DROP FUNCTION IF EXISTS report_answer_stats(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS report_duration_stats(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+-- Main answers per question of each set of compatible survey versions, by extracted value; durations are counted
+-- in the ranges DURATION_BUCKETS in src/repositories/repository.ts lists, and answers nothing was recognised in
+-- have a NULL value
+CREATE OR REPLACE FUNCTION report_answer_stats(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    compatibility_key TEXT,
+    question_number INTEGER,
+    answer_type TEXT,
+    answer_value TEXT,
+    answers BIGINT,
+    needs_review BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        call_compatibility_key(c),
+        r.question_number,
+        r.answer_type,
+        CASE
+            WHEN jsonb_typeof(r.answer_value) = 'number' THEN
+                CASE
+                    WHEN (r.answer_value #>> '{}')::NUMERIC < 12 THEN 'under 1 year'
+                    WHEN (r.answer_value #>> '{}')::NUMERIC < 24 THEN '1-2 years'
+                    WHEN (r.answer_value #>> '{}')::NUMERIC < 60 THEN '2-5 years'
+                    WHEN (r.answer_value #>> '{}')::NUMERIC < 120 THEN '5-10 years'
+                    ELSE '10+ years'
+                END
+            ELSE r.answer_value #>> '{}'
+        END,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE r.needs_review)
+    FROM survey_responses r
+    JOIN survey_calls c ON c.id = r.call_id
+    WHERE r.answer_type IS NOT NULL
+      AND NOT COALESCE(r.is_followup, FALSE)
+      AND (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+    GROUP BY 1, 2, 3, 4
+    ORDER BY 2, 1 NULLS LAST, 3, 4;
+$$;
+
+-- Median and mean of duration answers per question of each set of compatible survey versions, in months
+CREATE OR REPLACE FUNCTION report_duration_stats(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    compatibility_key TEXT,
+    question_number INTEGER,
+    answers BIGINT,
+    median_months NUMERIC,
+    average_months NUMERIC
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        call_compatibility_key(c),
+        r.question_number,
+        COUNT(*),
+        ROUND((PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY (r.answer_value #>> '{}')::NUMERIC))::NUMERIC, 1),
+        ROUND(AVG((r.answer_value #>> '{}')::NUMERIC), 1)
+    FROM survey_responses r
+    JOIN survey_calls c ON c.id = r.call_id
+    WHERE r.answer_type = 'duration'
+      AND jsonb_typeof(r.answer_value) = 'number'
+      AND NOT COALESCE(r.is_followup, FALSE)
+      AND (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+    GROUP BY 1, 2
+    ORDER BY 2, 1 NULLS LAST;
+$$;
+
+-- Migration: Completed calls per compatibility key
+-- Answer rates divide by the completed calls that asked the same questions; the return type changes, so the
+-- function is dropped first
+
+DROP FUNCTION IF EXISTS report_question_stats(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+-- Per question of each set of compatible survey versions: calls that gave a main answer, completed calls with
+-- those versions' questions, sentiment of the answers, and follow-up answers. Answers to a number asked in
+-- other words are counted apart
+CREATE OR REPLACE FUNCTION report_question_stats(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    compatibility_key TEXT,
+    question_number INTEGER,
+    answered_calls BIGINT,
+    completed_calls BIGINT,
+    positive BIGINT,
+    neutral BIGINT,
+    negative BIGINT,
+    unscored BIGINT,
+    follow_ups BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    WITH calls AS (
+        SELECT c.id, c.call_status, call_compatibility_key(c) AS compatibility_key
+        FROM survey_calls c
+        WHERE (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+          AND (p_from IS NULL OR c.created_at >= p_from)
+          AND (p_to IS NULL OR c.created_at < p_to)
+    ),
+    completed AS (
+        SELECT compatibility_key, COUNT(*) AS calls
+        FROM calls
+        WHERE call_status = 'completed'
+        GROUP BY 1
+    )
+    SELECT
+        k.compatibility_key,
+        r.question_number,
+        COUNT(DISTINCT r.call_id) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE)),
+        COALESCE(MAX(d.calls), 0),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'positive'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'neutral'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment = 'negative'),
+        COUNT(*) FILTER (WHERE NOT COALESCE(r.is_followup, FALSE) AND r.response_sentiment IS NULL),
+        COUNT(*) FILTER (WHERE COALESCE(r.is_followup, FALSE))
+    FROM survey_responses r
+    JOIN calls k ON k.id = r.call_id
+    LEFT JOIN completed d ON d.compatibility_key IS NOT DISTINCT FROM k.compatibility_key
+    GROUP BY 1, 2
+    ORDER BY 2, 1 NULLS LAST;
+$$;
+
+-- Migration: Version comparison report
+-- Aggregates the survey version comparison in the database instead of loading every response
+
+-- Responses per survey version and question, with the calls of each version. Calls dialed before versions
+-- were recorded form one group with a NULL version, whose question text is the text stored with the answers
+CREATE OR REPLACE FUNCTION report_version_comparison(
+    p_campaign_id TEXT DEFAULT NULL,
+    p_survey_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    survey_version_id UUID,
+    survey_id TEXT,
+    calls BIGINT,
+    question_number INTEGER,
+    question_text TEXT,
+    responses BIGINT,
+    positive BIGINT,
+    neutral BIGINT,
+    negative BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    WITH answers AS (
+        SELECT
+            c.survey_version_id,
+            COALESCE(v.survey_id, c.survey_id) AS survey_id,
+            r.call_id,
+            r.question_number,
+            r.question_text,
+            r.response_sentiment
+        FROM survey_responses r
+        JOIN survey_calls c ON c.id = r.call_id
+        LEFT JOIN survey_versions v ON v.id = c.survey_version_id
+        WHERE (p_campaign_id IS NULL OR c.campaign_id = p_campaign_id)
+          AND (p_survey_id IS NULL OR COALESCE(v.survey_id, c.survey_id) = p_survey_id)
+    ),
+    versions AS (
+        SELECT survey_version_id, MIN(survey_id) AS survey_id, COUNT(DISTINCT call_id) AS calls
+        FROM answers
+        GROUP BY 1
+    )
+    SELECT
+        a.survey_version_id,
+        v.survey_id,
+        v.calls,
+        a.question_number,
+        MIN(a.question_text),
+        COUNT(*),
+        COUNT(*) FILTER (WHERE a.response_sentiment = 'positive'),
+        COUNT(*) FILTER (WHERE a.response_sentiment = 'neutral'),
+        COUNT(*) FILTER (WHERE a.response_sentiment = 'negative')
+    FROM answers a
+    JOIN versions v ON v.survey_version_id IS NOT DISTINCT FROM a.survey_version_id
+    GROUP BY 1, 2, 3, 4
+    ORDER BY 1 NULLS FIRST, 4;
+$$;